@@ -0,0 +1,330 @@
+/**
+ * Schema generator
+ *
+ * Generates the JSON Schemas of `RealityCheckInput` and `RealityCheckResult`,
+ * and the OpenAPI document of the evaluate API, from the TypeScript types in
+ * src/, so the published schemas always describe what the engine actually
+ * accepts and returns. Every named interface and type alias becomes a
+ * definition of its own, and JSDoc comments become `description`s.
+ *
+ * Usage:
+ *   node scripts/generate-schemas.mjs          write src/schemas/*.json
+ *   node scripts/generate-schemas.mjs --check  exit 1 if they are out of date
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import ts from 'typescript'
+
+const engineDir = join(dirname(fileURLToPath(import.meta.url)), '..')
+const schemasDir = join(engineDir, 'src', 'schemas')
+
+/** Source files of the published types, relative to src/ */
+const SOURCES = ['models.ts', 'validation/index.ts', 'config/index.ts', 'reproducibility/index.ts']
+
+const program = ts.createProgram(
+  SOURCES.map(source => join(engineDir, 'src', source)),
+  {
+    strict: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    resolveJsonModule: true,
+  }
+)
+const checker = program.getTypeChecker()
+
+/**
+ * Finds a type exported from a source file (relative to src/).
+ */
+function findExport(source, name) {
+  const file = program.getSourceFile(join(engineDir, 'src', source))
+  const symbol = checker.getExportsOfModule(checker.getSymbolAtLocation(file)).find(
+    candidate => candidate.name === name
+  )
+  if (!symbol) {
+    throw new Error(`${name} is not exported from src/${source}`)
+  }
+  return symbol
+}
+
+/**
+ * Engine version: `ENGINE_VERSION`, which must match package.json.
+ */
+function engineVersion() {
+  const { version } = JSON.parse(readFileSync(join(engineDir, 'package.json'), 'utf8'))
+  const type = checker.getTypeOfSymbol(findExport('reproducibility/index.ts', 'ENGINE_VERSION'))
+  if (!type.isStringLiteral() || type.value !== version) {
+    throw new Error(`ENGINE_VERSION does not match the package.json version (${version})`)
+  }
+  return version
+}
+
+const version = engineVersion()
+
+/**
+ * Whether a symbol is declared in the engine (not in a TypeScript lib).
+ */
+function isEngineSymbol(symbol) {
+  return (symbol.declarations ?? []).some(
+    declaration => !declaration.getSourceFile().fileName.includes('node_modules')
+  )
+}
+
+/**
+ * JSDoc comment of a symbol, if it has one.
+ */
+function describe(symbol) {
+  const text = ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim()
+  return text ? { description: text } : {}
+}
+
+/**
+ * Creates a schema builder that collects every named type it meets into
+ * `defs`, referenced as `${refPrefix}${name}`.
+ */
+function createBuilder(defs, refPrefix) {
+  /**
+   * Schema of a named type: a `$ref` to its definition, built on first use.
+   * The definition is reserved before it is built so recursive types terminate.
+   */
+  function ref(symbol, build) {
+    const name = symbol.name
+    if (!(name in defs)) {
+      defs[name] = {}
+      defs[name] = { ...describe(symbol), ...build() }
+    }
+    return { $ref: `${refPrefix}${name}` }
+  }
+
+  /**
+   * Schema of a union: literal unions become enums, `T | undefined` becomes T.
+   */
+  function unionSchema(types) {
+    let members = types.filter(type => !(type.flags & ts.TypeFlags.Undefined))
+    const booleans = members.filter(type => type.flags & ts.TypeFlags.BooleanLiteral)
+    if (booleans.length === 2) {
+      members = [...members.filter(type => !booleans.includes(type)), checker.getBooleanType()]
+    }
+    if (members.length === 1) {
+      return schemaOf(members[0])
+    }
+    if (members.every(type => type.isStringLiteral())) {
+      return { type: 'string', enum: members.map(type => type.value) }
+    }
+    if (members.every(type => type.isNumberLiteral())) {
+      const values = members.map(type => type.value)
+      return { type: values.every(Number.isInteger) ? 'integer' : 'number', enum: values }
+    }
+    return { anyOf: members.map(schemaOf) }
+  }
+
+  /**
+   * Schema of an object type: its properties (required unless optional) and
+   * its string index signature, if any.
+   */
+  function objectSchema(type) {
+    if (type.getCallSignatures().length > 0) {
+      throw new Error(`Cannot describe function type ${checker.typeToString(type)} in JSON Schema`)
+    }
+    const properties = {}
+    const required = []
+    for (const property of checker.getPropertiesOfType(type)) {
+      const location = property.valueDeclaration ?? property.declarations?.[0]
+      const propertyType = location
+        ? checker.getTypeOfSymbolAtLocation(property, location)
+        : checker.getTypeOfSymbol(property)
+      properties[property.name] = { ...describe(property), ...schemaOf(propertyType) }
+      if (!(property.flags & ts.SymbolFlags.Optional)) {
+        required.push(property.name)
+      }
+    }
+    const schema = { type: 'object', properties }
+    if (required.length > 0) {
+      schema.required = required
+    }
+    const index = checker.getIndexInfoOfType(type, ts.IndexKind.String)
+    if (index) {
+      schema.additionalProperties = schemaOf(index.type)
+    }
+    return schema
+  }
+
+  /**
+   * Schema of a type's structure, ignoring its name.
+   */
+  function structuralSchema(type) {
+    const { flags } = type
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {}
+    if (flags & ts.TypeFlags.String) return { type: 'string' }
+    if (flags & ts.TypeFlags.Number) return { type: 'number' }
+    if (flags & ts.TypeFlags.Boolean) return { type: 'boolean' }
+    if (flags & ts.TypeFlags.Null) return { type: 'null' }
+    if (type.isStringLiteral() || type.isNumberLiteral()) return { const: type.value }
+    if (flags & ts.TypeFlags.BooleanLiteral) return { const: checker.typeToString(type) === 'true' }
+    if (type.isUnion()) return unionSchema(type.types)
+    if (checker.isArrayType(type)) {
+      return { type: 'array', items: schemaOf(checker.getTypeArguments(type)[0]) }
+    }
+    if (flags & ts.TypeFlags.Object) return objectSchema(type)
+    throw new Error(`Cannot describe type ${checker.typeToString(type)} in JSON Schema`)
+  }
+
+  /**
+   * Schema of any type used by the published types.
+   */
+  function schemaOf(type) {
+    const alias = type.aliasSymbol
+    if (alias && !type.aliasTypeArguments && isEngineSymbol(alias)) {
+      return ref(alias, () => structuralSchema(type))
+    }
+    const symbol = type.getSymbol()
+    if (symbol && symbol.flags & ts.SymbolFlags.Interface && isEngineSymbol(symbol)) {
+      return ref(symbol, () => objectSchema(type))
+    }
+    return structuralSchema(type)
+  }
+
+  return {
+    /** Schema of an exported type itself, without a `$ref` to it */
+    root: symbol => ({ ...describe(symbol), ...structuralSchema(checker.getDeclaredTypeOfSymbol(symbol)) }),
+    /** `$ref` to an exported type, adding it to `defs` */
+    ref: symbol => schemaOf(checker.getDeclaredTypeOfSymbol(symbol)),
+  }
+}
+
+/**
+ * Sorts definitions by name, so the output does not depend on traversal order.
+ */
+function sortByName(defs) {
+  return Object.fromEntries(Object.entries(defs).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+/**
+ * Builds the standalone JSON Schema of a type exported from src/models.ts.
+ */
+function jsonSchema(name) {
+  const defs = {}
+  const symbol = findExport('models.ts', name)
+  const { description, ...schema } = createBuilder(defs, '#/$defs/').root(symbol)
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `urn:career-reality-checker:engine:${version}:${name}`,
+    title: name,
+    description,
+    $comment: `Generated from src/models.ts by scripts/generate-schemas.mjs (engine ${version}). Do not edit.`,
+    ...schema,
+    $defs: sortByName(defs),
+  }
+}
+
+/**
+ * Builds the OpenAPI document of the evaluate API.
+ */
+function openApiDocument() {
+  const schemas = {}
+  const builder = createBuilder(schemas, '#/components/schemas/')
+  const input = builder.ref(findExport('models.ts', 'RealityCheckInput'))
+  const result = builder.ref(findExport('models.ts', 'RealityCheckResult'))
+  const validationError = builder.ref(findExport('validation/index.ts', 'ValidationError'))
+  const preset = builder.ref(findExport('config/index.ts', 'ConfigPresetName'))
+
+  schemas.ErrorResponse = {
+    description: 'Error returned instead of a result',
+    type: 'object',
+    properties: {
+      error: { description: 'What went wrong', type: 'string' },
+      details: { description: 'Underlying error message (server errors only)', type: 'string' },
+      errors: {
+        description: 'Every field that failed validation (422 responses only)',
+        type: 'array',
+        items: validationError,
+      },
+    },
+    required: ['error'],
+  }
+  const error = description => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+  })
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Career Reality Checker API',
+      version,
+      description:
+        'Rule-based career assessment. Generated from the engine types by ' +
+        'scripts/generate-schemas.mjs. Do not edit.',
+      license: { name: 'MIT', identifier: 'MIT' },
+    },
+    paths: {
+      '/api/evaluate': {
+        post: {
+          operationId: 'evaluate',
+          summary: 'Evaluate a career goal against a user profile',
+          parameters: [
+            {
+              name: 'preset',
+              in: 'query',
+              required: false,
+              description: 'Evaluator config preset (default: "default")',
+              schema: preset,
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: input } },
+          },
+          responses: {
+            200: {
+              description: 'Evaluation result',
+              content: { 'application/json': { schema: result } },
+            },
+            400: error('Unknown scenarioId or preset'),
+            422: error('Input failed validation; `errors` lists every failed field'),
+            500: error('The evaluation failed'),
+          },
+        },
+      },
+    },
+    components: { schemas: sortByName(schemas) },
+  }
+}
+
+/** Generated files, relative to src/schemas/ */
+const OUTPUTS = [
+  { file: 'reality-check-input.schema.json', build: () => jsonSchema('RealityCheckInput') },
+  { file: 'reality-check-result.schema.json', build: () => jsonSchema('RealityCheckResult') },
+  { file: 'openapi.json', build: openApiDocument },
+]
+
+const check = process.argv.includes('--check')
+const outdated = []
+
+for (const { file, build } of OUTPUTS) {
+  const path = join(schemasDir, file)
+  const content = JSON.stringify(build(), null, 2) + '\n'
+  if (check) {
+    let current = null
+    try {
+      current = readFileSync(path, 'utf8')
+    } catch {
+      // A missing file is out of date too
+    }
+    if (current !== content) {
+      outdated.push(relative(engineDir, path))
+    }
+  } else {
+    writeFileSync(path, content)
+    console.log(`Wrote ${relative(engineDir, path)}`)
+  }
+}
+
+if (outdated.length > 0) {
+  console.error(`Out of date with the engine types: ${outdated.join(', ')}`)
+  console.error('Run `npm run schemas` and commit the result.')
+  process.exit(1)
+}
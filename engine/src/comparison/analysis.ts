@@ -0,0 +1,203 @@
+/**
+ * Multi-goal comparison
+ *
+ * Evaluates one profile against several career goals or scenarios and puts the
+ * results side by side: scores, band timelines and hours invested on a common
+ * scale, the skill gaps the goals share and the sacrifices where they differ.
+ */
+
+import type {
+  CareerGoal,
+  ProbabilityBand,
+  RealityCheckInput,
+  RealityCheckResult,
+  SacrificeIndicators,
+  UserProfile,
+} from '../models'
+import { Evaluator } from '../evaluator'
+import { normalizeSkillName, resolveSkill } from '../skills/matching'
+import type {
+  ComparedGoal,
+  ComparisonGoal,
+  ComparisonOptions,
+  GoalComparison,
+  SacrificeDifference,
+  SharedSkillGap,
+} from './index'
+
+/** Days counted per month when totalling hours invested */
+const DAYS_PER_MONTH = 30
+
+/** Probability bands, best first */
+const BANDS: ProbabilityBand[] = ['best', 'average', 'worst']
+
+/**
+ * Builds the evaluation input for one goal. Scenario IDs become a goal for the
+ * scenario's target role and industry, evaluated against that scenario.
+ *
+ * @throws Error if a scenario ID is unknown
+ */
+function buildInput(
+  profile: UserProfile,
+  goal: ComparisonGoal,
+  options: ComparisonOptions,
+  evaluator: Evaluator
+): RealityCheckInput {
+  if (typeof goal !== 'string') {
+    return { profile, goal }
+  }
+
+  const scenario = evaluator.getScenario(goal)
+  if (!scenario) {
+    throw new Error(`Unknown scenario ID: ${goal}`)
+  }
+  return {
+    profile,
+    goal: {
+      targetRole: scenario.targetRole,
+      targetIndustry: scenario.targetIndustry,
+      timeline: options.timeline ?? { targetMonths: scenario.timelineRanges.averageCaseMonths, isFlexible: true },
+    },
+    scenarioId: scenario.id,
+  }
+}
+
+/**
+ * Scales a value against the other goals' values: 100 for the best, 0 for the
+ * worst, 100 when all are equal.
+ */
+function normalize(value: number, values: number[], higherIsBetter: boolean): number {
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  if (max === min) return 100
+  const share = (value - min) / (max - min)
+  return Math.round((higherIsBetter ? share : 1 - share) * 100)
+}
+
+/**
+ * Index of the first goal with the best value.
+ */
+function indexOfBest(values: number[], higherIsBetter: boolean): number {
+  const best = higherIsBetter ? Math.max(...values) : Math.min(...values)
+  return values.indexOf(best)
+}
+
+/**
+ * Finds the skill gaps two or more goals have in common. Gaps are the same skill
+ * if they resolve to the same canonical skill, or have the same normalized name.
+ */
+function findSharedSkillGaps(results: RealityCheckResult[]): SharedSkillGap[] {
+  const gaps = new Map<string, SharedSkillGap>()
+
+  results.forEach((result, index) => {
+    for (const gap of result.skillGaps) {
+      const skillId = resolveSkill(gap.skillName)?.skill.id
+      const key = skillId ?? normalizeSkillName(gap.skillName)
+      const shared = gaps.get(key)
+      if (!shared) {
+        gaps.set(key, {
+          skillName: gap.skillName,
+          skillId,
+          goalIndexes: [index],
+          requiredProficiency: gap.requiredProficiency,
+        })
+      } else {
+        if (!shared.goalIndexes.includes(index)) shared.goalIndexes.push(index)
+        shared.requiredProficiency = Math.max(shared.requiredProficiency, gap.requiredProficiency)
+      }
+    }
+  })
+
+  // Array.prototype.sort is stable, so ties keep the order the gaps were found in
+  return [...gaps.values()]
+    .filter(gap => gap.goalIndexes.length >= 2)
+    .sort((a, b) => b.goalIndexes.length - a.goalIndexes.length)
+}
+
+/**
+ * Finds the average-case sacrifices needed for some goals but not all.
+ */
+function findDifferingSacrifices(results: RealityCheckResult[]): SacrificeDifference[] {
+  const sacrifices = Object.keys(results[0].probabilityBands.average.sacrifices) as Array<keyof SacrificeIndicators>
+
+  return sacrifices
+    .map(sacrifice => ({
+      sacrifice,
+      goalIndexes: results
+        .map((result, index) => (result.probabilityBands.average.sacrifices[sacrifice] ? index : -1))
+        .filter(index => index >= 0),
+    }))
+    .filter(difference => difference.goalIndexes.length > 0 && difference.goalIndexes.length < results.length)
+}
+
+/**
+ * Evaluates one profile against several goals and compares the results.
+ *
+ * - Each goal is a `CareerGoal` (its best-matching scenario is used) or a
+ *   scenario ID (see `buildInput`)
+ * - Total hours invested are each phase's daily hours over its months, summed
+ *   over the band's phases, at 30 days per month
+ * - Normalized values scale each goal against the others, so goals can be
+ *   ranked on any one measure (see `NormalizedComparison`)
+ *
+ * @throws Error if fewer than two goals are given, or a scenario ID is unknown
+ */
+export function compare(profile: UserProfile, goals: ComparisonGoal[], options: ComparisonOptions = {}): GoalComparison {
+  if (goals.length < 2) {
+    throw new Error('Comparison needs at least two goals')
+  }
+
+  const evaluator = options.evaluator ?? new Evaluator()
+  const inputs = goals.map(goal => buildInput(profile, goal, options, evaluator))
+  const results = inputs.map(input => evaluator.evaluate(input))
+
+  const totalHours = results.map(result =>
+    Object.fromEntries(
+      BANDS.map(band => {
+        const hours = result.probabilityBands[band].phases.reduce(
+          (sum, phase) => sum + phase.dailyHours * phase.months * DAYS_PER_MONTH,
+          0
+        )
+        return [band, Math.round(hours)]
+      })
+    ) as Record<ProbabilityBand, number>
+  )
+  const scores = results.map(result => result.overallScore)
+  const averageTimelines = results.map(result => result.probabilityBands.average.estimatedTimelineMonths)
+  const averageHours = totalHours.map(hours => hours.average)
+
+  const compared: ComparedGoal[] = results.map((result, index) => {
+    const goal: CareerGoal = inputs[index].goal
+    const scenario = result.metadata.scenarioId ? evaluator.getScenario(result.metadata.scenarioId) : undefined
+    const { sacrifices } = result.probabilityBands.average
+    return {
+      label: scenario?.name ?? goal.targetRole,
+      goal,
+      scenarioId: result.metadata.scenarioId,
+      overallScore: result.overallScore,
+      scoreBreakdown: result.scoreBreakdown,
+      timelines: {
+        best: result.probabilityBands.best.estimatedTimelineMonths,
+        average: result.probabilityBands.average.estimatedTimelineMonths,
+        worst: result.probabilityBands.worst.estimatedTimelineMonths,
+      },
+      totalHours: totalHours[index],
+      skillGaps: result.skillGaps.map(gap => gap.skillName),
+      sacrifices: (Object.keys(sacrifices) as Array<keyof SacrificeIndicators>).filter(key => sacrifices[key]),
+      normalized: {
+        overallScore: normalize(scores[index], scores, true),
+        averageTimeline: normalize(averageTimelines[index], averageTimelines, false),
+        averageTotalHours: normalize(averageHours[index], averageHours, false),
+      },
+      result,
+    }
+  })
+
+  return {
+    goals: compared,
+    sharedSkillGaps: findSharedSkillGaps(results),
+    differingSacrifices: findDifferingSacrifices(results),
+    bestOverallScore: indexOfBest(scores, true),
+    fastestAverageTimeline: indexOfBest(averageTimelines, false),
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Comparison module
+ *
+ * This module contains the types for multi-goal comparison: one profile is
+ * evaluated against several career goals or scenarios, and the results are put
+ * side by side on a common scale (see `compare` in analysis.ts).
+ */
+
+import type { CareerGoal, ProbabilityBand, RealityCheckResult, SacrificeIndicators, Timeline } from '../models'
+import type { Evaluator } from '../evaluator'
+
+/**
+ * A goal to compare: a career goal, or the ID of a scenario to evaluate
+ * against (its target role, industry and timeline become the goal).
+ */
+export type ComparisonGoal = CareerGoal | string
+
+/**
+ * Values of one goal scaled against the other goals compared: 100 is the best
+ * of them and 0 the worst (100 for all when every goal has the same value).
+ */
+export interface NormalizedComparison {
+  /** Overall score (higher is better) */
+  overallScore: number
+  /** Average-case timeline (shorter is better) */
+  averageTimeline: number
+  /** Average-case total hours invested (fewer is better) */
+  averageTotalHours: number
+}
+
+/**
+ * The result of one goal in a comparison.
+ */
+export interface ComparedGoal {
+  /** Display name: the scenario name, or the target role if no scenario was used */
+  label: string
+  /** Goal that was evaluated */
+  goal: CareerGoal
+  /** Scenario the goal was evaluated against (if any) */
+  scenarioId?: string
+  /** Overall score (0-100) */
+  overallScore: number
+  /** Scores that make up the overall score */
+  scoreBreakdown: RealityCheckResult['scoreBreakdown']
+  /** Estimated timeline of each band, in months */
+  timelines: Record<ProbabilityBand, number>
+  /** Total hours invested in each band: each phase's daily hours over its months */
+  totalHours: Record<ProbabilityBand, number>
+  /** Names of the skills with a gap for this goal */
+  skillGaps: string[]
+  /** Sacrifices needed in the average case */
+  sacrifices: Array<keyof SacrificeIndicators>
+  /** Values scaled against the other goals */
+  normalized: NormalizedComparison
+  /** The full evaluation */
+  result: RealityCheckResult
+}
+
+/**
+ * A skill gap that two or more goals have in common.
+ */
+export interface SharedSkillGap {
+  /** Skill name, as written in the first goal with the gap */
+  skillName: string
+  /** Canonical skill ID (absent if the name is not in the taxonomy) */
+  skillId?: string
+  /** Indexes of the goals with the gap, in comparison order */
+  goalIndexes: number[]
+  /** Highest proficiency required by any of those goals (0-5) */
+  requiredProficiency: number
+}
+
+/**
+ * An average-case sacrifice needed for some goals but not others.
+ */
+export interface SacrificeDifference {
+  /** The sacrifice */
+  sacrifice: keyof SacrificeIndicators
+  /** Indexes of the goals that need it, in comparison order */
+  goalIndexes: number[]
+}
+
+/**
+ * Result of comparing several goals for one profile.
+ */
+export interface GoalComparison {
+  /** Result of each goal, in the order given */
+  goals: ComparedGoal[]
+  /** Skill gaps shared by two or more goals, most shared first */
+  sharedSkillGaps: SharedSkillGap[]
+  /** Average-case sacrifices that differ between goals */
+  differingSacrifices: SacrificeDifference[]
+  /** Index of the goal with the highest overall score (first on ties) */
+  bestOverallScore: number
+  /** Index of the goal with the shortest average-case timeline (first on ties) */
+  fastestAverageTimeline: number
+}
+
+/**
+ * Options for `compare`.
+ */
+export interface ComparisonOptions {
+  /** Evaluator to score each goal with (default: a default `Evaluator`) */
+  evaluator?: Evaluator
+  /**
+   * Timeline of goals given as scenario IDs (default: the scenario's average-case
+   * timeline, flexible)
+   */
+  timeline?: Timeline
+}
@@ -0,0 +1,245 @@
+/**
+ * Config module
+ *
+ * This module contains the numeric assumptions the evaluator uses outside the
+ * rules: how component scores are weighted, how the probability bands stretch
+ * the timeline and effort, how likely each band is, and how many hours a day
+ * people in each situation can realistically spend on their goal.
+ *
+ * Pass a preset name or a full `EvaluatorConfig` to the `Evaluator` constructor.
+ * The config in use is embedded in every result (`metadata.config`), so any
+ * result can be audited against the numbers that produced it.
+ */
+
+import type { RealityCheckResult, ProbabilityBand, UserProfile } from '../models'
+
+/**
+ * One row of a likelihood table: the likelihood (%) of a band when the overall
+ * score is at least `minScore`.
+ */
+export interface LikelihoodThreshold {
+  /** Lowest overall score (0-100) this row applies to */
+  minScore: number
+  /** Likelihood of the band (0-100) */
+  likelihood: number
+}
+
+/**
+ * Numeric assumptions used by the evaluator.
+ */
+export interface EvaluatorConfig {
+  /** Config name (the preset name, or a custom name) */
+  name: string
+  /** What the config is intended for */
+  description: string
+  /**
+   * Weight of each component score in the overall score.
+   * The overall score is the weighted average of the component scores that were
+   * calculated, so weights do not need to add up to 1.
+   */
+  weights: Record<keyof RealityCheckResult['scoreBreakdown'], number>
+  /** Multipliers applied to each probability band */
+  bandMultipliers: {
+    /** Multiplier on the base timeline (months) */
+    timeline: Record<ProbabilityBand, number>
+    /** Multiplier on the base daily hours of effort */
+    hours: Record<ProbabilityBand, number>
+  }
+  /**
+   * Likelihood of each band by overall score.
+   * Rows are checked in order and the first row whose `minScore` the overall
+   * score reaches is used, so list them from highest `minScore` to lowest.
+   */
+  likelihoodTables: Record<ProbabilityBand, LikelihoodThreshold[]>
+  /** Hours per day realistically available for career development, by employment status */
+  availableHours: Record<UserProfile['employmentStatus'], number>
+}
+
+/**
+ * Default config.
+ *
+ * Assumptions:
+ * - Experience and skills matter most (30% each), education and timeline 20% each
+ * - Market conditions add a further 10% when market data is available; without
+ *   it, the other four weights apply unchanged
+ * - Best case takes 80% of the base timeline, worst case 150%
+ * - Best case needs 80% of the base daily effort, worst case 130%
+ * - The average case is always the most likely outcome (50%)
+ * - Employed people have about 3 hours a day after work (8h work + 1h commute
+ *   + 1h meals), students 4, self-employed 3.5, unemployed 7
+ */
+export const defaultConfig: EvaluatorConfig = {
+  name: 'default',
+  description: 'Balanced weights for most career goals',
+  weights: {
+    experienceScore: 0.3,
+    skillScore: 0.3,
+    educationScore: 0.2,
+    timelineScore: 0.2,
+    marketScore: 0.1,
+  },
+  bandMultipliers: {
+    timeline: { best: 0.8, average: 1.0, worst: 1.5 },
+    hours: { best: 0.8, average: 1.0, worst: 1.3 },
+  },
+  likelihoodTables: {
+    best: [
+      { minScore: 80, likelihood: 30 },
+      { minScore: 50, likelihood: 20 },
+      { minScore: 0, likelihood: 10 },
+    ],
+    average: [{ minScore: 0, likelihood: 50 }],
+    worst: [
+      { minScore: 80, likelihood: 20 },
+      { minScore: 50, likelihood: 30 },
+      { minScore: 0, likelihood: 40 },
+    ],
+  },
+  availableHours: {
+    employed: 3,
+    unemployed: 7,
+    self_employed: 3.5,
+    student: 4,
+  },
+}
+
+/**
+ * Names of the bundled config presets.
+ */
+export type ConfigPresetName = 'default' | 'academic' | 'career-changer'
+
+/**
+ * Bundled config presets.
+ *
+ * - academic: research and PhD paths, where degrees and publications count for
+ *   more than years in industry, and hiring follows slow yearly cycles
+ * - career-changer: people moving into a new field, where transferable skills
+ *   count for more than (necessarily missing) relevant experience, and setbacks
+ *   such as rejected applications are more common
+ */
+export const configPresets: Record<ConfigPresetName, EvaluatorConfig> = {
+  default: defaultConfig,
+  academic: {
+    ...defaultConfig,
+    name: 'academic',
+    description: 'Research and academic paths: education weighted highest, slower hiring cycles',
+    weights: {
+      experienceScore: 0.2,
+      skillScore: 0.25,
+      educationScore: 0.35,
+      timelineScore: 0.2,
+      // Academic openings depend on funding cycles more than on the job market
+      marketScore: 0.05,
+    },
+    bandMultipliers: {
+      // Applications open once a year, so a missed cycle costs a full year
+      timeline: { best: 0.9, average: 1.0, worst: 2.0 },
+      hours: defaultConfig.bandMultipliers.hours,
+    },
+    availableHours: {
+      ...defaultConfig.availableHours,
+      // Students in research programs can fold preparation into their coursework
+      student: 5,
+    },
+  },
+  'career-changer': {
+    ...defaultConfig,
+    name: 'career-changer',
+    description: 'Moving into a new field: skills weighted over relevant experience, more room for setbacks',
+    weights: {
+      experienceScore: 0.2,
+      skillScore: 0.35,
+      educationScore: 0.15,
+      timelineScore: 0.3,
+      // Newcomers without a network feel competition for openings the most
+      marketScore: 0.15,
+    },
+    bandMultipliers: {
+      timeline: { best: 0.9, average: 1.0, worst: 1.75 },
+      hours: { best: 0.9, average: 1.0, worst: 1.4 },
+    },
+    likelihoodTables: {
+      best: [
+        { minScore: 80, likelihood: 25 },
+        { minScore: 50, likelihood: 15 },
+        { minScore: 0, likelihood: 5 },
+      ],
+      average: [{ minScore: 0, likelihood: 50 }],
+      worst: [
+        { minScore: 80, likelihood: 25 },
+        { minScore: 50, likelihood: 35 },
+        { minScore: 0, likelihood: 45 },
+      ],
+    },
+  },
+}
+
+/**
+ * Whether a name (e.g. a query parameter) is one of the bundled presets.
+ * Only the presets' own keys count, not those inherited from `Object.prototype`
+ * such as "constructor" or "toString".
+ */
+export function isConfigPresetName(name: string): name is ConfigPresetName {
+  return Object.hasOwn(configPresets, name)
+}
+
+/**
+ * Checks that a config can be used for evaluation.
+ *
+ * @throws Error if a score has no weight, a weight is not a number or is
+ *   negative, all weights are zero, a multiplier is not positive, an employment
+ *   status has no positive available hours, a likelihood table is empty or has
+ *   no row for a score of 0, or the band likelihoods for some overall score
+ *   (0-100) do not add up to 100
+ */
+export function validateConfig(config: EvaluatorConfig): void {
+  // Every score needs a weight, or the overall score becomes NaN
+  for (const key of Object.keys(defaultConfig.weights)) {
+    if (!Number.isFinite(config.weights[key as keyof EvaluatorConfig['weights']])) {
+      throw new Error(`Invalid config "${config.name}": weight ${key} must be a number`)
+    }
+  }
+  const weights = Object.entries(config.weights)
+  const negative = weights.find(([, weight]) => weight < 0)
+  if (negative) {
+    throw new Error(`Invalid config "${config.name}": weight ${negative[0]} is negative`)
+  }
+  if (weights.every(([, weight]) => weight === 0)) {
+    throw new Error(`Invalid config "${config.name}": at least one weight must be positive`)
+  }
+
+  for (const [kind, multipliers] of Object.entries(config.bandMultipliers)) {
+    for (const [band, multiplier] of Object.entries(multipliers)) {
+      if (!(multiplier > 0)) {
+        throw new Error(`Invalid config "${config.name}": ${kind} multiplier for ${band} must be positive`)
+      }
+    }
+  }
+
+  // Required daily hours are compared with the hours each employment status has
+  for (const status of Object.keys(defaultConfig.availableHours)) {
+    const hours = config.availableHours[status as UserProfile['employmentStatus']]
+    if (!(Number.isFinite(hours) && hours > 0)) {
+      throw new Error(`Invalid config "${config.name}": available hours for ${status} must be positive`)
+    }
+  }
+
+  for (const [band, table] of Object.entries(config.likelihoodTables)) {
+    // Every overall score must fall into some row
+    if (!table.some(row => row.minScore <= 0)) {
+      throw new Error(`Invalid config "${config.name}": likelihood table for ${band} needs a row with minScore 0`)
+    }
+  }
+
+  // Band likelihoods must add up to 100 whatever the (whole-number) overall score,
+  // looked up the way the evaluator does: the first row with score >= minScore
+  const tables = Object.values(config.likelihoodTables)
+  for (let score = 0; score <= 100; score++) {
+    const total = tables.reduce((sum, table) => sum + (table.find(row => score >= row.minScore)?.likelihood ?? 0), 0)
+    if (total !== 100) {
+      throw new Error(
+        `Invalid config "${config.name}": band likelihoods add up to ${total} for an overall score of ${score}, not 100`
+      )
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Explanation module
+ *
+ * Rules and the evaluator record how they reach each number: the inputs they
+ * read, the intermediate values they compute, the branches they take and the
+ * formula they apply. These records form the `explanation` tree of a
+ * `RealityCheckResult`, so every score, timeline, likelihood and warning can be
+ * traced back to the values that produced it.
+ */
+
+import type { ProbabilityBand, RealityCheckResult } from '../models'
+
+/**
+ * A value recorded in an explanation (JSON-safe; undefined is recorded as null).
+ */
+export type ExplanationValue = number | string | boolean | null
+
+/**
+ * How one value in the result was calculated.
+ */
+export interface ExplanationNode {
+  /** What the value is (e.g. "Timeline feasibility") */
+  label: string
+  /** ID of the rule that produced the value (absent for values calculated by the evaluator) */
+  ruleId?: string
+  /** The value explained (e.g. the score, months or warning flag) */
+  value: ExplanationValue
+  /** Values read from the input, the scenario, the config or earlier steps */
+  inputs: Record<string, ExplanationValue>
+  /** Values calculated along the way, in the order they were calculated */
+  intermediates: Record<string, ExplanationValue>
+  /** Each branch taken, in order (e.g. "targetMonths >= minimumRealisticMonths * 1.5") */
+  branches: string[]
+  /** The formulas applied, in terms of the input and intermediate names (separated by "; ") */
+  formula?: string
+  /** Explanations of values this one was calculated from */
+  children: ExplanationNode[]
+}
+
+/**
+ * How the values of one probability band were calculated.
+ */
+export interface BandExplanation {
+  /** How `estimatedTimelineMonths` was calculated */
+  timeline: ExplanationNode
+  /** How `likelihood` was looked up */
+  likelihood: ExplanationNode
+  /** How `requiredDailyHours` was calculated */
+  requiredDailyHours: ExplanationNode
+}
+
+/**
+ * How every number in a result was reached.
+ */
+export interface ResultExplanation {
+  /** How the overall score was calculated; its children are the component scores */
+  overallScore: ExplanationNode
+  /** How each calculated component score was reached (absent for scores that were not calculated) */
+  scores: Partial<Record<keyof RealityCheckResult['scoreBreakdown'], ExplanationNode>>
+  /** How each probability band's timeline, likelihood and hours were calculated */
+  bands: Record<ProbabilityBand, BandExplanation>
+  /**
+   * Why each warning was raised, in the same order as `RealityCheckResult.warnings`
+   * (warnings raised by the same rule share that rule's trace)
+   */
+  warnings: ExplanationNode[]
+}
+
+/**
+ * Records how a rule or evaluator step reaches its result.
+ * Rules receive one as their second argument; recording is optional.
+ */
+export interface ExplanationTrace {
+  /** Records a value the calculation reads */
+  input(name: string, value: ExplanationValue | undefined): void
+  /** Records a value the calculation computes */
+  intermediate(name: string, value: ExplanationValue | undefined): void
+  /** Records a branch taken (e.g. the condition that held) */
+  branch(description: string): void
+  /** Records a formula applied; several formulas are listed in the order recorded */
+  formula(text: string): void
+}
+
+/**
+ * Collects one calculation's trace and turns it into an explanation node.
+ */
+export class ExplanationRecorder implements ExplanationTrace {
+  private readonly inputs: Record<string, ExplanationValue> = {}
+  private readonly intermediates: Record<string, ExplanationValue> = {}
+  private readonly branches: string[] = []
+  private readonly formulas: string[] = []
+
+  input(name: string, value: ExplanationValue | undefined): void {
+    this.inputs[name] = value ?? null
+  }
+
+  intermediate(name: string, value: ExplanationValue | undefined): void {
+    this.intermediates[name] = value ?? null
+  }
+
+  branch(description: string): void {
+    this.branches.push(description)
+  }
+
+  formula(text: string): void {
+    this.formulas.push(text)
+  }
+
+  /**
+   * Builds the explanation node for the recorded calculation.
+   */
+  toNode(
+    label: string,
+    value: ExplanationValue | undefined,
+    options: { ruleId?: string; children?: ExplanationNode[] } = {}
+  ): ExplanationNode {
+    return {
+      label,
+      ruleId: options.ruleId,
+      value: value ?? null,
+      inputs: { ...this.inputs },
+      intermediates: { ...this.intermediates },
+      branches: [...this.branches],
+      formula: this.formulas.length > 0 ? this.formulas.join('; ') : undefined,
+      children: options.children ?? [],
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Improvements module
+ *
+ * This module contains the types for the what-if simulator: realistic changes to
+ * a profile or goal, and the smallest sets of them that reach a target overall
+ * score or average-case timeline (see `suggestImprovements` in search.ts).
+ */
+
+import type { Evaluator } from '../evaluator'
+
+/**
+ * What a user wants to reach. At least one field must be set; when both are
+ * set, a path must reach both.
+ */
+export interface ImprovementTarget {
+  /** Overall score to reach (0-100) */
+  overallScore?: number
+  /** Average-case `estimatedTimelineMonths` to get down to */
+  averageTimelineMonths?: number
+}
+
+/**
+ * A single realistic change to the profile or goal.
+ */
+export interface ProfileChange {
+  /**
+   * What is changed:
+   * - skill: raise a skill's proficiency (or learn a missing skill)
+   * - experience: add years of relevant experience
+   * - timeline: extend `goal.timeline.targetMonths`
+   * - remote-only: drop the remote-only requirement
+   * - employment-status: move to an employment status with more time available
+   */
+  kind: 'skill' | 'experience' | 'timeline' | 'remote-only' | 'employment-status'
+  /** Human-readable description (e.g. "Raise Python from 2 to 4") */
+  description: string
+  /** Skill changed (skill changes only) */
+  skillName?: string
+  /** Value before the change */
+  from: number | string | boolean
+  /** Value after the change */
+  to: number | string | boolean
+  /** Rough months the change takes to make (learning, working or waiting); 0 for decisions */
+  months: number
+}
+
+/**
+ * A set of changes that together reach the target.
+ */
+export interface ImprovementPath {
+  /** Changes to make, in candidate order */
+  changes: ProfileChange[]
+  /** Overall score after the changes */
+  overallScore: number
+  /** Average-case timeline in months after the changes */
+  averageTimelineMonths: number
+  /** Sum of the changes' `months` */
+  totalMonths: number
+}
+
+/**
+ * Result of a what-if search.
+ */
+export interface ImprovementSuggestions {
+  /** The target searched for */
+  target: ImprovementTarget
+  /** Values before any change */
+  baseline: {
+    overallScore: number
+    averageTimelineMonths: number
+  }
+  /** Whether the unchanged input already reaches the target (no paths are returned) */
+  alreadyMet: boolean
+  /**
+   * Smallest sets of changes that reach the target, fewest changes first, then
+   * least total months; empty if no set of up to `maxChanges` changes reaches it
+   */
+  paths: ImprovementPath[]
+  /** Candidate changes that were considered */
+  candidates: ProfileChange[]
+  /** Number of changed inputs evaluated during the search */
+  evaluations: number
+}
+
+/**
+ * Options for `suggestImprovements`.
+ */
+export interface ImprovementOptions {
+  /** Evaluator to score each changed input with (default: a default `Evaluator`) */
+  evaluator?: Evaluator
+  /** Most changes in one path (default: 3) */
+  maxChanges?: number
+  /** Most paths returned (default: 5) */
+  maxPaths?: number
+}
@@ -0,0 +1,352 @@
+/**
+ * What-if search
+ *
+ * Builds realistic candidate changes from an evaluation and searches for the
+ * smallest sets of them that reach a target overall score or average-case
+ * timeline. Every changed input is scored by the evaluator itself, so paths
+ * always agree with what a fresh evaluation would say.
+ */
+
+import type { RealityCheckInput, RealityCheckResult, UserProfile } from '../models'
+import { Evaluator } from '../evaluator'
+import type { ImprovementOptions, ImprovementPath, ImprovementSuggestions, ImprovementTarget, ProfileChange } from './index'
+
+/**
+ * A candidate change and how to apply it to an input.
+ */
+interface Candidate {
+  change: ProfileChange
+  apply: (input: RealityCheckInput) => RealityCheckInput
+}
+
+/**
+ * Mutually exclusive variants of one change, smallest first
+ * (e.g. 1, 2 or 3 more years of experience).
+ */
+type CandidateGroup = Candidate[]
+
+/** Timeline extensions tried, in months */
+const TIMELINE_EXTENSIONS = [6, 12, 24]
+
+/** Extra years of relevant experience tried */
+const EXPERIENCE_YEARS = [1, 2, 3]
+
+/**
+ * Formats an employment status for display (e.g. "self employed").
+ */
+function formatStatus(status: UserProfile['employmentStatus']): string {
+  return status.replace('_', ' ')
+}
+
+/**
+ * Returns the input with the named skill set to a proficiency, adding the skill if
+ * the user does not have it.
+ */
+function withSkill(input: RealityCheckInput, skillName: string, proficiency: number): RealityCheckInput {
+  const level = proficiency as UserProfile['skills'][number]['proficiency']
+  const { skills } = input.profile
+  const hasSkill = skills.some(skill => skill.name === skillName)
+  return {
+    ...input,
+    profile: {
+      ...input.profile,
+      skills: hasSkill
+        ? skills.map(skill => (skill.name === skillName ? { ...skill, proficiency: level } : skill))
+        : [...skills, { name: skillName, proficiency: level }],
+    },
+  }
+}
+
+/**
+ * Builds the candidate changes for an evaluation.
+ *
+ * - Skills: with a scenario, every skill gap is closed to the required level
+ *   (raising the user skill that matched the requirement, or learning it);
+ *   without one, every user skill below 4 is raised to 3 or 4
+ * - Experience: 1, 2 or 3 more years of relevant (and total) experience
+ * - Timeline: 6, 12 or 24 more months, or the average-case estimate
+ * - Remote-only: dropped, if required
+ * - Employment status: any status with more available hours (from the config)
+ */
+function buildCandidateGroups(input: RealityCheckInput, baseline: RealityCheckResult): CandidateGroup[] {
+  const { profile, goal } = input
+  const groups: CandidateGroup[] = []
+
+  // Skills
+  if (baseline.metadata.scenarioId) {
+    for (const gap of baseline.skillGaps) {
+      const match = baseline.skillMatches.find(candidate => candidate.requirement === gap.skillName)
+      const skillName = match?.userSkill ?? gap.skillName
+      groups.push([
+        {
+          change: {
+            kind: 'skill',
+            description: match
+              ? `Raise ${skillName} from ${gap.currentProficiency} to ${gap.requiredProficiency}`
+              : `Learn ${skillName} to proficiency ${gap.requiredProficiency}`,
+            skillName,
+            from: gap.currentProficiency,
+            to: gap.requiredProficiency,
+            months: gap.estimatedTimeToAcquireMonths ?? 3,
+          },
+          apply: candidateInput => withSkill(candidateInput, skillName, gap.requiredProficiency),
+        },
+      ])
+    }
+  } else {
+    for (const skill of profile.skills) {
+      const levels = [3, 4].filter(level => level > skill.proficiency)
+      if (levels.length === 0) continue
+      groups.push(
+        levels.map(level => ({
+          change: {
+            kind: 'skill',
+            description: `Raise ${skill.name} from ${skill.proficiency} to ${level}`,
+            skillName: skill.name,
+            from: skill.proficiency,
+            to: level,
+            months: (level - skill.proficiency) * 2, // 2 months per level
+          },
+          apply: candidateInput => withSkill(candidateInput, skill.name, level),
+        }))
+      )
+    }
+  }
+
+  // Experience
+  const { relevantYears } = profile.experience
+  groups.push(
+    EXPERIENCE_YEARS.map(years => ({
+      change: {
+        kind: 'experience',
+        description: `Gain ${years} more year${years === 1 ? '' : 's'} of relevant experience (${relevantYears} → ${relevantYears + years})`,
+        from: relevantYears,
+        to: relevantYears + years,
+        months: years * 12,
+      },
+      apply: candidateInput => ({
+        ...candidateInput,
+        profile: {
+          ...candidateInput.profile,
+          experience: {
+            ...candidateInput.profile.experience,
+            relevantYears: candidateInput.profile.experience.relevantYears + years,
+            totalYears: candidateInput.profile.experience.totalYears + years,
+          },
+        },
+      }),
+    }))
+  )
+
+  // Timeline
+  const { targetMonths } = goal.timeline
+  const averageMonths = baseline.probabilityBands.average.estimatedTimelineMonths
+  const timelineTargets = [
+    ...new Set([...TIMELINE_EXTENSIONS.map(months => targetMonths + months), averageMonths]),
+  ]
+    .filter(months => months > targetMonths)
+    .sort((a, b) => a - b)
+  groups.push(
+    timelineTargets.map(months => ({
+      change: {
+        kind: 'timeline',
+        description: `Extend your timeline from ${targetMonths} to ${months} months`,
+        from: targetMonths,
+        to: months,
+        months: months - targetMonths,
+      },
+      apply: candidateInput => ({
+        ...candidateInput,
+        goal: {
+          ...candidateInput.goal,
+          timeline: { ...candidateInput.goal.timeline, targetMonths: months },
+        },
+      }),
+    }))
+  )
+
+  // Remote-only requirement
+  if (goal.requirements?.remoteOnly) {
+    groups.push([
+      {
+        change: {
+          kind: 'remote-only',
+          description: 'Consider hybrid and on-site roles, not only remote ones',
+          from: true,
+          to: false,
+          months: 0,
+        },
+        apply: candidateInput => ({
+          ...candidateInput,
+          goal: {
+            ...candidateInput.goal,
+            requirements: { ...candidateInput.goal.requirements, remoteOnly: false },
+          },
+        }),
+      },
+    ])
+  }
+
+  // Employment status: only statuses that leave more time for the goal
+  const { availableHours } = baseline.metadata.config
+  const statuses = (Object.keys(availableHours) as Array<UserProfile['employmentStatus']>)
+    .filter(status => availableHours[status] > availableHours[profile.employmentStatus])
+    .sort((a, b) => availableHours[a] - availableHours[b])
+  if (statuses.length > 0) {
+    groups.push(
+      statuses.map(status => ({
+        change: {
+          kind: 'employment-status',
+          description: `Move from ${formatStatus(profile.employmentStatus)} to ${formatStatus(status)} (${availableHours[profile.employmentStatus]} → ${availableHours[status]} hours/day available)`,
+          from: profile.employmentStatus,
+          to: status,
+          months: 0,
+        },
+        apply: candidateInput => ({
+          ...candidateInput,
+          profile: { ...candidateInput.profile, employmentStatus: status },
+        }),
+      }))
+    )
+  }
+
+  return groups
+}
+
+/**
+ * Calls `visit` with every combination of `size` indexes out of `count`, in lexicographic order.
+ */
+function forEachCombination(count: number, size: number, visit: (indexes: number[]) => void): void {
+  const indexes: number[] = []
+  const next = (start: number) => {
+    if (indexes.length === size) {
+      visit([...indexes])
+      return
+    }
+    for (let index = start; index < count; index++) {
+      indexes.push(index)
+      next(index + 1)
+      indexes.pop()
+    }
+  }
+  next(0)
+}
+
+/**
+ * Calls `visit` with every combination of one variant index per group, in lexicographic order.
+ */
+function forEachVariant(variantCounts: number[], visit: (variants: number[]) => void): void {
+  const variants: number[] = []
+  const next = (position: number) => {
+    if (position === variantCounts.length) {
+      visit([...variants])
+      return
+    }
+    for (let variant = 0; variant < variantCounts[position]; variant++) {
+      variants.push(variant)
+      next(position + 1)
+      variants.pop()
+    }
+  }
+  next(0)
+}
+
+/**
+ * Checks whether a result reaches the target.
+ */
+function meetsTarget(result: RealityCheckResult, target: ImprovementTarget): boolean {
+  if (target.overallScore !== undefined && result.overallScore < target.overallScore) return false
+  if (
+    target.averageTimelineMonths !== undefined &&
+    result.probabilityBands.average.estimatedTimelineMonths > target.averageTimelineMonths
+  ) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Finds the smallest sets of realistic changes that reach a target overall score
+ * or average-case timeline.
+ *
+ * Search:
+ * 1. Candidate changes are built from the baseline evaluation (see
+ *    `buildCandidateGroups`); variants of the same change are never combined
+ * 2. Sets of 1, 2, ... up to `maxChanges` changes are tried in turn; the search
+ *    stops at the first size where any set reaches the target
+ * 3. Within the same changes, a set is skipped if a set with smaller variants
+ *    of each already reaches the target (e.g. +2 years when +1 year is enough)
+ * 4. Paths are ordered by total months, then by overall score (highest first)
+ *
+ * The scenario of the baseline evaluation is kept for every changed input, so
+ * changes are judged against the same path.
+ *
+ * @throws Error if the target sets neither `overallScore` nor `averageTimelineMonths`
+ */
+export function suggestImprovements(
+  input: RealityCheckInput,
+  target: ImprovementTarget,
+  options: ImprovementOptions = {}
+): ImprovementSuggestions {
+  if (target.overallScore === undefined && target.averageTimelineMonths === undefined) {
+    throw new Error('Improvement target must set overallScore or averageTimelineMonths')
+  }
+
+  const evaluator = options.evaluator ?? new Evaluator()
+  const maxChanges = options.maxChanges ?? 3
+  const maxPaths = options.maxPaths ?? 5
+
+  const baseline = evaluator.evaluate(input)
+  const pinnedInput: RealityCheckInput = { ...input, scenarioId: input.scenarioId ?? baseline.metadata.scenarioId }
+  const groups = buildCandidateGroups(input, baseline)
+  const suggestions: ImprovementSuggestions = {
+    target,
+    baseline: {
+      overallScore: baseline.overallScore,
+      averageTimelineMonths: baseline.probabilityBands.average.estimatedTimelineMonths,
+    },
+    alreadyMet: meetsTarget(baseline, target),
+    paths: [],
+    candidates: groups.flatMap(group => group.map(candidate => candidate.change)),
+    evaluations: 0,
+  }
+  if (suggestions.alreadyMet) return suggestions
+
+  for (let size = 1; size <= Math.min(maxChanges, groups.length); size++) {
+    const paths: ImprovementPath[] = []
+
+    forEachCombination(groups.length, size, groupIndexes => {
+      // Variant indexes (one per group) of the sets that reached the target
+      const reached: number[][] = []
+
+      forEachVariant(groupIndexes.map(index => groups[index].length), variants => {
+        if (reached.some(smaller => smaller.every((variant, i) => variant <= variants[i]))) return
+
+        const candidates = variants.map((variant, i) => groups[groupIndexes[i]][variant])
+        const changedInput = candidates.reduce((current, candidate) => candidate.apply(current), pinnedInput)
+        const result = evaluator.evaluate(changedInput)
+        suggestions.evaluations++
+
+        if (meetsTarget(result, target)) {
+          reached.push(variants)
+          const changes = candidates.map(candidate => candidate.change)
+          paths.push({
+            changes,
+            overallScore: result.overallScore,
+            averageTimelineMonths: result.probabilityBands.average.estimatedTimelineMonths,
+            totalMonths: changes.reduce((sum, change) => sum + change.months, 0),
+          })
+        }
+      })
+    })
+
+    if (paths.length > 0) {
+      suggestions.paths = paths
+        .sort((a, b) => a.totalMonths - b.totalMonths || b.overallScore - a.overallScore)
+        .slice(0, maxPaths)
+      break
+    }
+  }
+
+  return suggestions
+}
@@ -0,0 +1,40 @@
+/**
+ * Improvement target validation
+ *
+ * Checks an untrusted what-if target (e.g. from a request body) before it
+ * reaches the search: at least one goal is set, and each is a number in range.
+ * Errors are path-addressed, like input validation.
+ */
+
+import { Checker } from '../validation/checker'
+import type { ValidationResult } from '../validation'
+
+/**
+ * Validates an `ImprovementTarget`.
+ *
+ * Checks that it is an object setting `overallScore` (0-100),
+ * `averageTimelineMonths` (not negative) or both; NaN and Infinity are not
+ * numbers here.
+ *
+ * @param value - Untrusted target data
+ * @param path - Path to report errors under (default: "target")
+ */
+export function validateImprovementTarget(value: unknown, path = 'target'): ValidationResult {
+  const checker = new Checker()
+  const target = checker.object(value, path)
+  if (target) {
+    checker.number(target.overallScore, `${path}.overallScore`, {
+      optional: true,
+      min: 0,
+      max: 100,
+    })
+    checker.number(target.averageTimelineMonths, `${path}.averageTimelineMonths`, {
+      optional: true,
+      min: 0,
+    })
+    if (target.overallScore === undefined && target.averageTimelineMonths === undefined) {
+      checker.fail(path, 'required', `${path} must set overallScore or averageTimelineMonths`)
+    }
+  }
+  return { valid: checker.errors.length === 0, errors: checker.errors }
+}
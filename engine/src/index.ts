@@ -5,7 +5,146 @@
  */
 
 export { Evaluator } from './evaluator'
+export type { EvaluatorOptions } from './evaluator'
 export { scenarios } from './scenarios'
+export { matchScenarios, MIN_SCENARIO_MATCH_SCORE } from './scenarios/matching'
+export type { ScenarioMatch } from './scenarios/matching'
+export { ScenarioRegistry, parseScenarioFile, scenarioFormat } from './scenarios/registry'
+export {
+  validateScenario,
+  validateScenarios,
+  validateScenarioTemplate,
+  validateScenarioFilter,
+} from './scenarios/validation'
+export { expandScenarioTemplate } from './scenarios/templates'
+export { searchScenarios, summarizeScenario } from './scenarios/search'
+export { skillTaxonomy } from './skills'
+export type { SkillDefinition } from './skills'
+export {
+  resolveSkill,
+  matchRequirement,
+  matchRequirements,
+  isChildSkill,
+  getSkillDefinition,
+  normalizeSkillName,
+} from './skills/matching'
+export type { SkillResolution } from './skills/matching'
+export { defaultConfig, configPresets, isConfigPresetName, validateConfig } from './config'
+export type { EvaluatorConfig, ConfigPresetName, LikelihoodThreshold } from './config'
+export { marketDataset } from './market'
+export type {
+  MarketDataProvider,
+  MarketDataRecord,
+  MarketDataset,
+  MarketQuery,
+  MarketSnapshot,
+  HiringTrend,
+} from './market'
+export { DatasetMarketDataProvider, defaultMarketDataProvider } from './market/provider'
+export { regionalDataset } from './locations'
+export type {
+  RegionalDataset,
+  CountryData,
+  CityData,
+  Region,
+  LocationAdjustment,
+  LocationAnalysis,
+} from './locations'
+export { resolveLocation, analyzeLocation } from './locations/analysis'
+export { exchangeRates, EXCHANGE_RATES_DATE } from './salary'
+export type { SalaryPercentiles, ExperienceSalaryLevel, ScenarioSalaryData, SalaryEstimate } from './salary'
+export { convertCurrency, estimateSalary, salaryRangeForBand } from './salary/estimation'
+export { ExplanationRecorder } from './explanation'
+export type {
+  ExplanationNode,
+  ExplanationValue,
+  ExplanationTrace,
+  BandExplanation,
+  ResultExplanation,
+} from './explanation'
+export type {
+  ImprovementTarget,
+  ImprovementOptions,
+  ImprovementPath,
+  ImprovementSuggestions,
+  ProfileChange,
+} from './improvements'
+export { suggestImprovements } from './improvements/search'
+export { validateImprovementTarget } from './improvements/validation'
+export type {
+  SensitivityReport,
+  FieldSensitivity,
+  SensitivityVariant,
+  SensitivityOptions,
+} from './sensitivity'
+export { sensitivity } from './sensitivity/analysis'
+export type {
+  ComparisonGoal,
+  ComparisonOptions,
+  ComparedGoal,
+  GoalComparison,
+  NormalizedComparison,
+  SharedSkillGap,
+  SacrificeDifference,
+} from './comparison'
+export { compare } from './comparison/analysis'
+export type {
+  LearningRoadmap,
+  RoadmapPhase,
+  RoadmapPhaseKind,
+  RoadmapSkillStep,
+  RoadmapMonth,
+  RoadmapOptions,
+} from './roadmap'
+export { DEFAULT_TIME_REQUIREMENTS, INTERVIEW_PREP_MONTHS, JOB_SEARCH_MONTHS } from './roadmap'
+export { generateRoadmap } from './roadmap/planner'
+export type {
+  ResultDiff,
+  SavedResult,
+  ValueChange,
+  TimelineShift,
+  NarrowedGap,
+  Milestone,
+} from './progress'
+export { diffResults } from './progress/diff'
+export type { ValidationError, ValidationErrorCode, ValidationResult } from './validation'
+export { validateInput, validateProfile, validateGoal } from './validation/input'
+export type { Clock, CareerTimeline, StaleSkill } from './time'
+export { analyzeCareerTimeline, decaySkills, creditedRelevantYears } from './time/analysis'
+export type { FailureCategory, FailureRisk, RiskProfile } from './risks'
+export { COMPETITIVE_APPLICANTS_PER_OPENING, LOW_DEMAND_INDEX } from './risks'
+export { analyzeRiskProfile } from './risks/analysis'
+export type { ReproductionReport, ResultDifference, ReproduceOptions } from './reproducibility'
+export { ENGINE_VERSION } from './reproducibility'
+export { reproduce } from './reproducibility/reproduce'
+export { contentHash, normalizeInput } from './reproducibility/fingerprint'
+export type { JsonDocument } from './schemas'
+export {
+  schemaVersion,
+  realityCheckInputSchema,
+  realityCheckResultSchema,
+  openApiDocument,
+} from './schemas'
+export {
+  seniorityLevels,
+  roleFamilies,
+  DEFAULT_SENIORITY_LEVEL,
+  seniorityQualifiers,
+  qualifiedLevels,
+  nonSeniorityPhrases,
+} from './roles'
+export type { SeniorityLevel, SeniorityLevelId, RoleFamily, YearsRange } from './roles'
+export { classifyRole, normalizeRoleTitle } from './roles/matching'
+export { defaultRuleSet, scoreRules, warningRules } from './rules'
+export type {
+  Rule,
+  RuleSet,
+  RuleContext,
+  WarningRuleContext,
+  ScoreRule,
+  ScoreKey,
+  WarningRule,
+} from './rules'
 export type {
   // Core types
   RealityCheckInput,
@@ -22,10 +161,13 @@ export type {
   // Result types
   ProbabilityBand,
   ProbabilityBandResult,
+  BandPhase,
   SacrificeIndicators,
   WarningFlag,
   Warning,
   SkillGap,
+  SkillMatch,
+  RoleMatch,
 } from './models'
 export type {
   CareerScenario,
@@ -33,5 +175,11 @@ export type {
   TimelineRange,
   TimeRequirements,
   CommonFailureReason,
+  ScenarioFormat,
+  CompanyTier,
+  ScenarioTemplate,
+  ScenarioVariant,
+  ScenarioSummary,
+  ScenarioFilter,
 } from './scenarios'
 
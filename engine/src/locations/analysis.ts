@@ -0,0 +1,220 @@
+/**
+ * Location analysis
+ *
+ * Resolves free-text locations against the regional dataset and works out how
+ * the user's location and target location change the evaluation: regional
+ * salary levels, cost of living, local job density and time needed to relocate.
+ */
+
+import type { UserProfile, CareerGoal } from '../models'
+import type { CareerScenario } from '../scenarios'
+import { regionalDataset } from './index'
+import type { LocationAdjustment, LocationAnalysis, Region, RegionalDataset } from './index'
+
+/**
+ * Normalizes a location name for lookup: lowercase, single spaces, trimmed.
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Resolves a free-text location (e.g. "Boston, MA", "London", "India") to a region.
+ *
+ * Resolution order:
+ * 1. Each comma-separated part is checked against city names and aliases
+ * 2. Each part is checked against country names and aliases; a bare country
+ *    code (e.g. "US") only matches when it is the whole location, so the
+ *    state in "Sacramento, CA" is not read as Canada
+ *
+ * @returns The region, or undefined if the location is not in the dataset
+ */
+export function resolveLocation(location: string, dataset: RegionalDataset = regionalDataset): Region | undefined {
+  const whole = normalizeName(location)
+  const parts = location.split(',').map(normalizeName).filter(part => part.length > 0)
+
+  for (const part of parts) {
+    const city = dataset.cities.find(candidate => candidate.aliases.includes(part))
+    if (city) {
+      return {
+        id: city.id,
+        name: city.name,
+        kind: 'city',
+        country: city.country,
+        salaryIndex: city.salaryIndex,
+        costOfLivingIndex: city.costOfLivingIndex,
+        jobDensityIndex: city.jobDensityIndex,
+      }
+    }
+  }
+
+  for (const part of parts) {
+    const country = dataset.countries.find(
+      candidate => candidate.aliases.includes(part) || (part === whole && candidate.code.toLowerCase() === part)
+    )
+    if (country) {
+      return {
+        id: country.code,
+        name: country.name,
+        kind: 'country',
+        country: country.code,
+        salaryIndex: country.salaryIndex,
+        costOfLivingIndex: country.costOfLivingIndex,
+        jobDensityIndex: 100,
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Resolves the user's current location: city first, then country.
+ */
+function resolveProfileLocation(profile: UserProfile, dataset: RegionalDataset): Region | undefined {
+  if (!profile.location) return undefined
+  const { city, country } = profile.location
+  return (city ? resolveLocation(`${city}, ${country}`, dataset) : undefined) ?? resolveLocation(country, dataset)
+}
+
+/**
+ * Describes an index relative to 100 (e.g. "35% above", "10% below", "about the same as").
+ */
+function describeRelative(index: number): string {
+  if (index === 100) return 'about the same as'
+  return `${Math.abs(index - 100)}% ${index > 100 ? 'above' : 'below'}`
+}
+
+/**
+ * Formats a salary range, e.g. "USD 144,000-360,000".
+ */
+function formatRange(range: { min: number; max: number; currency: string }): string {
+  return `${range.currency} ${range.min.toLocaleString('en-US')}-${range.max.toLocaleString('en-US')}`
+}
+
+/**
+ * Months added to the job search for local job density.
+ * - 130+ (hub with many openings): 1 month less
+ * - 80-129 (around average): no change
+ * - 60-79: 2 months more
+ * - Below 60: 4 months more
+ */
+function jobDensityMonths(jobDensityIndex: number): number {
+  if (jobDensityIndex >= 130) return -1
+  if (jobDensityIndex >= 80) return 0
+  if (jobDensityIndex >= 60) return 2
+  return 4
+}
+
+/**
+ * Works out how location affects an evaluation.
+ *
+ * - The target region is `goal.requirements.targetLocation` if it can be
+ *   resolved, otherwise where the user lives; remote-only goals always use
+ *   where the user lives (remote salaries usually follow the employee)
+ * - Relocation is required when both locations are known and the target is a
+ *   different country, or a different city from the user's (known) city;
+ *   a country-wide target never requires moving within that country
+ * - Job density and relocation only apply to on-site goals
+ * - Salary and cost-of-living adjustments need a scenario salary range
+ *
+ * @returns The analysis; `adjustments` is empty when location changes nothing
+ */
+export function analyzeLocation(
+  profile: UserProfile,
+  goal: CareerGoal,
+  scenario?: CareerScenario,
+  dataset: RegionalDataset = regionalDataset
+): LocationAnalysis {
+  const remoteOnly = goal.requirements?.remoteOnly === true
+  const current = resolveProfileLocation(profile, dataset)
+  const targetLocation = goal.requirements?.targetLocation
+  const target = (!remoteOnly && targetLocation ? resolveLocation(targetLocation, dataset) : undefined) ?? current
+  const adjustments: LocationAdjustment[] = []
+
+  // Regional salary range and what it is worth at national-average prices
+  let regionalSalaryRange: LocationAnalysis['regionalSalaryRange']
+  let costOfLivingAdjustedRange: LocationAnalysis['costOfLivingAdjustedRange']
+  const baseRange = scenario?.typicalSalaryRange
+  if (target && baseRange) {
+    // Rounded to the nearest 1,000
+    const scale = (amount: number, factor: number) => Math.round((amount * factor) / 1000) * 1000
+    regionalSalaryRange = {
+      min: scale(baseRange.min, target.salaryIndex / 100),
+      max: scale(baseRange.max, target.salaryIndex / 100),
+      currency: baseRange.currency,
+    }
+    costOfLivingAdjustedRange = {
+      min: scale(regionalSalaryRange.min, 100 / target.costOfLivingIndex),
+      max: scale(regionalSalaryRange.max, 100 / target.costOfLivingIndex),
+      currency: baseRange.currency,
+    }
+
+    if (target.salaryIndex !== 100) {
+      adjustments.push({
+        kind: 'salary',
+        description: `Salaries in ${target.name} are ${describeRelative(target.salaryIndex)} the US national average: ${formatRange(regionalSalaryRange)} instead of ${formatRange(baseRange)}`,
+      })
+    }
+  }
+
+  if (target && target.costOfLivingIndex !== 100) {
+    adjustments.push({
+      kind: 'cost-of-living',
+      description: costOfLivingAdjustedRange
+        ? `Living costs in ${target.name} are ${describeRelative(target.costOfLivingIndex)} the US national average, so ${formatRange(regionalSalaryRange ?? costOfLivingAdjustedRange)} there is worth about ${formatRange(costOfLivingAdjustedRange)} at national-average prices`
+        : `Living costs in ${target.name} are ${describeRelative(target.costOfLivingIndex)} the US national average`,
+    })
+  }
+
+  // Local job density changes how long the search takes
+  let densityMonths = 0
+  if (target && !remoteOnly) {
+    densityMonths = jobDensityMonths(target.jobDensityIndex)
+    if (densityMonths !== 0) {
+      adjustments.push({
+        kind: 'job-density',
+        description:
+          densityMonths < 0
+            ? `${target.name} has many openings (job density ${target.jobDensityIndex}/100 of the national average), which shortens the search by about ${-densityMonths} month`
+            : `${target.name} has fewer openings (job density ${target.jobDensityIndex}/100 of the national average), which adds about ${densityMonths} months to the search`,
+        months: densityMonths,
+      })
+    }
+  }
+
+  // Moving takes time, and international moves need a work permit
+  let relocationRequired = false
+  let relocationMonths = 0
+  if (current && target && !remoteOnly) {
+    if (target.country !== current.country) {
+      const permitMonths = dataset.countries.find(country => country.code === target.country)?.workPermitMonths ?? 0
+      relocationRequired = true
+      relocationMonths = dataset.relocation.internationalMonths + permitMonths
+      adjustments.push({
+        kind: 'relocation',
+        description: `Moving from ${current.name} to ${target.name} adds about ${relocationMonths} months, including about ${permitMonths} months for a work permit`,
+        months: relocationMonths,
+      })
+    } else if (target.kind === 'city' && current.kind === 'city' && target.id !== current.id) {
+      relocationRequired = true
+      relocationMonths = dataset.relocation.withinCountryMonths
+      adjustments.push({
+        kind: 'relocation',
+        description: `Moving from ${current.name} to ${target.name} adds about ${relocationMonths} month${relocationMonths === 1 ? '' : 's'}`,
+        months: relocationMonths,
+      })
+    }
+  }
+
+  return {
+    current,
+    target,
+    relocationRequired,
+    relocationMonths,
+    jobDensityMonths: densityMonths,
+    regionalSalaryRange,
+    costOfLivingAdjustedRange,
+    adjustments,
+  }
+}
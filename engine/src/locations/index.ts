@@ -0,0 +1,141 @@
+/**
+ * Locations module
+ *
+ * This module contains the offline regional dataset: salary levels, cost of
+ * living and job density for countries and major cities, plus how long a move
+ * typically takes. The evaluator uses it to adjust the timeline and salary
+ * expectations for where the user lives and where they want to work.
+ */
+
+import dataset from './dataset.json'
+
+/**
+ * Country-level regional data.
+ */
+export interface CountryData {
+  /** ISO 3166-1 alpha-2 country code (e.g. "US") */
+  code: string
+  /** Country name */
+  name: string
+  /** Other names for the country (matched case-insensitively) */
+  aliases: string[]
+  /** Typical salaries relative to the US national average (100), in USD terms */
+  salaryIndex: number
+  /** Cost of living relative to the US national average (100) */
+  costOfLivingIndex: number
+  /** Typical months to obtain a work permit for someone moving from abroad */
+  workPermitMonths: number
+}
+
+/**
+ * City-level (metro area) regional data.
+ */
+export interface CityData {
+  /** City identifier (kebab-case) */
+  id: string
+  /** City or metro area name */
+  name: string
+  /** ISO 3166-1 alpha-2 code of the city's country */
+  country: string
+  /** Names for the city and its metro area (matched case-insensitively) */
+  aliases: string[]
+  /** Typical salaries relative to the US national average (100), in USD terms */
+  salaryIndex: number
+  /** Cost of living relative to the US national average (100) */
+  costOfLivingIndex: number
+  /** Job openings per worker relative to the country average (100) */
+  jobDensityIndex: number
+}
+
+/**
+ * A regional dataset.
+ */
+export interface RegionalDataset {
+  /** Dataset version */
+  version: string
+  /** Where the values come from and what they are relative to */
+  description: string
+  /** Typical months a move takes, excluding work permits */
+  relocation: {
+    withinCountryMonths: number
+    internationalMonths: number
+  }
+  /** Country-level data */
+  countries: CountryData[]
+  /** City-level data */
+  cities: CityData[]
+}
+
+/**
+ * A location resolved against the regional dataset.
+ */
+export interface Region {
+  /** City ID, or country code for country-level regions */
+  id: string
+  /** Display name */
+  name: string
+  /** Whether the region is a whole country or a city */
+  kind: 'country' | 'city'
+  /** ISO 3166-1 alpha-2 country code */
+  country: string
+  /** Typical salaries relative to the US national average (100) */
+  salaryIndex: number
+  /** Cost of living relative to the US national average (100) */
+  costOfLivingIndex: number
+  /** Job openings per worker relative to the country average (100); 100 for countries */
+  jobDensityIndex: number
+}
+
+/**
+ * One way location changed the result.
+ */
+export interface LocationAdjustment {
+  /** What was adjusted */
+  kind: 'salary' | 'cost-of-living' | 'job-density' | 'relocation'
+  /** Human-readable description (shown in each band's contributing factors) */
+  description: string
+  /** Months added to (or, if negative, removed from) every band's timeline */
+  months?: number
+}
+
+/**
+ * How the user's location and target location affect the evaluation.
+ */
+export interface LocationAnalysis {
+  /** Where the user lives (undefined if not given or not in the dataset) */
+  current?: Region
+  /** Where the user wants to work (the target location, or else where they live) */
+  target?: Region
+  /** Whether taking the job means moving (never for remote-only goals) */
+  relocationRequired: boolean
+  /** Months added to the timeline for moving, including any work permit */
+  relocationMonths: number
+  /** Months added to the timeline (negative: removed) because of local job density */
+  jobDensityMonths: number
+  /** Scenario salary range adjusted to the target region (undefined without a scenario range) */
+  regionalSalaryRange?: {
+    min: number
+    max: number
+    currency: string
+  }
+  /** The regional range expressed at US national-average living costs */
+  costOfLivingAdjustedRange?: {
+    min: number
+    max: number
+    currency: string
+  }
+  /** Every adjustment made, in the order it was applied */
+  adjustments: LocationAdjustment[]
+}
+
+/**
+ * Bundled offline regional dataset.
+ *
+ * Assumptions:
+ * - Values are illustrative, rounded estimates, not live data
+ * - Scenario salary ranges are US national figures; other regions scale them by
+ *   their salary index
+ * - A move within a country takes about 1 month; an international move takes
+ *   about 2 months plus the destination's work permit time
+ */
+export const regionalDataset: RegionalDataset = dataset as RegionalDataset
@@ -0,0 +1,116 @@
+/**
+ * Market module
+ *
+ * This module describes job market conditions: how much demand there is for a
+ * role, how many people apply for each opening, and whether hiring is growing.
+ *
+ * The evaluator reads market data through a `MarketDataProvider`, so the bundled
+ * offline dataset (`dataset.json`) can be replaced with another source, such as a
+ * job board API or a regional dataset, without changing any rules.
+ */
+
+import dataset from './dataset.json'
+
+/**
+ * Direction of hiring for a role compared with the previous year.
+ */
+export type HiringTrend = 'growing' | 'stable' | 'declining'
+
+/**
+ * Market conditions for one combination of role family, industry and country.
+ * A field set to "*" applies to any value.
+ */
+export interface MarketDataRecord {
+  /** Role family ID from the role catalog (e.g. "software-engineering"), or "*" */
+  roleFamily: string
+  /** Industry ID (e.g. "technology"), or "*" */
+  industry: string
+  /** ISO 3166-1 alpha-2 country code (e.g. "US"), or "*" */
+  country: string
+  /** Demand for the role (0-100, where 50 means openings and candidates are balanced) */
+  demandIndex: number
+  /** Typical number of applicants per opening */
+  applicantsPerOpening: number
+  /** Direction of hiring compared with the previous year */
+  hiringTrend: HiringTrend
+  /** Year-over-year change in openings (%) */
+  trendPercent: number
+}
+
+/**
+ * A market dataset: records plus the names used to look them up.
+ */
+export interface MarketDataset {
+  /** Dataset version (reported with every market snapshot) */
+  version: string
+  /** Where the values come from and how reliable they are */
+  description: string
+  /** Industry IDs and other names for them (matched case-insensitively) */
+  industries: { id: string; aliases: string[] }[]
+  /** Country codes and other names for them (matched case-insensitively) */
+  countries: { code: string; aliases: string[] }[]
+  /** Market conditions records */
+  records: MarketDataRecord[]
+}
+
+/**
+ * What to look up market conditions for.
+ */
+export interface MarketQuery {
+  /** Target role title as entered */
+  roleTitle: string
+  /** Role family ID from the role catalog (undefined if the role was not recognised) */
+  roleFamilyId?: string
+  /** Target industry as entered */
+  industry: string
+  /** Country the user is searching in, as entered (optional) */
+  country?: string
+}
+
+/**
+ * Market conditions that apply to a query, and where they came from.
+ */
+export interface MarketSnapshot {
+  /** Demand for the role (0-100, where 50 means openings and candidates are balanced) */
+  demandIndex: number
+  /** Typical number of applicants per opening */
+  applicantsPerOpening: number
+  /** Direction of hiring compared with the previous year */
+  hiringTrend: HiringTrend
+  /** Year-over-year change in openings (%) */
+  trendPercent: number
+  /** Role family, industry and country of the record used ("*" for any) */
+  roleFamily: string
+  industry: string
+  country: string
+  /** Which parts of the query the record matched specifically (not via "*") */
+  matchedOn: ('role' | 'industry' | 'country')[]
+  /** Name of the provider and dataset version the values came from */
+  source: string
+}
+
+/**
+ * A source of market conditions.
+ * Implement this interface to plug in other data (see `Evaluator` options).
+ */
+export interface MarketDataProvider {
+  /** Provider name (reported as the snapshot source) */
+  name: string
+  /**
+   * Looks up market conditions for a query.
+   * @returns The most specific conditions available, or undefined if there is no data
+   */
+  getMarketData(query: MarketQuery): MarketSnapshot | undefined
+}
+
+/**
+ * Bundled offline market dataset.
+ *
+ * Assumptions:
+ * - Values are illustrative, rounded estimates, not live job market data
+ * - Records without a country apply worldwide; records without a role family
+ *   describe an industry as a whole
+ * - There is no catch-all record: if neither the role family nor the industry
+ *   is in the dataset, no market score is calculated
+ */
+export const marketDataset: MarketDataset = dataset as MarketDataset
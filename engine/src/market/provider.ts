@@ -0,0 +1,102 @@
+/**
+ * Dataset market data provider
+ *
+ * Looks up market conditions in a `MarketDataset` (by default the bundled
+ * offline dataset), choosing the most specific record for a query.
+ */
+
+import { marketDataset } from './index'
+import type { MarketDataProvider, MarketDataRecord, MarketDataset, MarketQuery, MarketSnapshot } from './index'
+
+/**
+ * Normalizes a name for lookup: lowercase, single spaces, trimmed.
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Market data provider backed by a `MarketDataset`.
+ *
+ * Record precedence: a record must match every field of the query or have "*"
+ * there. Among matching records, a specific role family outweighs a specific
+ * industry, which outweighs a specific country; ties keep dataset order.
+ */
+export class DatasetMarketDataProvider implements MarketDataProvider {
+  readonly name: string
+
+  constructor(private readonly dataset: MarketDataset = marketDataset) {
+    this.name = `dataset ${dataset.version}`
+  }
+
+  /**
+   * Resolves an industry name to a dataset industry ID.
+   * Names like "Academia / Research" are split and each part is tried in order.
+   */
+  resolveIndustry(industry: string): string | undefined {
+    const parts = industry.split(/[/,]/).map(normalizeName)
+    for (const part of parts) {
+      const entry = this.dataset.industries.find(
+        candidate => candidate.id === part || candidate.aliases.includes(part)
+      )
+      if (entry) return entry.id
+    }
+    return undefined
+  }
+
+  /**
+   * Resolves a country name or code to an ISO 3166-1 alpha-2 code.
+   */
+  resolveCountry(country: string): string | undefined {
+    const name = normalizeName(country)
+    return this.dataset.countries.find(
+      candidate => candidate.code.toLowerCase() === name || candidate.aliases.includes(name)
+    )?.code
+  }
+
+  getMarketData(query: MarketQuery): MarketSnapshot | undefined {
+    const industry = this.resolveIndustry(query.industry)
+    const country = query.country ? this.resolveCountry(query.country) : undefined
+
+    const matches = (value: string, wanted: string | undefined): boolean =>
+      value === '*' || value === wanted
+    const specificity = (record: MarketDataRecord): number =>
+      (record.roleFamily !== '*' ? 4 : 0) + (record.industry !== '*' ? 2 : 0) + (record.country !== '*' ? 1 : 0)
+
+    let best: MarketDataRecord | undefined
+    for (const record of this.dataset.records) {
+      if (
+        matches(record.roleFamily, query.roleFamilyId) &&
+        matches(record.industry, industry) &&
+        matches(record.country, country) &&
+        (!best || specificity(record) > specificity(best))
+      ) {
+        best = record
+      }
+    }
+
+    if (!best) return undefined
+
+    const matchedOn: MarketSnapshot['matchedOn'] = []
+    if (best.roleFamily !== '*') matchedOn.push('role')
+    if (best.industry !== '*') matchedOn.push('industry')
+    if (best.country !== '*') matchedOn.push('country')
+
+    return {
+      demandIndex: best.demandIndex,
+      applicantsPerOpening: best.applicantsPerOpening,
+      hiringTrend: best.hiringTrend,
+      trendPercent: best.trendPercent,
+      roleFamily: best.roleFamily,
+      industry: best.industry,
+      country: best.country,
+      matchedOn,
+      source: this.name,
+    }
+  }
+}
+
+/**
+ * Provider for the bundled offline dataset (used by default).
+ */
+export const defaultMarketDataProvider: MarketDataProvider = new DatasetMarketDataProvider()
@@ -8,6 +8,16 @@
  * - Extensible: Structured to allow easy extension by contributors
  */
 
+import type { SeniorityLevelId, YearsRange } from './roles'
+import type { CareerTimeline, StaleSkill } from './time'
+import type { EvaluatorConfig } from './config'
+import type { MarketSnapshot } from './market'
+import type { LocationAnalysis } from './locations'
+import type { SalaryEstimate } from './salary'
+import type { ResultExplanation } from './explanation'
+import type { RiskProfile } from './risks'
+import type { RoadmapPhaseKind } from './roadmap'
+
 /**
  * Probability band representing the likelihood of achieving a career goal.
  * Used to categorize outcomes into distinct scenarios.
@@ -67,10 +77,17 @@ export interface Experience {
 export interface Skill {
   /** Name of the skill (e.g., "JavaScript", "Project Management") */
   name: string
+  /** Canonical skill ID from the skill taxonomy (optional, resolved from `name` if omitted) */
+  skillId?: string
   /** Proficiency level from 0 (none) to 5 (expert) */
   proficiency: 0 | 1 | 2 | 3 | 4 | 5
   /** Years of experience with this specific skill */
   yearsOfExperience?: number
+  /**
+   * Year the skill was last used (omit if in current use).
+   * Skills unused for more than 2 years decay (see `decaySkills`).
+   */
+  lastUsedYear?: number
 }
 
 /**
@@ -176,6 +193,19 @@ export interface SacrificeIndicators {
   delayOtherGoals: boolean
 }
 
+/**
+ * A phase of the effort in a probability band, with the scenario's daily hours
+ * for it (see `TimeRequirements`).
+ */
+export interface BandPhase {
+  /** Skill building, interview preparation or job search */
+  kind: RoadmapPhaseKind
+  /** Months of the band timeline spent in this phase */
+  months: number
+  /** Daily hours of effort during this phase */
+  dailyHours: number
+}
+
 /**
  * Detailed breakdown of evaluation results for a specific probability band.
  * Extensible: Add more metrics or breakdown fields as needed.
@@ -187,14 +217,25 @@ export interface ProbabilityBandResult {
   likelihood: number
   /** Estimated timeline in months for this outcome */
   estimatedTimelineMonths: number
-  /** Required daily hours of effort (learning, networking, job searching, etc.) */
+  /** Required daily hours of effort in the most demanding phase (see `phases`) */
   requiredDailyHours: number
+  /** Phases of the timeline, in order, with their daily hours (phases of no months are left out) */
+  phases: BandPhase[]
   /** Sacrifice indicators showing what trade-offs are needed */
   sacrifices: SacrificeIndicators
   /** Key factors contributing to this outcome */
   contributingFactors: string[]
   /** Required actions to achieve this outcome */
   requiredActions: string[]
+  /**
+   * Realistic annual salary range in this outcome, for the user's experience and
+   * target region (absent if the scenario has no salary data)
+   */
+  expectedSalaryRange?: {
+    min: number
+    max: number
+    currency: string
+  }
   /** Additional context or notes */
   notes?: string
 }
@@ -214,6 +255,8 @@ export interface Warning {
   suggestedActions?: string[]
   /** Severity level (1 = low, 2 = medium, 3 = high) */
   severity: 1 | 2 | 3
+  /** ID of the rule that raised this warning */
+  ruleId?: string
 }
 
 /**
@@ -233,6 +276,70 @@ export interface SkillGap {
   estimatedTimeToAcquireMonths?: number
 }
 
+/**
+ * Explains which user skill satisfied a scenario skill requirement, and how.
+ */
+export interface SkillMatch {
+  /** Requirement name as written in the scenario */
+  requirement: string
+  /** Canonical skill ID of the requirement (if known) */
+  requirementSkillId?: string
+  /** Name of the user skill that matched the requirement */
+  userSkill: string
+  /** Canonical skill ID of the user skill (if resolved) */
+  userSkillId?: string
+  /**
+   * How the user skill was matched:
+   * - exact: same canonical skill, named the same way
+   * - alias: same canonical skill, named by an alias (e.g. "golang" for Go)
+   * - fuzzy: same canonical skill, named with a small typo (e.g. "Pyhton")
+   * - child: the user skill is a kind of the required skill (e.g. PyTorch for Deep Learning)
+   * - text: no canonical skill on one side; all words of one name appear in the other
+   */
+  method: 'exact' | 'alias' | 'fuzzy' | 'child' | 'text'
+  /** User's proficiency in the matched skill (0-5) */
+  proficiency: number
+  /** Proficiency required by the scenario (0-5) */
+  requiredProficiency: number
+  /** Whether the user's proficiency meets the requirement */
+  meetsRequirement: boolean
+  /** Human-readable explanation of the match */
+  explanation: string
+}
+
+/**
+ * Where the target role sits in the role catalog, and why.
+ */
+export interface RoleMatch {
+  /** Target role title as entered */
+  title: string
+  /** Title after normalization (lowercase, abbreviations expanded) */
+  normalizedTitle: string
+  /** Role family the title belongs to (undefined if not recognised) */
+  family?: {
+    id: string
+    name: string
+  }
+  /** Seniority level of the role */
+  level: {
+    id: SeniorityLevelId
+    name: string
+  }
+  /** Years of relevant experience typically required for the role */
+  requiredYears: YearsRange
+  /**
+   * How the level was determined:
+   * - title: a known title in the role family (e.g. "Head Chef")
+   * - keyword: a seniority keyword in the title (e.g. "Senior", "Director")
+   * - default: nothing matched, so mid-level was assumed
+   */
+  method: 'title' | 'keyword' | 'default'
+  /** Title phrase or keyword that determined the level (absent for default) */
+  matchedPhrase?: string
+  /** Human-readable explanation of the classification */
+  explanation: string
+}
+
 /**
  * Comprehensive result of a career reality check evaluation.
  * Extensible: Add more result fields (e.g., market analysis, competitor analysis).
@@ -250,6 +357,22 @@ export interface RealityCheckResult {
   warnings: Warning[]
   /** Analysis of skill gaps */
   skillGaps: SkillGap[]
+  /** Which user skill matched each scenario skill requirement (empty if no scenario was used) */
+  skillMatches: SkillMatch[]
+  /** Role family and seniority level the target role was classified as */
+  role: RoleMatch
+  /** Market conditions used for the market score (absent if there was no data) */
+  market?: MarketSnapshot
+  /** How location changed the result: regional salaries, cost of living, job density, relocation */
+  location: LocationAnalysis
+  /** Salary percentiles for the user's experience and target region (absent without salary data) */
+  salary?: SalaryEstimate
+  /** Graduation measured against the evaluation time */
+  careerTimeline: CareerTimeline
+  /** Skills whose proficiency decayed because they were not used recently (empty if none) */
+  staleSkills: StaleSkill[]
+  /** Failure categories of the scenario the user is exposed to, ranked by how common they are */
+  riskProfile: RiskProfile
   /** Specific recommendations for achieving the goal */
   recommendations: string[]
   /** Detailed breakdown of scoring factors */
@@ -265,14 +388,38 @@ export interface RealityCheckResult {
     /** Score for market conditions (0-100) */
     marketScore?: number
   }
+  /**
+   * How each score, band timeline, likelihood and warning was reached: inputs,
+   * intermediate values, the branch taken and the formula
+   */
+  explanation: ResultExplanation
   /** Metadata about the evaluation */
   metadata: {
     /** Timestamp when evaluation was performed */
     evaluatedAt: string
     /** Version of the evaluation engine used */
     engineVersion: string
+    /** Content hash of the scenario set the evaluation used */
+    scenarioSetHash: string
+    /** Content hash of the ruleset the evaluation used (rule order, IDs and versions) */
+    ruleSetHash: string
+    /** The evaluated input, normalized (strings trimmed, keys sorted); re-evaluate it with `reproduce` */
+    input: RealityCheckInput
     /** Scenario ID used for evaluation (if applicable) */
     scenarioId?: string
+    /** How the scenario was chosen and why (present when a scenario was used) */
+    scenarioSelection?: {
+      /** 'explicit' if requested via `RealityCheckInput.scenarioId`, 'matched' if found by `matchScenarios` */
+      method: 'explicit' | 'matched'
+      /** Match score (0-100), only for matched scenarios */
+      matchScore?: number
+      /** Human-readable reasons for the selection */
+      reasons: string[]
+    }
+    /** IDs of the rules that fired, in evaluation order (score rules fire when they produce a score) */
+    firedRules: string[]
+    /** Config the evaluation used: weights, band multipliers, likelihood tables and available hours */
+    config: EvaluatorConfig
   }
   /** Additional context or notes from the evaluation */
   notes?: string
@@ -287,5 +434,10 @@ export interface RealityCheckInput {
   profile: UserProfile
   /** Career goal to evaluate */
   goal: CareerGoal
+  /**
+   * ID of the scenario to evaluate against (optional).
+   * If omitted, the best-matching scenario is used (see `matchScenarios`).
+   */
+  scenarioId?: string
 }
 
@@ -0,0 +1,192 @@
+/**
+ * Result diff
+ *
+ * Compares a previous evaluation of a goal with a fresh one: score and timeline
+ * changes, warnings and skill gaps that came and went, and whether the skill
+ * gaps the previous evaluation planned for were closed on time. Both results are
+ * plain `RealityCheckResult`s, so a saved JSON result works as the previous one,
+ * including one saved by an earlier engine version (`SavedResult`).
+ */
+
+import type { ProbabilityBand, SkillGap, Warning } from '../models'
+import { normalizeRoleTitle } from '../roles/matching'
+import type { ScoreKey } from '../rules'
+import type {
+  Milestone,
+  NarrowedGap,
+  ResultDiff,
+  SavedResult,
+  TimelineShift,
+  ValueChange,
+} from './index'
+
+/** Milliseconds in a month (30 days) */
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000
+
+/** Probability bands, best first */
+const BANDS: ProbabilityBand[] = ['best', 'average', 'worst']
+
+/**
+ * Builds the change between two values.
+ */
+function change(previous: number, current: number): ValueChange {
+  return { previous, current, delta: current - previous }
+}
+
+/**
+ * Whether two warnings are about the same thing: the same flag, raised by the
+ * same rule. Warnings saved before warnings recorded their rule have no
+ * `ruleId`; they match on the flag alone.
+ */
+function sameWarning(a: Warning, b: Warning): boolean {
+  if (a.flag !== b.flag) return false
+  return a.ruleId === undefined || b.ruleId === undefined || a.ruleId === b.ruleId
+}
+
+/**
+ * The normalized target role of a result: its classified role, or else the
+ * target role of its recorded input (undefined if it records neither).
+ */
+function targetRoleTitle(result: SavedResult): string | undefined {
+  const targetRole = result.metadata.input?.goal.targetRole
+  return (
+    result.role?.normalizedTitle ??
+    (targetRole !== undefined ? normalizeRoleTitle(targetRole) : undefined)
+  )
+}
+
+/**
+ * When a result was evaluated, in milliseconds.
+ *
+ * @throws Error if `metadata.evaluatedAt` is not a valid date
+ */
+function evaluationTime(result: SavedResult, name: 'previous' | 'current'): number {
+  const time = Date.parse(result.metadata.evaluatedAt)
+  if (Number.isNaN(time)) {
+    const evaluatedAt = result.metadata.evaluatedAt
+    throw new Error(`The ${name} result's evaluation time "${evaluatedAt}" is not a valid date`)
+  }
+  return time
+}
+
+/**
+ * Builds the milestones of the previous evaluation: its skill gaps, critical
+ * first, each due once it and every gap before it could have been learned
+ * (`estimatedTimeToAcquireMonths`, 3 if unknown).
+ */
+function buildMilestones(
+  previous: SavedResult,
+  current: SavedResult,
+  elapsedMonths: number
+): Milestone[] {
+  const evaluatedAt = new Date(previous.metadata.evaluatedAt).getTime()
+  let dueMonth = 0
+
+  // Array.prototype.sort is stable, so gaps of the same priority keep their order
+  return [...previous.skillGaps]
+    .sort((a, b) => a.priority - b.priority)
+    .map(gap => {
+      dueMonth += gap.estimatedTimeToAcquireMonths || 3
+      const currentGap = current.skillGaps.find(candidate => candidate.skillName === gap.skillName)
+      return {
+        skillName: gap.skillName,
+        requiredProficiency: gap.requiredProficiency,
+        currentProficiency: currentGap?.currentProficiency ?? gap.requiredProficiency,
+        dueMonth: Math.round(dueMonth * 10) / 10,
+        dueAt: new Date(evaluatedAt + dueMonth * MONTH_MS).toISOString(),
+        status: !currentGap ? 'reached' : dueMonth > elapsedMonths ? 'on-track' : 'overdue',
+      }
+    })
+}
+
+/**
+ * Compares a previous evaluation with the current one.
+ *
+ * - Scores are compared where both evaluations calculated them
+ * - Timelines are also compared with what the previous estimate projected for
+ *   today (its months minus the months elapsed), so steady progress shows as no
+ *   shift rather than as a shorter timeline
+ * - The goal is the same if the scenario is, and so is the target role; a
+ *   result that records no target role (see `SavedResult`) is compared by
+ *   scenario only
+ * - Warnings are matched by rule and flag (by flag alone if either has no
+ *   rule); skill gaps by skill name
+ * - Milestones are the previous skill gaps, due one after the other (see
+ *   `buildMilestones`)
+ *
+ * @throws Error if either evaluation time is not a valid date, or the current
+ *   result was evaluated before the previous one
+ */
+export function diffResults(previous: SavedResult, current: SavedResult): ResultDiff {
+  const previousTime = evaluationTime(previous, 'previous')
+  const currentTime = evaluationTime(current, 'current')
+  if (currentTime < previousTime) {
+    throw new Error('The previous result must be evaluated before the current one')
+  }
+  const elapsedMonths = Math.round(((currentTime - previousTime) / MONTH_MS) * 10) / 10
+  const previousRole = targetRoleTitle(previous)
+  const currentRole = targetRoleTitle(current)
+
+  const scores: Partial<Record<ScoreKey, ValueChange>> = {}
+  for (const key of Object.keys(current.scoreBreakdown) as ScoreKey[]) {
+    const previousScore = previous.scoreBreakdown[key]
+    const currentScore = current.scoreBreakdown[key]
+    if (previousScore !== undefined && currentScore !== undefined) {
+      scores[key] = change(previousScore, currentScore)
+    }
+  }
+
+  const timelines = Object.fromEntries(
+    BANDS.map(band => {
+      const previousMonths = previous.probabilityBands[band].estimatedTimelineMonths
+      const currentMonths = current.probabilityBands[band].estimatedTimelineMonths
+      const projected = Math.max(0, Math.round((previousMonths - elapsedMonths) * 10) / 10)
+      const shift: TimelineShift = {
+        ...change(previousMonths, currentMonths),
+        projected,
+        shift: Math.round((currentMonths - projected) * 10) / 10,
+      }
+      return [band, shift]
+    })
+  ) as Record<ProbabilityBand, TimelineShift>
+
+  const gapsNarrowed: NarrowedGap[] = []
+  const gapsClosed: SkillGap[] = []
+  for (const gap of previous.skillGaps) {
+    const currentGap = current.skillGaps.find(candidate => candidate.skillName === gap.skillName)
+    if (!currentGap) {
+      gapsClosed.push(gap)
+    } else if (currentGap.currentProficiency > gap.currentProficiency) {
+      gapsNarrowed.push({
+        skillName: gap.skillName,
+        previousProficiency: gap.currentProficiency,
+        currentProficiency: currentGap.currentProficiency,
+        requiredProficiency: currentGap.requiredProficiency,
+      })
+    }
+  }
+
+  return {
+    previousEvaluatedAt: previous.metadata.evaluatedAt,
+    currentEvaluatedAt: current.metadata.evaluatedAt,
+    elapsedMonths,
+    sameGoal:
+      previous.metadata.scenarioId === current.metadata.scenarioId &&
+      (previousRole === undefined || currentRole === undefined || previousRole === currentRole),
+    overallScore: change(previous.overallScore, current.overallScore),
+    scores,
+    timelines,
+    warningsResolved: previous.warnings.filter(
+      warning => !current.warnings.some(other => sameWarning(warning, other))
+    ),
+    warningsAdded: current.warnings.filter(
+      warning => !previous.warnings.some(other => sameWarning(warning, other))
+    ),
+    gapsClosed,
+    gapsNarrowed,
+    gapsOpened: current.skillGaps.filter(
+      gap => !previous.skillGaps.some(candidate => candidate.skillName === gap.skillName)
+    ),
+    milestones: buildMilestones(previous, current, elapsedMonths),
+  }
+}
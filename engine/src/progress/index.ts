@@ -0,0 +1,115 @@
+/**
+ * Progress module
+ *
+ * This module contains the types for progress tracking: a previous evaluation of
+ * a goal compared with a fresh one, and the milestones set by the previous one
+ * (see `diffResults` in diff.ts).
+ */
+
+import type {
+  ProbabilityBand,
+  RealityCheckInput,
+  RealityCheckResult,
+  RoleMatch,
+  SkillGap,
+  Warning,
+} from '../models'
+import type { ScoreKey } from '../rules'
+
+/**
+ * A result to compare, possibly saved by an earlier engine version: results
+ * from before role classification have no `role`, and results from before
+ * reproducibility metadata have no `metadata.input`.
+ */
+export type SavedResult = Omit<RealityCheckResult, 'role' | 'metadata'> & {
+  role?: RoleMatch
+  metadata: Omit<RealityCheckResult['metadata'], 'input'> & { input?: RealityCheckInput }
+}
+
+/**
+ * How a value changed between two evaluations.
+ */
+export interface ValueChange {
+  previous: number
+  current: number
+  /** `current` minus `previous` */
+  delta: number
+}
+
+/**
+ * How a band's timeline changed between two evaluations.
+ */
+export interface TimelineShift extends ValueChange {
+  /** Months the previous estimate had left by the time of the current one (never below 0) */
+  projected: number
+  /** `current` minus `projected`: positive if the goal slipped, negative if it came closer faster */
+  shift: number
+}
+
+/**
+ * A skill gap that got smaller without closing.
+ */
+export interface NarrowedGap {
+  skillName: string
+  previousProficiency: number
+  currentProficiency: number
+  requiredProficiency: number
+}
+
+/**
+ * A skill gap of the previous evaluation, due by a date.
+ */
+export interface Milestone {
+  /** Skill to close the gap on */
+  skillName: string
+  /** Proficiency to reach (0-5) */
+  requiredProficiency: number
+  /** Proficiency now (0-5; the required level once reached) */
+  currentProficiency: number
+  /** Months after the previous evaluation the gap was due to close */
+  dueMonth: number
+  /** Date the gap was due to close (ISO 8601) */
+  dueAt: string
+  /**
+   * - reached: the gap is closed
+   * - on-track: not closed yet, and not due yet
+   * - overdue: not closed, and past due
+   */
+  status: 'reached' | 'on-track' | 'overdue'
+}
+
+/**
+ * Progress between a previous evaluation and the current one.
+ */
+export interface ResultDiff {
+  /** When the previous evaluation was performed (ISO 8601) */
+  previousEvaluatedAt: string
+  /** When the current evaluation was performed (ISO 8601) */
+  currentEvaluatedAt: string
+  /** Months between the two evaluations (1 decimal) */
+  elapsedMonths: number
+  /**
+   * Whether both evaluations are for the same goal (same scenario and target
+   * role, where both results record one); deltas between different
+   * goals say little about progress
+   */
+  sameGoal: boolean
+  /** Overall score change */
+  overallScore: ValueChange
+  /** Change of each score calculated in both evaluations */
+  scores: Partial<Record<ScoreKey, ValueChange>>
+  /** Change of each band's estimated timeline */
+  timelines: Record<ProbabilityBand, TimelineShift>
+  /** Warnings of the previous evaluation that no longer fire */
+  warningsResolved: Warning[]
+  /** Warnings that fire only in the current evaluation */
+  warningsAdded: Warning[]
+  /** Skill gaps of the previous evaluation that are closed */
+  gapsClosed: SkillGap[]
+  /** Skill gaps that got smaller without closing */
+  gapsNarrowed: NarrowedGap[]
+  /** Skill gaps that are new in the current evaluation */
+  gapsOpened: SkillGap[]
+  /** Milestones from the previous evaluation's skill gaps, in the order they were due */
+  milestones: Milestone[]
+}
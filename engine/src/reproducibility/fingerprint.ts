@@ -0,0 +1,87 @@
+/**
+ * Fingerprints
+ *
+ * Normalizes evaluation input and hashes the scenario set and ruleset, so a
+ * result records exactly what it was evaluated from. Hashes are computed over a
+ * canonical JSON form (sorted keys), so they change with the content and not
+ * with the order fields were written in.
+ */
+
+import type { RealityCheckInput } from '../models'
+import type { CareerScenario } from '../scenarios'
+import type { RuleSet } from '../rules'
+
+/** FNV-1a 64-bit offset basis */
+const FNV_OFFSET = 0xcbf29ce484222325n
+
+/** FNV-1a 64-bit prime */
+const FNV_PRIME = 0x100000001b3n
+
+/** Mask to keep the hash to 64 bits */
+const MASK_64 = 0xffffffffffffffffn
+
+/**
+ * Canonical form of a JSON-like value: strings trimmed, undefined fields
+ * dropped and object keys sorted. Array order is kept, since it can matter
+ * (e.g. rules run in order).
+ */
+function canonicalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.trim()
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize)
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, field]) => field !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, field]) => [key, canonicalize(field)])
+    )
+  }
+  return value
+}
+
+/**
+ * Hashes a value's canonical JSON with FNV-1a (64-bit, as 16 hex digits).
+ * Not a cryptographic hash: it detects changes, it does not prove authenticity.
+ */
+export function contentHash(value: unknown): string {
+  let hash = FNV_OFFSET
+  for (const char of JSON.stringify(canonicalize(value))) {
+    hash ^= BigInt(char.codePointAt(0) ?? 0)
+    hash = (hash * FNV_PRIME) & MASK_64
+  }
+  return hash.toString(16).padStart(16, '0')
+}
+
+/**
+ * Normalizes an input for evaluation and for recording in the result: a copy
+ * with strings trimmed, undefined fields dropped and keys sorted, so equivalent
+ * inputs produce the same result.
+ */
+export function normalizeInput(input: RealityCheckInput): RealityCheckInput {
+  return canonicalize(input) as RealityCheckInput
+}
+
+/**
+ * Content hash of a scenario set.
+ */
+export function hashScenarios(scenarios: CareerScenario[]): string {
+  return contentHash(scenarios)
+}
+
+/**
+ * Content hash of a ruleset: the order, IDs and versions of its rules. Rule
+ * authors bump a rule's `version` when its logic changes; changes that slip
+ * through (or to helpers a rule calls) show up when `reproduce` compares the
+ * outputs.
+ */
+export function hashRuleSet(rules: RuleSet): string {
+  const describe = (rule: { id: string; version: number }) => ({ id: rule.id, version: rule.version })
+  return contentHash({
+    scoreRules: rules.scoreRules.map(describe),
+    warningRules: rules.warningRules.map(describe),
+  })
+}
@@ -0,0 +1,59 @@
+/**
+ * Reproducibility module
+ *
+ * This module contains the engine version and the types for reproducing a saved
+ * result: every result records the engine version, content hashes of the
+ * scenario set and ruleset it was evaluated with, and its normalized input, so
+ * the evaluation can be re-run later and compared (see `reproduce` in
+ * reproduce.ts).
+ */
+
+import type { RealityCheckResult } from '../models'
+import type { Evaluator } from '../evaluator'
+
+/**
+ * Version of the evaluation engine, recorded in `metadata.engineVersion`.
+ * Keep in sync with engine/package.json (`npm run schemas:check` fails otherwise).
+ */
+export const ENGINE_VERSION = '0.1.0'
+
+/**
+ * A value that differs between a saved result and its re-evaluation.
+ */
+export interface ResultDifference {
+  /** Path of the value in the result (e.g. "probabilityBands.best.estimatedTimelineMonths") */
+  path: string
+  /** Value in the saved result (undefined if absent) */
+  previous: unknown
+  /** Value in the re-evaluation (undefined if absent) */
+  current: unknown
+}
+
+/**
+ * Outcome of re-running the evaluation of a saved result.
+ */
+export interface ReproductionReport {
+  /** Whether the re-evaluation produced the same output (ignoring `metadata.evaluatedAt` and the version stamps) */
+  reproducible: boolean
+  /** Engine version of the saved result and of the re-evaluation */
+  engineVersion: { previous: string; current: string }
+  /** Whether the scenario set changed since the saved result was evaluated */
+  scenarioSetChanged: boolean
+  /** Whether the ruleset changed since the saved result was evaluated */
+  ruleSetChanged: boolean
+  /** Every value that differs, in result order (empty if reproducible) */
+  differences: ResultDifference[]
+  /** The re-evaluation */
+  result: RealityCheckResult
+}
+
+/**
+ * Options for `reproduce`.
+ */
+export interface ReproduceOptions {
+  /**
+   * Evaluator to re-run the evaluation with (default: the default rules and
+   * market data, with the config and evaluation time recorded in the saved result)
+   */
+  evaluator?: Evaluator
+}
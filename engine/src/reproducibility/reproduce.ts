@@ -0,0 +1,106 @@
+/**
+ * Reproduction
+ *
+ * Re-runs the evaluation of a saved result from the normalized input and
+ * evaluation time it records, and reports whether the same output comes back.
+ * Since evaluation is deterministic, any difference comes from a change to the
+ * engine, the scenarios, the rules or the market data since the result was saved.
+ */
+
+import { Evaluator } from '../evaluator'
+import type { RealityCheckResult } from '../models'
+import { validateInput } from '../validation/input'
+import { ENGINE_VERSION } from './index'
+import type { ReproduceOptions, ReproductionReport, ResultDifference } from './index'
+
+/**
+ * Metadata that is expected to change between evaluations; it is reported on
+ * its own instead of as a difference.
+ */
+const IGNORED_PATHS = new Set([
+  'metadata.evaluatedAt',
+  'metadata.engineVersion',
+  'metadata.scenarioSetHash',
+  'metadata.ruleSetHash',
+])
+
+/**
+ * Collects the differences between two JSON values, depth first.
+ */
+function collectDifferences(
+  previous: unknown,
+  current: unknown,
+  path: string,
+  differences: ResultDifference[]
+): void {
+  if (IGNORED_PATHS.has(path)) {
+    return
+  }
+  if (Array.isArray(previous) && Array.isArray(current)) {
+    for (let index = 0; index < Math.max(previous.length, current.length); index++) {
+      collectDifferences(previous[index], current[index], `${path}[${index}]`, differences)
+    }
+    return
+  }
+  if (
+    previous !== null && typeof previous === 'object' && !Array.isArray(previous) &&
+    current !== null && typeof current === 'object' && !Array.isArray(current)
+  ) {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(current)])
+    for (const key of keys) {
+      collectDifferences(
+        (previous as Record<string, unknown>)[key],
+        (current as Record<string, unknown>)[key],
+        path ? `${path}.${key}` : key,
+        differences
+      )
+    }
+    return
+  }
+  if (previous !== current) {
+    differences.push({ path, previous, current })
+  }
+}
+
+/**
+ * Re-evaluates a saved result and compares the outputs.
+ *
+ * The saved result may come from JSON (e.g. a downloaded report): both results
+ * are compared in their JSON form, so fields that are undefined in one and
+ * absent in the other are equal.
+ *
+ * @throws Error if the result does not record its input (it was saved before
+ * results recorded their normalized input), its evaluation time is not a valid
+ * date, or its recorded input fails `validateInput` (e.g. it was edited)
+ */
+export function reproduce(result: RealityCheckResult, options: ReproduceOptions = {}): ReproductionReport {
+  const { metadata } = result
+  if (!metadata.input) {
+    throw new Error('The result does not record its input, so it cannot be reproduced')
+  }
+  if (Number.isNaN(Date.parse(metadata.evaluatedAt))) {
+    throw new Error(`The result's evaluation time "${metadata.evaluatedAt}" is not a valid date`)
+  }
+  const validation = validateInput(metadata.input)
+  if (!validation.valid) {
+    throw new Error(
+      `The result's recorded input is invalid: ${validation.errors.map(error => error.message).join('; ')}`
+    )
+  }
+
+  const evaluator =
+    options.evaluator ?? new Evaluator({ config: metadata.config, now: new Date(metadata.evaluatedAt) })
+  const current = evaluator.evaluate(metadata.input)
+
+  const differences: ResultDifference[] = []
+  collectDifferences(JSON.parse(JSON.stringify(result)), JSON.parse(JSON.stringify(current)), '', differences)
+
+  return {
+    reproducible: differences.length === 0,
+    engineVersion: { previous: metadata.engineVersion, current: ENGINE_VERSION },
+    scenarioSetChanged: metadata.scenarioSetHash !== current.metadata.scenarioSetHash,
+    ruleSetChanged: metadata.ruleSetHash !== current.metadata.ruleSetHash,
+    differences,
+    result: current,
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Risk analysis
+ *
+ * Turns a scenario's common failure reasons into the user's personal risk
+ * profile: each category the scenario lists is checked against the evaluation
+ * (skill gaps, band hours, timeline, market data, experience, expectations),
+ * and the categories the user is exposed to are ranked by how often people on
+ * the path fail for that reason. A category the scenario does not list is
+ * never reported, however exposed the user is: the frequencies come from the
+ * scenario.
+ */
+
+import type { CommonFailureReason } from '../scenarios'
+import type { WarningRuleContext } from '../rules'
+import { COMPETITIVE_APPLICANTS_PER_OPENING, LOW_DEMAND_INDEX } from './index'
+import type { FailureCategory, FailureRisk, RiskProfile } from './index'
+
+/**
+ * What exposes the user to a failure category, and the actions specific to it.
+ * No exposure means the user is not exposed.
+ */
+interface Exposure {
+  exposure: string[]
+  actions: string[]
+}
+
+/**
+ * General actions that mitigate each failure category, after the specific ones.
+ */
+const MITIGATIONS: Record<FailureCategory, string[]> = {
+  skill_gap: [
+    'Learn critical skills before non-critical ones',
+    'Prove each skill with a project, certificate or work sample employers can check',
+  ],
+  timeline: [
+    'Plan for the average case and treat the best case as a bonus',
+    'Check hiring seasons and application deadlines on this path',
+  ],
+  competition: [
+    'Use referrals and networking; they bypass much of the applicant pool',
+    'Differentiate yourself with measurable results rather than the same credentials as other applicants',
+  ],
+  preparation: [
+    'Prepare for the exams, certifications or interviews this path requires before applying',
+    'Practice with mock interviews or past exam papers',
+  ],
+  expectations: [
+    'Talk to people already in the role about the day-to-day work, pay and hours',
+    'Set expectations from the average case, not the best case',
+  ],
+  market: [
+    'Consider adjacent roles, industries or locations with more openings',
+    'Keep an income or fallback option while the market recovers',
+  ],
+  resource_constraint: [
+    'Budget the time and money the path needs before starting',
+    'Look for employer-sponsored training, scholarships or part-time programs',
+  ],
+}
+
+/**
+ * Critical skills the user is missing.
+ */
+function skillGapExposure({ skillGaps }: WarningRuleContext): Exposure {
+  const critical = skillGaps.filter(gap => gap.priority === 1)
+  return {
+    exposure: critical.map(
+      gap =>
+        `${gap.skillName} is at proficiency ${gap.currentProficiency} of the required ${gap.requiredProficiency}`
+    ),
+    actions: critical.map(
+      gap => `Learn ${gap.skillName} to proficiency level ${gap.requiredProficiency}`
+    ),
+  }
+}
+
+/**
+ * A target timeline shorter than the scenario's average case.
+ */
+function timelineExposure({ goal, scenario }: WarningRuleContext): Exposure {
+  const average = scenario?.timelineRanges.averageCaseMonths
+  if (average === undefined || goal.timeline.targetMonths >= average) {
+    return { exposure: [], actions: [] }
+  }
+  return {
+    exposure: [
+      `Your target of ${goal.timeline.targetMonths} months is shorter than the average ${average} months on this path`,
+    ],
+    actions: [`Plan for ${average} months, the average on this path`],
+  }
+}
+
+/**
+ * A crowded applicant pool, or a goal that narrows the openings (remote only,
+ * a single company).
+ */
+function competitionExposure({ goal, market }: WarningRuleContext): Exposure {
+  const exposure: string[] = []
+  const actions: string[] = []
+
+  if (market && market.applicantsPerOpening >= COMPETITIVE_APPLICANTS_PER_OPENING) {
+    exposure.push(`There are about ${market.applicantsPerOpening} applicants per opening`)
+  }
+  if (goal.requirements?.remoteOnly) {
+    exposure.push('Remote-only roles draw applicants from everywhere')
+    actions.push('Consider hybrid or on-site roles as well as remote ones')
+  }
+  if (goal.requirements?.targetCompany) {
+    exposure.push(`You are targeting a single company (${goal.requirements.targetCompany})`)
+    actions.push(`Apply to employers similar to ${goal.requirements.targetCompany} as well`)
+  }
+  return { exposure, actions }
+}
+
+/**
+ * Low or falling demand in the market data.
+ */
+function marketExposure({ market }: WarningRuleContext): Exposure {
+  const exposure: string[] = []
+  if (market && market.demandIndex < LOW_DEMAND_INDEX) {
+    exposure.push(`Demand for the role is low (${market.demandIndex}/100)`)
+  }
+  if (market?.hiringTrend === 'declining') {
+    exposure.push(`Hiring is declining (${market.trendPercent}% year over year)`)
+  }
+  return { exposure, actions: [] }
+}
+
+/**
+ * Less relevant experience than the scenario typically requires: less
+ * practice to draw on in interviews, exams and work samples.
+ */
+function preparationExposure({ profile, scenario }: WarningRuleContext): Exposure {
+  const required = scenario?.minExperienceYears ?? 0
+  const { relevantYears } = profile.experience
+  if (relevantYears >= required) {
+    return { exposure: [], actions: [] }
+  }
+  return {
+    exposure: [
+      `You have ${relevantYears} years of relevant experience; this path typically requires ${required}`,
+    ],
+    actions: ['Gain relevant experience through projects, volunteering, or side work'],
+  }
+}
+
+/**
+ * Expectations beyond what the scenario's best case or salary data support.
+ */
+function expectationsExposure({ goal, scenario, salary }: WarningRuleContext): Exposure {
+  const exposure: string[] = []
+  const actions: string[] = []
+
+  const best = scenario?.timelineRanges.bestCaseMonths
+  if (best !== undefined && goal.timeline.targetMonths < best) {
+    exposure.push(
+      `Your target of ${goal.timeline.targetMonths} months is shorter than the best case ${best} months`
+    )
+  }
+
+  // Only compared in the same currency (see the salary expectation warning)
+  const expectation = goal.salaryExpectation
+  if (expectation && salary && salary.currency === expectation.currency.toUpperCase()) {
+    const { p50, p75 } = salary.percentiles
+    if (expectation.desired > p75) {
+      exposure.push(
+        `Your desired salary of ${expectation.desired.toLocaleString('en-US')} ${salary.currency} is above the 75th percentile (${p75.toLocaleString('en-US')})`
+      )
+      actions.push(
+        `Anchor your salary expectations to the median (${p50.toLocaleString('en-US')} ${salary.currency})`
+      )
+    }
+  }
+  return { exposure, actions }
+}
+
+/**
+ * A daily hours requirement in the average case above the hours available.
+ */
+function resourceExposure({ profile, probabilityBands, config }: WarningRuleContext): Exposure {
+  const required = probabilityBands.average.requiredDailyHours
+  const available = config.availableHours[profile.employmentStatus]
+  if (required <= available) {
+    return { exposure: [], actions: [] }
+  }
+  return {
+    exposure: [
+      `The average case needs ${required} hours a day; about ${available} are available (${profile.employmentStatus})`,
+    ],
+    actions: ['Free up daily hours or extend your timeline so the required hours fit your week'],
+  }
+}
+
+/**
+ * Exposure check for each failure category.
+ */
+const EXPOSURE_CHECKS: Record<FailureCategory, (context: WarningRuleContext) => Exposure> = {
+  skill_gap: skillGapExposure,
+  timeline: timelineExposure,
+  competition: competitionExposure,
+  preparation: preparationExposure,
+  expectations: expectationsExposure,
+  market: marketExposure,
+  resource_constraint: resourceExposure,
+}
+
+/**
+ * Builds the user's risk profile from the selected scenario's failure reasons.
+ *
+ * Each category the scenario lists is checked for exposure. Exposed categories
+ * are ranked by the frequency of their most common reason (ties keep the
+ * scenario's order), with specific actions followed by the category's general
+ * mitigations. Without a scenario there are no frequencies, so the profile is
+ * empty.
+ */
+export function analyzeRiskProfile(context: WarningRuleContext): RiskProfile {
+  const { scenario } = context
+  if (!scenario) {
+    return { risks: [], unexposedCategories: [] }
+  }
+
+  const reasonsByCategory = new Map<FailureCategory, CommonFailureReason[]>()
+  for (const reason of scenario.commonFailureReasons) {
+    reasonsByCategory.set(reason.category, [
+      ...(reasonsByCategory.get(reason.category) ?? []),
+      reason,
+    ])
+  }
+
+  const risks: FailureRisk[] = []
+  const unexposedCategories: FailureCategory[] = []
+  for (const [category, reasons] of reasonsByCategory) {
+    const { exposure, actions } = EXPOSURE_CHECKS[category](context)
+    if (exposure.length === 0) {
+      unexposedCategories.push(category)
+      continue
+    }
+    const ranked = [...reasons].sort((a, b) => b.frequency - a.frequency)
+    risks.push({
+      category,
+      frequency: ranked[0].frequency,
+      reasons: ranked,
+      exposure,
+      mitigations: [...actions, ...MITIGATIONS[category]],
+    })
+  }
+
+  return {
+    scenarioId: scenario.id,
+    risks: risks.sort((a, b) => b.frequency - a.frequency),
+    unexposedCategories,
+  }
+}
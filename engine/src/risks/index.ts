@@ -0,0 +1,51 @@
+/**
+ * Risks module
+ *
+ * This module contains the types for failure-risk profiling. Each scenario
+ * lists common reasons people fail on its path, by category and frequency
+ * (`CommonFailureReason`). The evaluator checks which categories the user's
+ * profile is actually exposed to (e.g. missing critical skills for `skill_gap`,
+ * too few available hours for `resource_constraint`) and ranks them by the
+ * scenario's frequencies, with actions that mitigate each one (see
+ * `analyzeRiskProfile` in analysis.ts).
+ */
+
+import type { CommonFailureReason } from '../scenarios'
+
+/**
+ * Category of a scenario's failure reasons.
+ */
+export type FailureCategory = CommonFailureReason['category']
+
+/**
+ * A failure category the user is exposed to.
+ */
+export interface FailureRisk {
+  category: FailureCategory
+  /** Frequency of the most common failure reason in this category (0-100) */
+  frequency: number
+  /** The scenario's failure reasons in this category, most common first */
+  reasons: CommonFailureReason[]
+  /** What in the profile or goal exposes the user to this category */
+  exposure: string[]
+  /** Actions that reduce this risk, most specific first */
+  mitigations: string[]
+}
+
+/**
+ * The user's personal risk profile on a scenario's path.
+ */
+export interface RiskProfile {
+  /** Scenario whose failure reasons were profiled (absent if no scenario was used) */
+  scenarioId?: string
+  /** Categories the user is exposed to, most frequent first */
+  risks: FailureRisk[]
+  /** Categories the scenario lists that the user is not exposed to */
+  unexposedCategories: FailureCategory[]
+}
+
+/** Applicants per opening from which competition is a risk */
+export const COMPETITIVE_APPLICANTS_PER_OPENING = 100
+
+/** Market demand index (0-100) below which the market is a risk */
+export const LOW_DEMAND_INDEX = 40
@@ -0,0 +1,119 @@
+/**
+ * Roadmap module
+ *
+ * This module contains the types for learning roadmaps: an evaluation's skill
+ * gaps turned into a month-by-month plan of skill building, interview preparation
+ * and job search (see `generateRoadmap` in planner.ts).
+ */
+
+import type { TimeRequirements } from '../scenarios'
+import type { Evaluator } from '../evaluator'
+
+/**
+ * A phase of the roadmap:
+ * - skill-building: closing the skill gaps, one skill at a time
+ * - interview-prep: preparing for interviews
+ * - job-search: applying and interviewing
+ */
+export type RoadmapPhaseKind = 'skill-building' | 'interview-prep' | 'job-search'
+
+/**
+ * Learning one skill up to the required proficiency.
+ */
+export interface RoadmapSkillStep {
+  /** Skill name, as written in the skill gap */
+  skillName: string
+  /** Canonical skill ID (absent if the name is not in the taxonomy) */
+  skillId?: string
+  /** Priority of the gap (1 = critical, 2 = important, 3 = nice to have) */
+  priority: 1 | 2 | 3
+  /** Current proficiency (0-5) */
+  fromProficiency: number
+  /** Proficiency to reach (0-5) */
+  toProficiency: number
+  /** Names of the skills in the plan that are learned first because this one builds on them */
+  prerequisites: string[]
+  /** Months the gap takes at the scenario's skill-building hours (`estimatedTimeToAcquireMonths`) */
+  effortMonths: number
+  /** Month the step starts, counted from the start of the plan (0 = start) */
+  startMonth: number
+  /** Month the step ends */
+  endMonth: number
+}
+
+/**
+ * A phase of the roadmap and its daily hours.
+ */
+export interface RoadmapPhase {
+  kind: RoadmapPhaseKind
+  /** Human-readable name (e.g. "Skill building") */
+  name: string
+  /** Month the phase starts (0 = start of the plan) */
+  startMonth: number
+  /** Month the phase ends */
+  endMonth: number
+  /** Daily hours planned: the scenario's hours for the phase, capped at the hours available */
+  dailyHours: number
+  /** Daily hours the scenario asks for in this phase */
+  requiredDailyHours: number
+  /** Skills learned in this phase, in order (skill building only; empty otherwise) */
+  steps: RoadmapSkillStep[]
+}
+
+/**
+ * What to work on in one month of the plan.
+ */
+export interface RoadmapMonth {
+  /** Month number (1 = first month) */
+  month: number
+  /** Phases active during the month */
+  phases: RoadmapPhaseKind[]
+  /** Skills and activities to focus on */
+  focus: string[]
+  /** Daily hours planned (the most of the active phases) */
+  dailyHours: number
+}
+
+/**
+ * A month-by-month plan for reaching a career goal.
+ */
+export interface LearningRoadmap {
+  /** Scenario the time requirements came from (absent if defaults were used) */
+  scenarioId?: string
+  /** Daily hours the user has available (from the config, by employment status) */
+  availableDailyHours: number
+  /** Daily hours per phase the plan is based on */
+  timeRequirements: TimeRequirements
+  /** Phases in order; phases with no daily hours are left out */
+  phases: RoadmapPhase[]
+  /** What to focus on each month */
+  months: RoadmapMonth[]
+  /** Length of the plan in months */
+  totalMonths: number
+  /** Hours invested over the whole plan */
+  totalHours: number
+  /** Caveats about the plan (e.g. slower pace than the scenario assumes) */
+  notes: string[]
+}
+
+/** Time requirements used when no scenario applies */
+export const DEFAULT_TIME_REQUIREMENTS: TimeRequirements = {
+  skillBuildingHours: 3,
+  jobSearchHours: 1,
+  interviewPrepHours: 2,
+  isOnTopOfFullTimeJob: true,
+}
+
+/** Months of interview preparation once the skills are in place */
+export const INTERVIEW_PREP_MONTHS = 2
+
+/** Months of job search after interview preparation */
+export const JOB_SEARCH_MONTHS = 3
+
+/**
+ * Options for `generateRoadmap`.
+ */
+export interface RoadmapOptions {
+  /** Evaluator to find the skill gaps with (default: a default `Evaluator`) */
+  evaluator?: Evaluator
+}
@@ -0,0 +1,230 @@
+/**
+ * Roadmap planner
+ *
+ * Turns an evaluation's skill gaps into a month-by-month plan: skills are learned
+ * one at a time (prerequisites first, then critical skills first), at the pace the
+ * user's available daily hours allow, followed by interview preparation and the
+ * job search with the scenario's daily hours for each phase.
+ */
+
+import type { RealityCheckInput, SkillGap } from '../models'
+import { Evaluator } from '../evaluator'
+import { getSkillDefinition, isChildSkill, resolveSkill } from '../skills/matching'
+import { DEFAULT_TIME_REQUIREMENTS, INTERVIEW_PREP_MONTHS, JOB_SEARCH_MONTHS } from './index'
+import type {
+  LearningRoadmap,
+  RoadmapMonth,
+  RoadmapOptions,
+  RoadmapPhase,
+  RoadmapPhaseKind,
+  RoadmapSkillStep,
+} from './index'
+
+/** Days counted per month when totalling hours invested */
+const DAYS_PER_MONTH = 30
+
+/** Phase names (also the focus of months outside skill building) */
+const PHASE_NAMES: Record<RoadmapPhaseKind, string> = {
+  'skill-building': 'Skill building',
+  'interview-prep': 'Interview preparation',
+  'job-search': 'Job search',
+}
+
+/**
+ * Rounds a month count to one decimal.
+ */
+function roundMonths(months: number): number {
+  return Math.round(months * 10) / 10
+}
+
+/**
+ * Whether learning a skill covers a prerequisite: the same skill, or a skill
+ * directly above or below it in the taxonomy.
+ */
+function coversPrerequisite(skillId: string, prerequisiteId: string): boolean {
+  return skillId === prerequisiteId || isChildSkill(skillId, prerequisiteId) || isChildSkill(prerequisiteId, skillId)
+}
+
+/**
+ * Orders the skill steps for learning one at a time.
+ *
+ * - A step comes after every step that covers one of its prerequisites
+ * - Among the steps whose prerequisites are done, the most critical comes first;
+ *   a prerequisite is as critical as the most critical step that needs it, so
+ *   foundations of critical skills are not left for last
+ * - Ties keep the order of the skill gaps
+ *
+ * @returns Step indexes in learning order
+ */
+function orderSteps(steps: RoadmapSkillStep[], dependsOn: number[][]): number[] {
+  // Pass priorities down to prerequisites (one pass per step reaches every chain)
+  const effectivePriority = steps.map(step => step.priority as number)
+  for (let pass = 0; pass < steps.length; pass++) {
+    dependsOn.forEach((prerequisites, index) => {
+      for (const prerequisite of prerequisites) {
+        effectivePriority[prerequisite] = Math.min(effectivePriority[prerequisite], effectivePriority[index])
+      }
+    })
+  }
+
+  const order: number[] = []
+  const remaining = steps.map((_, index) => index)
+  while (remaining.length > 0) {
+    const ready = remaining.filter(index => dependsOn[index].every(prerequisite => order.includes(prerequisite)))
+    // The taxonomy has no prerequisite cycles, but never stall if one is added
+    const candidates = ready.length > 0 ? ready : remaining
+    const next = candidates.reduce((best, index) =>
+      effectivePriority[index] < effectivePriority[best] ||
+      (effectivePriority[index] === effectivePriority[best] && steps[index].priority < steps[best].priority)
+        ? index
+        : best
+    )
+    order.push(next)
+    remaining.splice(remaining.indexOf(next), 1)
+  }
+  return order
+}
+
+/**
+ * Builds a skill step (without its months) for a skill gap. The skill ID comes
+ * from the scenario requirement, or the taxonomy if the requirement has none.
+ */
+function buildStep(gap: SkillGap, requirementSkillId: string | undefined): RoadmapSkillStep {
+  return {
+    skillName: gap.skillName,
+    skillId: requirementSkillId ?? resolveSkill(gap.skillName)?.skill.id,
+    priority: gap.priority,
+    fromProficiency: gap.currentProficiency,
+    toProficiency: gap.requiredProficiency,
+    prerequisites: [],
+    effortMonths: gap.estimatedTimeToAcquireMonths || 3,
+    startMonth: 0,
+    endMonth: 0,
+  }
+}
+
+/**
+ * Generates a learning roadmap for an input.
+ *
+ * Plan:
+ * 1. Skill building: each skill gap is a step, ordered by `orderSteps`. A step
+ *    takes the gap's `estimatedTimeToAcquireMonths`, stretched when the user has
+ *    fewer available hours (from the config, as in the time-availability warning)
+ *    than the scenario's skill-building hours; more hours do not shorten it
+ * 2. Interview preparation: 2 months
+ * 3. Job search: 3 months
+ *
+ * Daily hours per phase come from the scenario's `TimeRequirements` (defaults
+ * without a scenario), capped at the available hours. Phases the scenario gives
+ * no hours to are left out. Experience gaps are not planned; a note says so.
+ */
+export function generateRoadmap(input: RealityCheckInput, options: RoadmapOptions = {}): LearningRoadmap {
+  const evaluator = options.evaluator ?? new Evaluator()
+  const result = evaluator.evaluate(input)
+  const { profile } = input
+
+  const scenario = result.metadata.scenarioId ? evaluator.getScenario(result.metadata.scenarioId) : undefined
+  const timeRequirements = scenario?.timeRequirements ?? DEFAULT_TIME_REQUIREMENTS
+  const availableDailyHours = result.metadata.config.availableHours[profile.employmentStatus]
+  const notes: string[] = []
+
+  // Skill steps and the steps each one builds on
+  const steps = result.skillGaps.map(gap =>
+    buildStep(gap, scenario?.skillRequirements.find(requirement => requirement.skillName === gap.skillName)?.skillId)
+  )
+  const dependsOn = steps.map((step, index) => {
+    const prerequisiteIds = step.skillId ? getSkillDefinition(step.skillId)?.prerequisiteIds ?? [] : []
+    return steps
+      .map((candidate, candidateIndex) => ({ candidate, candidateIndex }))
+      .filter(
+        ({ candidate, candidateIndex }) =>
+          candidateIndex !== index &&
+          candidate.skillId !== undefined &&
+          prerequisiteIds.some(prerequisiteId => coversPrerequisite(candidate.skillId as string, prerequisiteId))
+      )
+      .map(({ candidateIndex }) => candidateIndex)
+  })
+  steps.forEach((step, index) => {
+    step.prerequisites = dependsOn[index].map(prerequisite => steps[prerequisite].skillName)
+  })
+
+  // Phases, one after the other
+  const phases: RoadmapPhase[] = []
+  let cursor = 0
+  const addPhase = (kind: RoadmapPhaseKind, requiredDailyHours: number, months: number, phaseSteps: RoadmapSkillStep[]) => {
+    if (requiredDailyHours <= 0 || months <= 0) return
+    phases.push({
+      kind,
+      name: PHASE_NAMES[kind],
+      startMonth: roundMonths(cursor),
+      endMonth: roundMonths(cursor + months),
+      dailyHours: Math.min(requiredDailyHours, availableDailyHours),
+      requiredDailyHours,
+      steps: phaseSteps,
+    })
+    cursor += months
+  }
+
+  const { skillBuildingHours, interviewPrepHours, jobSearchHours } = timeRequirements
+  const pace = Math.max(1, skillBuildingHours / availableDailyHours)
+  const orderedSteps = orderSteps(steps, dependsOn).map(index => steps[index])
+  let stepCursor = 0
+  for (const step of orderedSteps) {
+    step.startMonth = roundMonths(stepCursor)
+    stepCursor += step.effortMonths * pace
+    step.endMonth = roundMonths(stepCursor)
+  }
+  addPhase('skill-building', skillBuildingHours, stepCursor, orderedSteps)
+  addPhase('interview-prep', interviewPrepHours, INTERVIEW_PREP_MONTHS, [])
+  addPhase('job-search', jobSearchHours, JOB_SEARCH_MONTHS, [])
+
+  // Month by month: every phase and skill step that runs during the month
+  const totalMonths = roundMonths(cursor)
+  const months: RoadmapMonth[] = []
+  for (let month = 1; month <= Math.ceil(totalMonths); month++) {
+    const active = phases.filter(phase => phase.startMonth < month && phase.endMonth > month - 1)
+    months.push({
+      month,
+      phases: active.map(phase => phase.kind),
+      focus: active.flatMap(phase =>
+        phase.kind === 'skill-building'
+          ? phase.steps.filter(step => step.startMonth < month && step.endMonth > month - 1).map(step => step.skillName)
+          : [phase.name]
+      ),
+      dailyHours: Math.max(0, ...active.map(phase => phase.dailyHours)),
+    })
+  }
+
+  if (!scenario) {
+    notes.push('No scenario matched your goal, so typical daily hours were assumed for each phase.')
+  }
+  if (steps.length === 0) {
+    notes.push('You have no skill gaps for this goal, so the plan starts with interview preparation.')
+  } else if (pace > 1) {
+    notes.push(
+      `Skills are planned at the ${availableDailyHours} hours a day you likely have, not the ${skillBuildingHours} the scenario assumes, so each takes about ${Math.round(pace * 10) / 10}x as long.`
+    )
+  }
+  if (!timeRequirements.isOnTopOfFullTimeJob && profile.employmentStatus === 'employed') {
+    notes.push('This path is usually a full-time commitment, which is hard to combine with a full-time job.')
+  }
+  const requiredYears = result.role.requiredYears.typical
+  if (requiredYears > profile.experience.relevantYears) {
+    notes.push(
+      `The plan covers skills only: the role typically asks for ${requiredYears} years of relevant experience, and you have ${profile.experience.relevantYears}.`
+    )
+  }
+
+  return {
+    scenarioId: scenario?.id,
+    availableDailyHours,
+    timeRequirements,
+    phases,
+    months,
+    totalMonths,
+    totalHours: Math.round(
+      phases.reduce((sum, phase) => sum + (phase.endMonth - phase.startMonth) * phase.dailyHours * DAYS_PER_MONTH, 0)
+    ),
+    notes,
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Roles module
+ *
+ * This module contains the role catalog: seniority levels with the years of
+ * relevant experience they typically require, and role families with the
+ * title conventions that differ from the general ladder.
+ *
+ * It replaces keyword checks such as `roleTitle.includes('head')`, which counted
+ * "Head Chef" as management and "Associate Director" as entry-level.
+ */
+
+/**
+ * Seniority level identifiers, from most junior to most senior.
+ */
+export type SeniorityLevelId =
+  | 'intern'
+  | 'entry'
+  | 'mid'
+  | 'senior'
+  | 'lead'
+  | 'principal'
+  | 'manager'
+  | 'director'
+  | 'executive'
+
+/**
+ * Years of relevant experience typically required for a level.
+ */
+export interface YearsRange {
+  /** Fewest years commonly accepted */
+  min: number
+  /** Typical years; used as the benchmark when scoring experience */
+  typical: number
+  /** Years beyond which more experience adds little (optional) */
+  max?: number
+}
+
+/**
+ * A seniority level on the general career ladder.
+ */
+export interface SeniorityLevel {
+  /** Level identifier */
+  id: SeniorityLevelId
+  /** Human-readable name */
+  name: string
+  /** Years of relevant experience typically required */
+  requiredYears: YearsRange
+  /**
+   * Title words or phrases that indicate this level (matched as whole words).
+   * When several levels match, the one listed LATER in `seniorityLevels` wins.
+   */
+  keywords: string[]
+}
+
+/**
+ * A family of related roles (e.g. software engineering, nursing).
+ */
+export interface RoleFamily {
+  /** Family identifier */
+  id: string
+  /** Human-readable name */
+  name: string
+  /** Title words or phrases that place a role in this family (matched as whole words) */
+  keywords: string[]
+  /**
+   * Titles with a known level in this family (e.g. "head chef" is a kitchen rank,
+   * not a "head of" executive role). Phrases are matched as whole words and the
+   * longest matching phrase wins. The phrase is removed from the title before the
+   * general keywords are checked, so only words outside it (e.g. "Lead" in
+   * "Lead Product Manager") can raise the level further.
+   */
+  titleLevels?: Record<string, SeniorityLevelId>
+  /** Family-specific experience requirements that replace the general ladder */
+  requiredYears?: Partial<Record<SeniorityLevelId, YearsRange>>
+}
+
+/**
+ * The general seniority ladder.
+ *
+ * Precedence: when a title contains keywords for several levels, the level
+ * listed last wins. For example "Senior Director" contains both "senior" and
+ * "director", and resolves to director. A qualifier right before a keyword
+ * lowers its level (see `seniorityQualifiers`).
+ *
+ * Assumptions (years of relevant experience):
+ * - Internships need none, entry-level roles 0-2 years
+ * - Mid-level (the default when no keyword matches) typically needs 3 years
+ * - Senior individual contributors need 5+, leads 6+, principal/staff 8+
+ * - People managers need 7+, directors 10+, executives 12+
+ */
+export const seniorityLevels: SeniorityLevel[] = [
+  {
+    id: 'intern',
+    name: 'Intern',
+    requiredYears: { min: 0, typical: 0, max: 1 },
+    keywords: ['intern', 'internship', 'apprentice'],
+  },
+  {
+    id: 'entry',
+    name: 'Entry-level',
+    requiredYears: { min: 0, typical: 1, max: 2 },
+    keywords: ['junior', 'entry', 'entry level', 'associate', 'graduate', 'trainee', 'assistant', 'i'],
+  },
+  {
+    id: 'mid',
+    name: 'Mid-level',
+    requiredYears: { min: 2, typical: 3, max: 5 },
+    keywords: ['mid', 'mid level', 'intermediate', 'ii'],
+  },
+  {
+    id: 'senior',
+    name: 'Senior',
+    requiredYears: { min: 4, typical: 5, max: 8 },
+    keywords: ['senior', 'iii'],
+  },
+  {
+    id: 'lead',
+    name: 'Lead',
+    requiredYears: { min: 5, typical: 6, max: 10 },
+    keywords: ['lead', 'tech lead', 'team lead', 'iv'],
+  },
+  {
+    id: 'principal',
+    name: 'Principal / Staff',
+    requiredYears: { min: 7, typical: 8, max: 15 },
+    keywords: ['principal', 'staff', 'distinguished'],
+  },
+  {
+    id: 'manager',
+    name: 'Manager',
+    requiredYears: { min: 5, typical: 7, max: 12 },
+    keywords: ['manager', 'supervisor'],
+  },
+  {
+    id: 'director',
+    name: 'Director',
+    requiredYears: { min: 8, typical: 10, max: 20 },
+    keywords: ['director', 'head of'],
+  },
+  {
+    id: 'executive',
+    name: 'Executive',
+    requiredYears: { min: 10, typical: 12 },
+    keywords: ['vice president', 'chief', 'cto', 'ceo', 'cfo', 'coo', 'cio', 'president'],
+  },
+]
+
+/**
+ * Words that make the seniority keyword right after them less senior
+ * (e.g. "Assistant Manager", "Associate Director").
+ */
+export const seniorityQualifiers = ['assistant', 'associate', 'deputy']
+
+/**
+ * Level a qualified keyword's level becomes. Levels not listed drop one step
+ * on the ladder.
+ *
+ * Assumptions:
+ * - An assistant manager runs a shift or team under a manager, with mid-level experience
+ * - An associate director is a senior manager without a director's scope
+ * - An assistant or deputy vice president (a common banking title) is director-level
+ */
+export const qualifiedLevels: Partial<Record<SeniorityLevelId, SeniorityLevelId>> = {
+  manager: 'mid',
+  director: 'manager',
+  executive: 'director',
+}
+
+/**
+ * Phrases in which a seniority keyword means something else, ignored when
+ * looking for seniority keywords (the "lead" in "Lead Generation Specialist"
+ * is a sales prospect, not a team lead).
+ */
+export const nonSeniorityPhrases = ['lead generation', 'lead gen']
+
+/**
+ * Level used when no title keyword matches.
+ */
+export const DEFAULT_SENIORITY_LEVEL: SeniorityLevelId = 'mid'
+
+/**
+ * Role families.
+ *
+ * Families are checked in order; the first family with a matching keyword wins.
+ * More specific families are listed before broader ones.
+ */
+export const roleFamilies: RoleFamily[] = [
+  {
+    id: 'product',
+    name: 'Product & Project Management',
+    keywords: ['product manager', 'product owner', 'project manager', 'program manager'],
+    // "Manager" in these titles is a function, not people management
+    titleLevels: {
+      'associate product manager': 'entry',
+      'product manager': 'mid',
+      'product owner': 'mid',
+      'project manager': 'mid',
+      'program manager': 'mid',
+      'senior product manager': 'senior',
+      'senior project manager': 'senior',
+      'senior program manager': 'senior',
+      'group product manager': 'manager',
+    },
+  },
+  {
+    id: 'software-engineering',
+    name: 'Software Engineering',
+    keywords: ['software', 'developer', 'programmer', 'sde', 'swe', 'devops', 'site reliability', 'frontend', 'backend', 'full stack'],
+  },
+  {
+    id: 'data-ml',
+    name: 'Data & Machine Learning',
+    keywords: ['data scientist', 'data analyst', 'data engineer', 'machine learning', 'ml engineer', 'ai engineer', 'analytics'],
+  },
+  {
+    id: 'research',
+    name: 'Research & Academia',
+    keywords: ['research', 'researcher', 'phd', 'postdoc', 'professor', 'lecturer', 'scientist'],
+    titleLevels: {
+      'phd student': 'entry',
+      'research assistant': 'entry',
+      postdoc: 'mid',
+      'assistant professor': 'senior',
+      'associate professor': 'principal',
+      professor: 'principal',
+    },
+  },
+  {
+    id: 'design',
+    name: 'Design',
+    keywords: ['designer', 'ux', 'ui', 'user experience', 'product design'],
+  },
+  {
+    id: 'nursing',
+    name: 'Nursing',
+    keywords: ['nurse', 'nursing', 'rn'],
+    titleLevels: {
+      'registered nurse': 'entry',
+      'nurse practitioner': 'senior',
+      'charge nurse': 'lead',
+      'nurse manager': 'manager',
+    },
+    // Nurse practitioners need RN experience before their graduate program
+    requiredYears: {
+      senior: { min: 2, typical: 3, max: 6 },
+    },
+  },
+  {
+    id: 'medicine',
+    name: 'Medicine',
+    keywords: ['physician', 'doctor', 'surgeon', 'resident', 'attending'],
+    titleLevels: {
+      resident: 'entry',
+      attending: 'senior',
+      'attending physician': 'senior',
+      'chief resident': 'lead',
+    },
+  },
+  {
+    id: 'culinary',
+    name: 'Culinary',
+    keywords: ['chef', 'cook', 'culinary', 'kitchen'],
+    // Kitchen brigade titles: "head" and "executive" name kitchen ranks, not corporate ones
+    titleLevels: {
+      'line cook': 'entry',
+      'prep cook': 'entry',
+      'commis chef': 'entry',
+      'chef de partie': 'mid',
+      'sous chef': 'senior',
+      'head chef': 'lead',
+      'chef de cuisine': 'lead',
+      'executive chef': 'manager',
+    },
+  },
+  {
+    id: 'finance-accounting',
+    name: 'Finance & Accounting',
+    keywords: ['accountant', 'accounting', 'cpa', 'auditor', 'financial analyst', 'controller', 'finance'],
+    titleLevels: {
+      'staff accountant': 'entry',
+      'audit associate': 'entry',
+      'senior accountant': 'senior',
+      controller: 'director',
+    },
+  },
+  {
+    id: 'education',
+    name: 'Education',
+    keywords: ['teacher', 'educator', 'tutor', 'instructor'],
+    titleLevels: {
+      'head teacher': 'director',
+      'assistant teacher': 'entry',
+    },
+  },
+  {
+    id: 'sales-marketing',
+    name: 'Sales & Marketing',
+    keywords: ['sales', 'marketing', 'account executive', 'business development', 'growth'],
+    titleLevels: {
+      'account executive': 'mid',
+      'sales development representative': 'entry',
+      'account manager': 'mid',
+    },
+  },
+]
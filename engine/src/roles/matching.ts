@@ -0,0 +1,194 @@
+/**
+ * Role classification
+ *
+ * Normalizes a free-text job title and places it in the role catalog:
+ * a role family (if recognised) and a seniority level with its experience requirement.
+ */
+
+import type { RoleMatch } from '../models'
+import {
+  seniorityLevels,
+  roleFamilies,
+  DEFAULT_SENIORITY_LEVEL,
+  seniorityQualifiers,
+  qualifiedLevels,
+  nonSeniorityPhrases,
+} from './index'
+import type { RoleFamily, SeniorityLevel, SeniorityLevelId } from './index'
+
+/**
+ * Abbreviations expanded during normalization.
+ */
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: 'senior',
+  snr: 'senior',
+  jr: 'junior',
+  mgr: 'manager',
+  dir: 'director',
+  vp: 'vice president',
+  svp: 'vice president',
+  evp: 'vice president',
+  eng: 'engineer',
+  dev: 'developer',
+  ml: 'machine learning',
+}
+
+/**
+ * Normalizes a job title: lowercase, punctuation removed, abbreviations expanded.
+ * For example "Sr. Software Eng." becomes "senior software engineer".
+ */
+export function normalizeRoleTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9+#]+/)
+    .filter(word => word.length > 0)
+    .map(word => TITLE_ABBREVIATIONS[word] ?? word)
+    .join(' ')
+}
+
+/**
+ * Whether a normalized title contains a phrase as whole words.
+ */
+function containsPhrase(normalizedTitle: string, phrase: string): boolean {
+  return ` ${normalizedTitle} `.includes(` ${phrase} `)
+}
+
+/**
+ * Removes a phrase (as whole words) from a normalized title.
+ */
+function removePhrase(normalizedTitle: string, phrase: string): string {
+  return ` ${normalizedTitle} `.replace(` ${phrase} `, ' ').trim()
+}
+
+/** Position of each level on the ladder (higher is more senior) */
+const levelRank = new Map(seniorityLevels.map((level, index) => [level.id, index]))
+
+function getLevel(id: SeniorityLevelId): SeniorityLevel {
+  const level = seniorityLevels.find(candidate => candidate.id === id)
+  if (!level) {
+    throw new Error(`Unknown seniority level: ${id}`)
+  }
+  return level
+}
+
+/**
+ * Finds the most senior level whose keywords appear in the title.
+ *
+ * Phrases in `nonSeniorityPhrases` are ignored. A keyword right after a
+ * qualifier ("assistant manager") counts at its qualified level from
+ * `qualifiedLevels`, or one step down the ladder.
+ */
+function findKeywordLevel(normalizedTitle: string): { level: SeniorityLevel; keyword: string } | undefined {
+  let title = normalizedTitle
+  for (const phrase of nonSeniorityPhrases) {
+    while (containsPhrase(title, phrase)) {
+      title = removePhrase(title, phrase)
+    }
+  }
+
+  let best: { level: SeniorityLevel; keyword: string } | undefined
+  seniorityLevels.forEach((level, index) => {
+    // A keyword inside a longer one ("president" in "vice president") is not a match of its own
+    const found = level.keywords.filter(keyword => containsPhrase(title, keyword))
+    const keywords = found.filter(keyword => !found.some(other => other !== keyword && containsPhrase(other, keyword)))
+    for (const keyword of keywords) {
+      const qualifier = seniorityQualifiers.find(candidate => containsPhrase(title, `${candidate} ${keyword}`))
+      const match = qualifier
+        ? {
+            level: getLevel(qualifiedLevels[level.id] ?? seniorityLevels[Math.max(0, index - 1)].id),
+            keyword: `${qualifier} ${keyword}`,
+          }
+        : { level, keyword }
+      if (!best || (levelRank.get(match.level.id) ?? 0) > (levelRank.get(best.level.id) ?? 0)) {
+        best = match
+      }
+    }
+  })
+  return best
+}
+
+/**
+ * Finds the longest family title phrase that appears in the title.
+ */
+function findTitleLevel(
+  normalizedTitle: string,
+  family: RoleFamily | undefined
+): { phrase: string; levelId: SeniorityLevelId } | undefined {
+  if (!family?.titleLevels) return undefined
+
+  let best: { phrase: string; levelId: SeniorityLevelId } | undefined
+  for (const [phrase, levelId] of Object.entries(family.titleLevels)) {
+    if (containsPhrase(normalizedTitle, phrase) && (!best || phrase.length > best.phrase.length)) {
+      best = { phrase, levelId }
+    }
+  }
+  return best
+}
+
+/**
+ * Classifies a job title into a role family and seniority level.
+ *
+ * Precedence, applied in this order:
+ * 1. Family: the first family in `roleFamilies` with a keyword in the title
+ * 2. Family title phrase: the longest phrase from the family's `titleLevels`
+ *    (e.g. "head chef") sets the level and is removed from the title
+ * 3. Seniority keywords in the rest of the title: the most senior match wins
+ *    (e.g. "senior director" is a director), a qualifier lowers the keyword after
+ *    it (e.g. "associate director" is a manager) and phrases such as "lead
+ *    generation" are ignored; it only applies if it is more senior than the
+ *    level from step 2
+ * 4. Default: mid-level
+ *
+ * Experience requirements come from the family's `requiredYears` for that level
+ * if it defines one, otherwise from the general ladder.
+ */
+export function classifyRole(title: string): RoleMatch {
+  const normalizedTitle = normalizeRoleTitle(title)
+  const family = roleFamilies.find(candidate =>
+    candidate.keywords.some(keyword => containsPhrase(normalizedTitle, keyword))
+  )
+
+  const titleLevel = findTitleLevel(normalizedTitle, family)
+  const remainingTitle = titleLevel ? removePhrase(normalizedTitle, titleLevel.phrase) : normalizedTitle
+  const keywordLevel = findKeywordLevel(remainingTitle)
+
+  let level: SeniorityLevel
+  let method: RoleMatch['method']
+  let matchedPhrase: string | undefined
+  let reason: string
+
+  if (
+    keywordLevel &&
+    (!titleLevel || (levelRank.get(keywordLevel.level.id) ?? 0) > (levelRank.get(titleLevel.levelId) ?? 0))
+  ) {
+    level = keywordLevel.level
+    method = 'keyword'
+    matchedPhrase = keywordLevel.keyword
+    reason = `the title contains "${keywordLevel.keyword}"`
+  } else if (titleLevel) {
+    level = getLevel(titleLevel.levelId)
+    method = 'title'
+    matchedPhrase = titleLevel.phrase
+    reason = `"${titleLevel.phrase}" is a ${level.name.toLowerCase()} title in ${family?.name}`
+  } else {
+    level = getLevel(DEFAULT_SENIORITY_LEVEL)
+    method = 'default'
+    reason = 'no seniority keyword was found, so mid-level is assumed'
+  }
+
+  const familyYears = family?.requiredYears?.[level.id]
+  const requiredYears = familyYears ?? level.requiredYears
+  const yearsSource = familyYears ? `${family?.name} requirement` : 'general ladder'
+
+  return {
+    title,
+    normalizedTitle,
+    family: family ? { id: family.id, name: family.name } : undefined,
+    level: { id: level.id, name: level.name },
+    requiredYears: { ...requiredYears },
+    method,
+    matchedPhrase,
+    explanation: `Classified as ${level.name}${family ? ` (${family.name})` : ''} because ${reason}; typically needs ${requiredYears.typical} years of relevant experience (${yearsSource}).`,
+  }
+}
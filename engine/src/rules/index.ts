@@ -1,21 +1,147 @@
 /**
  * Rules module
- * 
+ *
  * This module contains all rule definitions for career assessments.
  * Rules should be pure functions that are easy to understand and audit.
+ *
+ * The evaluator does not hardcode any scoring or warning logic. Instead it runs
+ * the rules registered in a `RuleSet`, in order:
+ * 1. Score rules produce one component score each (0-100)
+ * 2. Warning rules inspect the scores and probability bands and raise warnings
+ *
+ * To add, remove or replace a rule, pass a custom `RuleSet` to the `Evaluator`
+ * constructor. The default rules are exported so they can be reused as a base.
  */
 
-export interface Rule {
+import type {
+  UserProfile,
+  CareerGoal,
+  ProbabilityBandResult,
+  Warning,
+  SkillGap,
+  SkillMatch,
+  RoleMatch,
+  RealityCheckResult,
+} from '../models'
+import type { CareerScenario } from '../scenarios'
+import type { EvaluatorConfig } from '../config'
+import type { MarketSnapshot } from '../market'
+import type { LocationAnalysis } from '../locations'
+import type { SalaryEstimate } from '../salary'
+import type { ExplanationTrace } from '../explanation'
+import type { CareerTimeline, StaleSkill } from '../time'
+import { scoreRules } from './scoring'
+import { warningRules } from './warnings'
+
+/**
+ * A single, named rule.
+ * Each rule is a pure function from a typed context to a result.
+ */
+export interface Rule<TContext = RuleContext, TResult = number> {
+  /** Unique identifier for the rule (reported in result metadata when it fires) */
   id: string
+  /** Human-readable name of the rule */
   name: string
-  evaluate: (context: unknown) => number
+  /**
+   * Version of the rule's logic, starting at 1. Bump it whenever the rule can
+   * return something different for the same context: the ruleset hash in result
+   * metadata covers rule IDs and versions, not the code.
+   */
+  version: number
+  /**
+   * Pure evaluation function.
+   * The trace records inputs, intermediate values, branches and the formula for
+   * the result's `explanation`; rules that record nothing still work.
+   */
+  evaluate: (context: TContext, trace: ExplanationTrace) => TResult
+}
+
+/**
+ * Keys of the score breakdown that a score rule can populate.
+ */
+export type ScoreKey = keyof RealityCheckResult['scoreBreakdown']
+
+/**
+ * Context available to every rule.
+ * Derived values are computed once by the evaluator so rules stay pure and cheap.
+ * Rules never read the clock: time-dependent values come from `careerTimeline`.
+ */
+export interface RuleContext {
+  /** User profile being evaluated */
+  profile: UserProfile
+  /** Career goal being evaluated */
+  goal: CareerGoal
+  /** Scenario selected for this evaluation (undefined if none matched) */
+  scenario?: CareerScenario
+  /** Role family, seniority level and experience requirement of the target role */
+  role: RoleMatch
+  /** Market conditions for the role, industry and country (undefined if no data) */
+  market?: MarketSnapshot
+  /** How the user's location and target location affect the evaluation */
+  location: LocationAnalysis
+  /** Salary percentiles for the user's experience and target region (undefined without salary data) */
+  salary?: SalaryEstimate
+  /** Which user skill matched each of the scenario's skill requirements */
+  skillMatches: SkillMatch[]
+  /** Skill gaps identified between the profile and the goal */
+  skillGaps: SkillGap[]
+  /** Additional years of relevant experience needed (0 if the user has enough) */
+  experienceGapYears: number
+  /** Graduation measured against the evaluation time */
+  careerTimeline: CareerTimeline
+  /** Skills whose proficiency decayed (the profile's skills are already decayed) */
+  staleSkills: StaleSkill[]
+  /** Numeric assumptions in use (weights, multipliers, available hours) */
+  config: EvaluatorConfig
+}
+
+/**
+ * Context available to warning rules.
+ * Warning rules run after scoring, so they can see all scores and probability bands.
+ */
+export interface WarningRuleContext extends RuleContext {
+  /** Component scores produced by the score rules */
+  scores: RealityCheckResult['scoreBreakdown']
+  /** Probability bands calculated from the scores */
+  probabilityBands: {
+    best: ProbabilityBandResult
+    average: ProbabilityBandResult
+    worst: ProbabilityBandResult
+  }
+}
+
+/**
+ * A rule that produces one component score (0-100).
+ * Optional scores (such as `marketScore`) may return undefined when there is no
+ * data to calculate them; they are then left out of the overall score.
+ */
+export interface ScoreRule extends Rule<RuleContext, number | undefined> {
+  /** Which score in the breakdown this rule populates */
+  scoreKey: ScoreKey
 }
 
 /**
- * Placeholder for rule definitions
- * Rules will be implemented here as pure functions
+ * A rule that raises zero or more warnings.
+ * A warning rule "fires" when it returns at least one warning.
  */
-export const rules: Rule[] = []
+export type WarningRule = Rule<WarningRuleContext, Warning[]>
 
+/**
+ * The ordered collection of rules run by the evaluator.
+ */
+export interface RuleSet {
+  /** Score rules, run in order */
+  scoreRules: ScoreRule[]
+  /** Warning rules, run in order (warnings appear in the result in this order) */
+  warningRules: WarningRule[]
+}
 
+/**
+ * Default rule set used when no custom rules are provided.
+ */
+export const defaultRuleSet: RuleSet = {
+  scoreRules,
+  warningRules,
+}
 
+export { scoreRules, warningRules }
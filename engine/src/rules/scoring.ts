@@ -0,0 +1,396 @@
+/**
+ * Score rules
+ *
+ * Each rule calculates one component score (0-100), where 100 means perfect match.
+ * The evaluator combines these component scores into the overall score.
+ */
+
+import { creditedRelevantYears } from '../time/analysis'
+import type { ScoreRule } from './index'
+
+/**
+ * Calculates how well the user's experience matches the career goal.
+ *
+ * Scoring logic:
+ * - If user has MORE than enough experience: 100 points
+ * - If user has ENOUGH experience: 80-100 points (based on exact match)
+ * - If user has SOME relevant experience: 40-80 points
+ * - If user has NO relevant experience: 0-40 points
+ *
+ * Required years come from the role catalog (see `classifyRole`): most roles
+ * need 2-5 years, senior roles 5+, entry-level 0-2. Recent graduates meet the
+ * typical requirement of roles that need no experience (see `creditedRelevantYears`).
+ */
+export const experienceScoreRule: ScoreRule = {
+  id: 'experience-score',
+  name: 'Experience match',
+  version: 1,
+  scoreKey: 'experienceScore',
+  evaluate: ({ profile, role, careerTimeline }, trace) => {
+    const relevantYears = creditedRelevantYears(profile.experience, role.requiredYears, careerTimeline)
+    const totalYears = profile.experience.totalYears
+
+    // How much experience is typically needed for this role
+    const requiredYears = role.requiredYears.typical
+    trace.input('relevantYears', profile.experience.relevantYears)
+    trace.input('totalYears', totalYears)
+    trace.input('requiredYears', requiredYears)
+    trace.input('roleLevel', role.level.name)
+    trace.input('yearsSinceGraduation', careerTimeline.yearsSinceGraduation)
+    if (relevantYears > profile.experience.relevantYears) {
+      trace.branch('Recent graduate for a role that needs no experience: credited with requiredYears')
+      trace.intermediate('creditedRelevantYears', relevantYears)
+    }
+
+    // Score calculation: compare user's relevant experience to required experience
+    if (relevantYears >= requiredYears) {
+      // User has enough or more than enough experience
+      // Perfect match gets 100, having more gets slight bonus
+      trace.branch('relevantYears >= requiredYears')
+      trace.formula('min(100, 80 + min(20, (relevantYears - requiredYears) * 5))')
+      return Math.min(100, 80 + Math.min(20, (relevantYears - requiredYears) * 5))
+    } else if (relevantYears >= requiredYears * 0.5) {
+      // User has some relevant experience (50%+ of required)
+      // Score between 40-80 based on how close they are
+      const ratio = relevantYears / requiredYears
+      trace.branch('relevantYears >= requiredYears * 0.5')
+      trace.intermediate('ratio', Math.round(ratio * 100) / 100)
+      trace.formula('round(40 + (ratio - 0.5) * 80), where ratio = relevantYears / requiredYears')
+      return Math.round(40 + (ratio - 0.5) * 80) // Maps 0.5 to 40, 1.0 to 80
+    } else if (relevantYears > 0) {
+      // User has a little relevant experience (less than 50% of required)
+      // Score between 0-40
+      const ratio = relevantYears / (requiredYears * 0.5)
+      trace.branch('0 < relevantYears < requiredYears * 0.5')
+      trace.intermediate('ratio', Math.round(ratio * 100) / 100)
+      trace.formula('round(ratio * 40), where ratio = relevantYears / (requiredYears * 0.5)')
+      return Math.round(ratio * 40)
+    } else {
+      // User has no relevant experience
+      // Give some points if they have general work experience (shows work ethic)
+      trace.branch('relevantYears = 0')
+      if (totalYears > 0) {
+        trace.branch('totalYears > 0: up to 20 points for general experience')
+        trace.formula('min(20, totalYears * 5)')
+        return Math.min(20, totalYears * 5) // Up to 20 points for general experience
+      }
+      trace.formula('0')
+      return 0
+    }
+  },
+}
+
+/**
+ * Calculates how well the user's skills match the career goal.
+ *
+ * This is a simplified version that assumes:
+ * - Most roles need skills at proficiency level 3-4 (intermediate to advanced)
+ * - Having the right skills is crucial (50% of skill score)
+ * - Skill level matters (50% of skill score)
+ *
+ * In a real implementation, you would have a database of required skills per role.
+ */
+export const skillScoreRule: ScoreRule = {
+  id: 'skill-score',
+  name: 'Skill match',
+  version: 1,
+  scoreKey: 'skillScore',
+  evaluate: ({ profile }, trace) => {
+    // For this implementation, we use a simple heuristic:
+    // If user has skills listed, assume they're somewhat relevant
+    // In reality, you'd match specific skills to the role
+    trace.input('skillCount', profile.skills.length)
+
+    if (profile.skills.length === 0) {
+      trace.branch('No skills listed')
+      trace.formula('0')
+      return 0 // No skills = 0 score
+    }
+
+    // Calculate average proficiency
+    const avgProficiency = profile.skills.reduce((sum, skill) => sum + skill.proficiency, 0) / profile.skills.length
+    trace.intermediate('avgProficiency', Math.round(avgProficiency * 100) / 100)
+
+    // Most roles need proficiency level 3-4
+    // If user has level 3-4: full points
+    // If user has level 5: bonus points
+    // If user has level 1-2: partial points
+    let proficiencyScore = 0
+    if (avgProficiency >= 4) {
+      proficiencyScore = 100 // Expert level
+    } else if (avgProficiency >= 3) {
+      proficiencyScore = 80 // Good level
+    } else if (avgProficiency >= 2) {
+      proficiencyScore = 50 // Basic level
+    } else if (avgProficiency >= 1) {
+      proficiencyScore = 25 // Beginner level
+    }
+    trace.branch(
+      avgProficiency >= 4
+        ? 'avgProficiency >= 4: 100 points'
+        : avgProficiency >= 3
+        ? 'avgProficiency >= 3: 80 points'
+        : avgProficiency >= 2
+        ? 'avgProficiency >= 2: 50 points'
+        : avgProficiency >= 1
+        ? 'avgProficiency >= 1: 25 points'
+        : 'avgProficiency < 1: 0 points'
+    )
+    trace.intermediate('proficiencyScore', proficiencyScore)
+
+    // Having multiple skills is also valuable (shows breadth)
+    // But we cap this bonus to avoid over-weighting
+    const skillCountBonus = Math.min(20, profile.skills.length * 2)
+    trace.intermediate('skillCountBonus', skillCountBonus)
+    trace.formula('min(100, proficiencyScore + skillCountBonus), where skillCountBonus = min(20, skillCount * 2)')
+
+    return Math.min(100, proficiencyScore + skillCountBonus)
+  },
+}
+
+/**
+ * Calculates how well the user's education matches the career goal.
+ *
+ * Scoring logic:
+ * - Bachelor's degree is standard for most professional roles: 80 points
+ * - Master's degree or higher: 100 points
+ * - Associate's degree: 60 points
+ * - High school only: 40 points
+ * - No education: 0 points
+ *
+ * Field of study match adds bonus points (up to +20).
+ */
+export const educationScoreRule: ScoreRule = {
+  id: 'education-score',
+  name: 'Education match',
+  version: 1,
+  scoreKey: 'educationScore',
+  evaluate: ({ profile, goal }, trace) => {
+    const education = profile.education
+    let baseScore = 0
+    trace.input('educationLevel', education.level)
+    trace.input('field', education.field)
+    trace.input('targetIndustry', goal.targetIndustry)
+
+    // Base score based on education level
+    switch (education.level) {
+      case 'doctorate':
+        baseScore = 100
+        break
+      case 'masters':
+        baseScore = 100
+        break
+      case 'bachelors':
+        baseScore = 80 // Standard for most professional roles
+        break
+      case 'associates':
+        baseScore = 60
+        break
+      case 'high_school':
+        baseScore = 40
+        break
+      case 'none':
+        baseScore = 0
+        break
+    }
+    trace.intermediate('baseScore', baseScore)
+
+    // Bonus for field of study match (if specified)
+    // In reality, you'd have a mapping of fields to industries
+    let fieldBonus = 0
+    if (education.field && goal.targetIndustry) {
+      // Simple heuristic: if field contains industry keywords, it's a match
+      const fieldLower = education.field.toLowerCase()
+      const industryLower = goal.targetIndustry.toLowerCase()
+
+      // Check for common matches (e.g., "computer science" matches "technology")
+      if (
+        (fieldLower.includes('computer') || fieldLower.includes('software') || fieldLower.includes('tech')) &&
+        (industryLower.includes('tech') || industryLower.includes('software') || industryLower.includes('it'))
+      ) {
+        fieldBonus = 20
+        trace.branch('Technology field for a technology industry')
+      } else if (
+        (fieldLower.includes('business') || fieldLower.includes('management') || fieldLower.includes('finance')) &&
+        (industryLower.includes('business') || industryLower.includes('finance') || industryLower.includes('consulting'))
+      ) {
+        fieldBonus = 20
+        trace.branch('Business field for a business industry')
+      } else if (fieldLower.includes(industryLower) || industryLower.includes(fieldLower)) {
+        fieldBonus = 15 // Partial match
+        trace.branch('Field and industry names overlap (partial match)')
+      } else {
+        trace.branch('Field does not match the industry')
+      }
+    } else {
+      trace.branch('No field of study or industry to compare')
+    }
+    trace.intermediate('fieldBonus', fieldBonus)
+    trace.formula('min(100, baseScore + fieldBonus)')
+
+    return Math.min(100, baseScore + fieldBonus)
+  },
+}
+
+/**
+ * Calculates how realistic the timeline is given the user's current situation.
+ *
+ * Scoring logic:
+ * - If user already has most requirements: timeline is very feasible (high score)
+ * - If user needs to learn new skills: timeline must account for learning time
+ * - If user needs significant experience: timeline must account for gaining experience
+ *
+ * We estimate:
+ * - Learning a new skill to proficiency 3: 3-6 months
+ * - Gaining 1 year of experience: 12 months (can't be accelerated)
+ * - Career change (new industry): +6-12 months
+ * - Relocation and local job density: months from the regional dataset
+ */
+export const timelineScoreRule: ScoreRule = {
+  id: 'timeline-score',
+  name: 'Timeline feasibility',
+  version: 1,
+  scoreKey: 'timelineScore',
+  evaluate: ({ profile, goal, skillGaps, experienceGapYears, location }, trace) => {
+    const targetMonths = goal.timeline.targetMonths
+    trace.input('targetMonths', targetMonths)
+    trace.input('experienceGapYears', experienceGapYears)
+    trace.input('skillGapCount', skillGaps.length)
+    trace.input('relevantYears', profile.experience.relevantYears)
+    trace.input('relocationMonths', location.relocationMonths)
+    trace.input('jobDensityMonths', location.jobDensityMonths)
+
+    // Estimate minimum realistic timeline based on gaps
+    let minimumRealisticMonths = 0
+    trace.formula(
+      'minimumRealisticMonths = max(2, experienceGapYears * 12 + totalSkillMonths + careerChangeMonths) + relocationMonths + jobDensityMonths'
+    )
+
+    // Time needed to gain experience
+    minimumRealisticMonths += experienceGapYears * 12 // Each year of experience needs 12 months
+
+    // Time needed to learn skills
+    const totalSkillMonths = skillGaps.reduce((sum, gap) => {
+      return sum + (gap.estimatedTimeToAcquireMonths || 3) // Default 3 months per skill
+    }, 0)
+    minimumRealisticMonths += totalSkillMonths
+    trace.intermediate('totalSkillMonths', totalSkillMonths)
+
+    // Career change penalty (switching industries takes longer)
+    const isCareerChange = profile.experience.relevantYears < 1
+    if (isCareerChange) {
+      minimumRealisticMonths += 6 // Add 6 months for career change
+    }
+    trace.intermediate('careerChangeMonths', isCareerChange ? 6 : 0)
+
+    // If no gaps, minimum is still 1-2 months (job search time)
+    if (minimumRealisticMonths < 2) {
+      minimumRealisticMonths = 2
+    }
+
+    // Relocation and local job density (see locations/analysis.ts)
+    minimumRealisticMonths = Math.max(
+      2,
+      minimumRealisticMonths + location.relocationMonths + location.jobDensityMonths
+    )
+    trace.intermediate('minimumRealisticMonths', minimumRealisticMonths)
+
+    // Score calculation: compare target timeline to minimum realistic timeline
+    const ratio = targetMonths / minimumRealisticMonths
+    trace.intermediate('ratio', Math.round(ratio * 100) / 100)
+    trace.formula('ratio = targetMonths / minimumRealisticMonths')
+    if (targetMonths >= minimumRealisticMonths * 1.5) {
+      // Very realistic timeline (50%+ buffer)
+      trace.branch('targetMonths >= minimumRealisticMonths * 1.5 (very realistic)')
+      trace.formula('score = 100')
+      return 100
+    } else if (targetMonths >= minimumRealisticMonths) {
+      // Realistic timeline (meets minimum)
+      // Score based on how close to minimum (closer = lower score, but still good)
+      trace.branch('targetMonths >= minimumRealisticMonths (realistic)')
+      trace.formula('score = round(70 + (ratio - 1) * 20)')
+      return Math.round(70 + (ratio - 1) * 20) // Maps 1.0 to 70, 1.5 to 100
+    } else if (targetMonths >= minimumRealisticMonths * 0.7) {
+      // Tight but possible timeline (70-100% of minimum)
+      trace.branch('targetMonths >= minimumRealisticMonths * 0.7 (tight but possible)')
+      trace.formula('score = round(40 + (ratio - 0.7) * 100)')
+      return Math.round(40 + (ratio - 0.7) * 100) // Maps 0.7 to 40, 1.0 to 70
+    } else {
+      // Unrealistic timeline (less than 70% of minimum)
+      trace.branch('targetMonths < minimumRealisticMonths * 0.7 (unrealistic)')
+      trace.formula('score = round(ratio * 57)')
+      return Math.round(ratio * 57) // Maps 0 to 0, 0.7 to 40
+    }
+  },
+}
+
+/**
+ * Calculates how favorable job market conditions are for the target role.
+ *
+ * Scoring logic (market data from the evaluator's market data provider):
+ * - Start from the demand index (0-100, where 50 means balanced)
+ * - Competition: fewer than 25 applicants per opening adds 10 points,
+ *   75-150 subtracts 10, 150 or more subtracts 20
+ * - Hiring trend: growing adds 10 points, declining subtracts 10
+ *
+ * Returns undefined when there is no market data for the role or industry.
+ */
+export const marketScoreRule: ScoreRule = {
+  id: 'market-score',
+  name: 'Market conditions',
+  version: 1,
+  scoreKey: 'marketScore',
+  evaluate: ({ market }, trace) => {
+    if (!market) {
+      trace.branch('No market data for the role or industry')
+      return undefined
+    }
+
+    let score = market.demandIndex
+    trace.input('demandIndex', market.demandIndex)
+    trace.input('applicantsPerOpening', market.applicantsPerOpening)
+    trace.input('hiringTrend', market.hiringTrend)
+    trace.input('source', market.source)
+
+    // Competition for each opening
+    let competitionAdjustment = 0
+    if (market.applicantsPerOpening < 25) {
+      competitionAdjustment = 10
+      trace.branch('applicantsPerOpening < 25: +10')
+    } else if (market.applicantsPerOpening >= 150) {
+      competitionAdjustment = -20
+      trace.branch('applicantsPerOpening >= 150: -20')
+    } else if (market.applicantsPerOpening >= 75) {
+      competitionAdjustment = -10
+      trace.branch('applicantsPerOpening >= 75: -10')
+    }
+    score += competitionAdjustment
+    trace.intermediate('competitionAdjustment', competitionAdjustment)
+
+    // Direction of hiring
+    let trendAdjustment = 0
+    if (market.hiringTrend === 'growing') {
+      trendAdjustment = 10
+      trace.branch('Hiring is growing: +10')
+    } else if (market.hiringTrend === 'declining') {
+      trendAdjustment = -10
+      trace.branch('Hiring is declining: -10')
+    }
+    score += trendAdjustment
+    trace.intermediate('trendAdjustment', trendAdjustment)
+    trace.formula('clamp(round(demandIndex + competitionAdjustment + trendAdjustment), 0, 100)')
+
+    return Math.max(0, Math.min(100, Math.round(score)))
+  },
+}
+
+/**
+ * Default score rules, in evaluation order.
+ */
+export const scoreRules: ScoreRule[] = [
+  experienceScoreRule,
+  skillScoreRule,
+  educationScoreRule,
+  timelineScoreRule,
+  marketScoreRule,
+]
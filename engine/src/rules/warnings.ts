@@ -0,0 +1,678 @@
+/**
+ * Warning rules
+ *
+ * Each rule checks one concern and returns the warnings it raises (possibly none).
+ *
+ * Warnings are raised when:
+ * - Timeline is unrealistic
+ * - Experience gaps are too large
+ * - Skill gaps are critical
+ * - Education requirements not met
+ * - Time availability doesn't match requirements
+ * - Expectations don't match statistical averages
+ * - Salary expectations don't match the market
+ * - Skill mismatch risks are high
+ * - The job market for the role is saturated
+ */
+
+import type { Warning } from '../models'
+import type { WarningRule } from './index'
+
+/**
+ * Raised when the timeline score is very low.
+ */
+export const timelineWarningRule: WarningRule = {
+  id: 'timeline-unrealistic',
+  name: 'Unrealistic timeline',
+  version: 1,
+  evaluate: ({ goal, scores }, trace) => {
+    trace.input('timelineScore', scores.timelineScore)
+    if (scores.timelineScore >= 40) return []
+    trace.branch('timelineScore < 40')
+
+    return [
+      {
+        flag: 'timeline_unrealistic',
+        message: `Your target timeline of ${goal.timeline.targetMonths} months may be unrealistic given your current profile. Consider extending your timeline.`,
+        severity: 3, // High severity
+        suggestedActions: [
+          'Review and adjust your timeline expectations',
+          'Break down your goal into smaller milestones',
+          'Consider a phased approach to your career transition',
+        ],
+      },
+    ]
+  },
+}
+
+/**
+ * Raised when the experience score is very low.
+ */
+export const experienceWarningRule: WarningRule = {
+  id: 'insufficient-experience',
+  name: 'Insufficient experience',
+  version: 1,
+  evaluate: ({ profile, goal, scores }, trace) => {
+    trace.input('experienceScore', scores.experienceScore)
+    if (scores.experienceScore >= 40) return []
+    trace.branch('experienceScore < 40')
+
+    return [
+      {
+        flag: 'insufficient_experience',
+        message: 'You have insufficient relevant experience for this role. Significant experience building will be required.',
+        severity: 3,
+        context: {
+          relevantYears: profile.experience.relevantYears,
+          targetRole: goal.targetRole,
+        },
+        suggestedActions: [
+          'Consider targeting a more junior role first',
+          'Focus on gaining relevant experience through projects',
+          'Look for opportunities to work in related roles',
+        ],
+      },
+    ]
+  },
+}
+
+/**
+ * Raised when the skill score is very low.
+ */
+export const skillGapWarningRule: WarningRule = {
+  id: 'skill-gap',
+  name: 'Significant skill gaps',
+  version: 1,
+  evaluate: ({ scores }, trace) => {
+    trace.input('skillScore', scores.skillScore)
+    if (scores.skillScore >= 40) return []
+    trace.branch('skillScore < 40')
+
+    return [
+      {
+        flag: 'skill_gap_detected',
+        message: 'Significant skill gaps detected. You will need to invest substantial time in skill development.',
+        severity: 3,
+        suggestedActions: [
+          'Identify critical skills needed for the role',
+          'Create a learning plan with timelines',
+          'Practice skills through real projects',
+        ],
+      },
+    ]
+  },
+}
+
+/**
+ * Raised when the education score is very low.
+ */
+export const educationWarningRule: WarningRule = {
+  id: 'education-mismatch',
+  name: 'Education requirement mismatch',
+  version: 1,
+  evaluate: ({ scores }, trace) => {
+    trace.input('educationScore', scores.educationScore)
+    if (scores.educationScore >= 40) return []
+    trace.branch('educationScore < 40')
+
+    return [
+      {
+        flag: 'education_requirement_mismatch',
+        message: 'Your education level may not meet typical requirements for this role.',
+        severity: 2, // Medium severity (some roles are flexible)
+        suggestedActions: [
+          'Research if the role truly requires higher education',
+          'Consider certifications or alternative credentials',
+          'Highlight relevant experience to compensate',
+        ],
+      },
+    ]
+  },
+}
+
+/**
+ * Raised when the user has less than one year of relevant experience (career change).
+ */
+export const careerChangeWarningRule: WarningRule = {
+  id: 'career-change',
+  name: 'Significant career change',
+  version: 1,
+  evaluate: ({ profile, goal }, trace) => {
+    trace.input('relevantYears', profile.experience.relevantYears)
+    trace.input('targetIndustry', goal.targetIndustry)
+    if (profile.experience.relevantYears >= 1 || !goal.targetIndustry) return []
+    trace.branch('relevantYears < 1 with a target industry')
+
+    return [
+      {
+        flag: 'career_path_unclear',
+        message: 'You are attempting a significant career change. This will require more time and effort than a typical transition.',
+        severity: 2,
+        suggestedActions: [
+          'Research the target industry thoroughly',
+          'Network with people already in the field',
+          'Consider informational interviews',
+          'Build relevant experience gradually',
+        ],
+      },
+    ]
+  },
+}
+
+/**
+ * Raised when the goal requires a specific location and the user is not flexible.
+ * When the move can be placed in the regional dataset, the warning states how long
+ * it adds to the timeline; moving to another country is a medium-severity concern.
+ */
+export const locationWarningRule: WarningRule = {
+  id: 'location-constraint',
+  name: 'Location constraint',
+  version: 1,
+  evaluate: ({ profile, goal, location }, trace) => {
+    trace.input('targetLocation', goal.requirements?.targetLocation)
+    trace.input('isFlexible', profile.location?.isFlexible ?? false)
+    if (!goal.requirements?.targetLocation || profile.location?.isFlexible) return []
+    trace.branch('Target location required and location is not flexible')
+
+    const { current, target, relocationRequired, relocationMonths } = location
+    trace.input('relocationRequired', relocationRequired)
+    trace.input('relocationMonths', relocationMonths)
+    if (relocationRequired && current && target) {
+      const international = current.country !== target.country
+      trace.branch(international ? 'Relocation to another country: severity 2' : 'Relocation within the country: severity 1')
+      return [
+        {
+          flag: 'location_constraint',
+          message: `Working in ${target.name} means moving from ${current.name}, which adds about ${relocationMonths} month${relocationMonths === 1 ? '' : 's'} to your timeline${international ? ', including time for a work permit' : ''}. Make sure relocation is actually possible for you.`,
+          severity: international ? 2 : 1,
+          context: {
+            currentLocation: current.name,
+            targetLocation: target.name,
+            relocationMonths,
+            jobDensityIndex: target.jobDensityIndex,
+            costOfLivingIndex: target.costOfLivingIndex,
+          },
+          suggestedActions: [
+            `Research the job market and living costs in ${target.name}`,
+            'Consider remote work options if available',
+            international
+              ? 'Check visa and work permit requirements before applying'
+              : 'Budget for moving costs and a possible gap between jobs',
+          ],
+        },
+      ]
+    }
+
+    trace.branch('Move could not be placed in the regional dataset: severity 1')
+    return [
+      {
+        flag: 'location_constraint',
+        message: 'Your location requirement may limit opportunities. Consider if relocation is possible.',
+        severity: 1, // Low severity (personal choice)
+        suggestedActions: [
+          'Research job market in your target location',
+          'Consider remote work options if available',
+          'Evaluate if relocation is feasible',
+        ],
+      },
+    ]
+  },
+}
+
+/**
+ * Raised when the goal requires remote-only positions.
+ */
+export const remoteOnlyWarningRule: WarningRule = {
+  id: 'remote-only-competition',
+  name: 'Remote-only competition',
+  version: 1,
+  evaluate: ({ goal }, trace) => {
+    trace.input('remoteOnly', goal.requirements?.remoteOnly ?? false)
+    if (!goal.requirements?.remoteOnly) return []
+    trace.branch('Remote-only positions required')
+
+    return [
+      {
+        flag: 'competition_level_high',
+        message: 'Remote-only positions are highly competitive. You may face more competition.',
+        severity: 2,
+        suggestedActions: [
+          'Consider hybrid or on-site options to increase opportunities',
+          'Strengthen your remote work skills and portfolio',
+          'Be prepared for a longer job search',
+        ],
+      },
+    ]
+  },
+}
+
+/**
+ * Checks if user's available time matches required time for the career goal.
+ *
+ * This warning is triggered when:
+ * - User is employed full-time but needs 4+ hours/day
+ * - User is unemployed but timeline suggests they're not allocating enough time
+ * - Required hours exceed what's realistically sustainable
+ */
+export const timeAvailabilityWarningRule: WarningRule = {
+  id: 'time-availability',
+  name: 'Time availability',
+  version: 1,
+  evaluate: ({ profile, probabilityBands, config }, trace) => {
+    const requiredHours = probabilityBands.average.requiredDailyHours
+    const isEmployed = profile.employmentStatus === 'employed'
+
+    // Estimate available hours based on employment status (from the config)
+    // Default: full-time employed people have 2-4 hours after work (8h work + 1h
+    // commute + 1h meals = 10h), so 3 is a conservative estimate; unemployed
+    // people can realistically do 6-8 hours, students 4-5, self-employed 3-4
+    const availableHours = config.availableHours[profile.employmentStatus]
+    trace.input('requiredHours', requiredHours)
+    trace.input('employmentStatus', profile.employmentStatus)
+    trace.input('availableHours', availableHours)
+
+    // Check if required hours exceed available hours
+    // More than 20% over available time is a warning
+    if (requiredHours <= availableHours * 1.2) return []
+    trace.branch('requiredHours > availableHours * 1.2')
+
+    const hoursOver = Math.round((requiredHours - availableHours) * 10) / 10
+    trace.intermediate('hoursShortfall', hoursOver)
+    trace.formula('hoursShortfall = requiredHours - availableHours')
+
+    let message = ''
+    let severity: 1 | 2 | 3 = 2
+
+    if (isEmployed && requiredHours > 5) {
+      message = `You need ${requiredHours} hours per day, but as a full-time employee, you likely only have ${availableHours} hours available. This is ${hoursOver} hours more than realistic. You may need to reduce your current job commitment or extend your timeline.`
+      severity = 3 // High severity - very difficult to sustain
+      trace.branch('Employed and requiredHours > 5: severity 3')
+    } else if (requiredHours > 8) {
+      message = `You need ${requiredHours} hours per day, which exceeds a sustainable 8-hour workday. This level of commitment is difficult to maintain long-term and may lead to burnout. Consider extending your timeline to reduce daily requirements.`
+      severity = 3
+      trace.branch('requiredHours > 8: severity 3')
+    } else {
+      message = `You need ${requiredHours} hours per day, but based on your current situation (${profile.employmentStatus}), you likely have approximately ${availableHours} hours available. You're ${hoursOver} hours short per day, which could significantly impact your progress.`
+      severity = requiredHours > availableHours * 1.5 ? 3 : 2
+      trace.branch(
+        severity === 3 ? 'requiredHours > availableHours * 1.5: severity 3' : 'requiredHours <= availableHours * 1.5: severity 2'
+      )
+    }
+
+    return [
+      {
+        flag: 'resource_constraint',
+        message,
+        severity,
+        context: {
+          requiredHours,
+          availableHours,
+          employmentStatus: profile.employmentStatus,
+          hoursShortfall: hoursOver,
+        },
+        suggestedActions: [
+          isEmployed
+            ? 'Consider reducing work hours or taking a sabbatical if financially feasible'
+            : 'Review your daily schedule to identify time blocks for career development',
+          'Break down learning into smaller, more manageable daily chunks',
+          'Consider extending your timeline to reduce daily time pressure',
+          'Use time-blocking techniques to maximize productivity during available hours',
+        ],
+      },
+    ]
+  },
+}
+
+/**
+ * Compares user's timeline expectations against statistical averages from scenarios.
+ *
+ * This warning is triggered when:
+ * - User's timeline is significantly shorter than average for similar roles
+ *
+ * Salary expectations are checked separately by `salaryExpectationWarningRule`.
+ */
+export const expectationWarningRule: WarningRule = {
+  id: 'expectation-vs-averages',
+  name: 'Expectations vs. averages',
+  version: 1,
+  evaluate: ({ goal, scenario }, trace) => {
+    if (!scenario) {
+      // No matching scenario found, can't compare
+      return []
+    }
+
+    const userTimeline = goal.timeline.targetMonths
+    const averageTimeline = scenario.timelineRanges.averageCaseMonths
+    trace.input('userTimeline', userTimeline)
+    trace.input('averageTimeline', averageTimeline)
+    trace.input('scenarioId', scenario.id)
+
+    // Check timeline expectations
+    if (userTimeline < averageTimeline * 0.7) {
+      // User expects timeline 30%+ shorter than average
+      const monthsShort = Math.round((averageTimeline - userTimeline) * 10) / 10
+      const percentageFaster = Math.round(((averageTimeline - userTimeline) / averageTimeline) * 100)
+      trace.branch('userTimeline < averageTimeline * 0.7')
+      trace.intermediate('percentageFaster', percentageFaster)
+      trace.formula('percentageFaster = round((averageTimeline - userTimeline) / averageTimeline * 100)')
+
+      return [
+        {
+          flag: 'timeline_unrealistic',
+          message: `Your target timeline of ${userTimeline} months is ${percentageFaster}% shorter than the average ${averageTimeline} months for ${scenario.name}. Based on industry data, ${percentageFaster}% of people with similar profiles take longer than your target. This suggests your expectations may be optimistic.`,
+          severity: 3,
+          context: {
+            userTimeline,
+            averageTimeline,
+            monthsShort,
+            percentageFaster,
+            scenarioName: scenario.name,
+          },
+          suggestedActions: [
+            `Consider extending your timeline to ${averageTimeline} months to align with typical outcomes`,
+            'Review common failure reasons for this path to understand typical challenges',
+            'Break your goal into phases with intermediate milestones',
+            'Set a more aggressive "best case" timeline while planning for the average case',
+          ],
+        },
+      ]
+    }
+
+    return []
+  },
+}
+
+/**
+ * Compares the user's salary expectations with what people at their experience
+ * level earn in the target region, in the same currency (see salary/estimation.ts).
+ *
+ * This warning is triggered when:
+ * - The desired salary is more than 20% above the 90th percentile
+ * - The minimum acceptable salary is above the median, so most offers will
+ *   fall below it (high severity above the 75th percentile)
+ *
+ * Nothing is compared when the expectation's currency has no exchange rate.
+ */
+export const salaryExpectationWarningRule: WarningRule = {
+  id: 'salary-expectation',
+  name: 'Salary expectation vs. market',
+  version: 1,
+  evaluate: ({ goal, scenario, salary }, trace) => {
+    const expectation = goal.salaryExpectation
+    if (!expectation || !salary || !scenario || salary.currency !== expectation.currency.toUpperCase()) {
+      return []
+    }
+
+    const { percentiles, currency, experienceLevel } = salary
+    trace.input('desired', expectation.desired)
+    trace.input('minimum', expectation.minimum)
+    trace.input('currency', currency)
+    trace.input('experienceLevel', experienceLevel)
+    trace.input('p50', percentiles.p50)
+    trace.input('p75', percentiles.p75)
+    trace.input('p90', percentiles.p90)
+    const format = (amount: number) => `${amount.toLocaleString('en-US')} ${currency}`
+    const warnings: Warning[] = []
+
+    if (expectation.desired > percentiles.p90 * 1.2) {
+      // User expects 20%+ more than the top 10% earn
+      const percentageOver = Math.round(((expectation.desired - percentiles.p90) / percentiles.p90) * 100)
+      trace.branch('desired > p90 * 1.2: severity 2')
+      trace.intermediate('percentageOver', percentageOver)
+      trace.formula('percentageOver = round((desired - p90) / p90 * 100)')
+      warnings.push({
+        flag: 'salary_expectation_mismatch',
+        message: `Your desired salary of ${format(expectation.desired)} is ${percentageOver}% higher than what the top 10% earn (${format(percentiles.p90)}) on the ${scenario.name} path at your experience level (${experienceLevel.toLowerCase()}). Only exceptional candidates at top-paying employers reach this level.`,
+        severity: 2,
+        context: {
+          desired: expectation.desired,
+          currency,
+          experienceLevel,
+          percentiles,
+          percentageOver,
+          scenarioName: scenario.name,
+        },
+        suggestedActions: [
+          'Research salary ranges for your specific location and experience level',
+          'Focus on building skills and experience first, salary will follow',
+          'Plan for salary growth over several years rather than in your first offer',
+        ],
+      })
+    }
+
+    if (expectation.minimum > percentiles.p50) {
+      // Most offers will be below the user's minimum
+      const severity: 2 | 3 = expectation.minimum > percentiles.p75 ? 3 : 2
+      const shareBelow = expectation.minimum > percentiles.p75 ? 'More than 75%' : 'More than half'
+      trace.branch(severity === 3 ? 'minimum > p75: severity 3' : 'minimum > p50: severity 2')
+      warnings.push({
+        flag: 'salary_expectation_mismatch',
+        message: `Your minimum acceptable salary of ${format(expectation.minimum)} is above the median (${format(percentiles.p50)}) on the ${scenario.name} path at your experience level. ${shareBelow} of offers are likely to fall below your minimum, which will lengthen your search.`,
+        severity,
+        context: {
+          minimum: expectation.minimum,
+          currency,
+          experienceLevel,
+          percentiles,
+          scenarioName: scenario.name,
+        },
+        suggestedActions: [
+          `Consider lowering your minimum towards ${format(percentiles.p25)}-${format(percentiles.p50)} for your first role`,
+          'Be open to accepting a lower initial salary to get your foot in the door',
+          'Weigh total compensation (bonus, equity, benefits), not only base salary',
+        ],
+      })
+    }
+
+    return warnings
+  },
+}
+
+/**
+ * Checks for specific skill mismatch risks that could derail the career goal.
+ *
+ * This warning identifies:
+ * - Critical skills that are completely missing
+ * - Skills where proficiency is far below requirements
+ * - Skills that take significant time to learn but are needed soon
+ */
+export const skillMismatchWarningRule: WarningRule = {
+  id: 'skill-mismatch-risks',
+  name: 'Skill mismatch risks',
+  version: 1,
+  evaluate: ({ scenario, skillMatches, scores }, trace) => {
+    const warnings: Warning[] = []
+
+    if (!scenario) {
+      // No scenario match, use general skill gap warning if score is low
+      trace.input('skillScore', scores.skillScore)
+      if (scores.skillScore < 40) {
+        trace.branch('No scenario and skillScore < 40')
+        warnings.push({
+          flag: 'skill_gap_detected',
+          message: 'Significant skill gaps detected. Without specific role requirements, we recommend researching the exact skills needed for this position and comparing them to your current skill set.',
+          severity: 3,
+          suggestedActions: [
+            'Research job postings for your target role to identify required skills',
+            'Compare your current skills against typical requirements',
+            'Create a learning plan to address skill gaps',
+            'Consider informational interviews with people in the role',
+          ],
+        })
+      }
+      return warnings
+    }
+
+    // Check each required skill against user's skills
+    const criticalMissingSkills: string[] = []
+    const lowProficiencySkills: Array<{ name: string; matchedSkill: string; current: number; required: number }> = []
+
+    for (const requirement of scenario.skillRequirements) {
+      if (!requirement.isCritical) continue // Only check critical skills
+
+      // Find the user skill that matched this requirement (see skills/matching.ts)
+      const match = skillMatches.find(candidate => candidate.requirement === requirement.skillName)
+
+      if (!match) {
+        // Skill completely missing
+        criticalMissingSkills.push(requirement.skillName)
+      } else if (!match.meetsRequirement) {
+        // Skill exists but proficiency is too low
+        const gap = requirement.minProficiency - match.proficiency
+        if (gap >= 2) {
+          // Gap of 2+ levels is significant
+          lowProficiencySkills.push({
+            name: requirement.skillName,
+            matchedSkill: match.userSkill,
+            current: match.proficiency,
+            required: requirement.minProficiency,
+          })
+        }
+      }
+    }
+
+    trace.input('scenarioId', scenario.id)
+    trace.intermediate('criticalMissingSkills', criticalMissingSkills.join(', '))
+    trace.intermediate('lowProficiencySkills', lowProficiencySkills.map(skill => skill.name).join(', '))
+
+    // Generate warnings for missing critical skills
+    if (criticalMissingSkills.length > 0) {
+      const monthsToLearn = criticalMissingSkills
+        .map(skillName => {
+          const req = scenario.skillRequirements.find(r => r.skillName === skillName)
+          return req?.monthsToLearn || 6
+        })
+        .reduce((sum, months) => sum + months, 0)
+      trace.branch('Critical skills missing: severity 3')
+      trace.intermediate('monthsToLearn', monthsToLearn)
+      trace.formula('monthsToLearn = sum(monthsToLearn of each missing skill, default 6)')
+
+      warnings.push({
+        flag: 'skill_gap_detected',
+        message: `You are missing ${criticalMissingSkills.length} critical skill${criticalMissingSkills.length > 1 ? 's' : ''} required for ${scenario.name}: ${criticalMissingSkills.join(', ')}. Based on typical learning curves, acquiring these skills could take approximately ${monthsToLearn} months. This is a significant gap that must be addressed before you can realistically achieve this goal.`,
+        severity: 3,
+        context: {
+          missingSkills: criticalMissingSkills,
+          estimatedMonthsToLearn: monthsToLearn,
+          scenarioName: scenario.name,
+        },
+        suggestedActions: [
+          `Prioritize learning: ${criticalMissingSkills[0]} (most critical)`,
+          'Create a structured learning plan with milestones',
+          'Build projects that demonstrate these skills',
+          'Consider taking courses or finding a mentor',
+          `Adjust your timeline to account for ${monthsToLearn} months of skill development`,
+        ],
+      })
+    }
+
+    // Generate warnings for low proficiency skills
+    if (lowProficiencySkills.length > 0) {
+      trace.branch('Critical skills 2+ levels below the requirement: severity 2')
+      const skillDetails = lowProficiencySkills
+        .map(s => `${s.name} (current: ${s.current}/5, needed: ${s.required}/5)`)
+        .join('; ')
+
+      warnings.push({
+        flag: 'skill_gap_detected',
+        message: `Your proficiency in ${lowProficiencySkills.length} critical skill${lowProficiencySkills.length > 1 ? 's is' : ' is'} below the required level: ${skillDetails}. You'll need to significantly improve these skills, which typically requires ${lowProficiencySkills.length * 2}-${lowProficiencySkills.length * 4} months of focused practice.`,
+        severity: 2,
+        context: {
+          lowProficiencySkills,
+          scenarioName: scenario.name,
+        },
+        suggestedActions: [
+          'Focus on deliberate practice in these specific skill areas',
+          'Build projects that require these skills at the target proficiency level',
+          'Seek feedback from experts or mentors',
+          'Consider taking advanced courses or workshops',
+        ],
+      })
+    }
+
+    return warnings
+  },
+}
+
+/**
+ * Raised when the job market for the target role is saturated.
+ *
+ * Triggers (market data from the evaluator's market data provider):
+ * - 100 or more applicants per opening, or
+ * - A demand index below 40, or
+ * - Declining hiring with 75 or more applicants per opening
+ *
+ * Severity is high with 200+ applicants per opening or a demand index below 25.
+ */
+export const marketSaturationWarningRule: WarningRule = {
+  id: 'market-saturation',
+  name: 'Market saturation',
+  version: 1,
+  evaluate: ({ goal, market }, trace) => {
+    if (!market) return []
+
+    const { demandIndex, applicantsPerOpening, hiringTrend, trendPercent } = market
+    trace.input('demandIndex', demandIndex)
+    trace.input('applicantsPerOpening', applicantsPerOpening)
+    trace.input('hiringTrend', hiringTrend)
+    trace.input('source', market.source)
+    const crowded = applicantsPerOpening >= 100
+    const lowDemand = demandIndex < 40
+    const shrinking = hiringTrend === 'declining' && applicantsPerOpening >= 75
+    if (!crowded && !lowDemand && !shrinking) return []
+    if (crowded) trace.branch('applicantsPerOpening >= 100')
+    if (lowDemand) trace.branch('demandIndex < 40')
+    if (shrinking) trace.branch('Hiring is declining and applicantsPerOpening >= 75')
+
+    const severity: 2 | 3 = applicantsPerOpening >= 200 || demandIndex < 25 ? 3 : 2
+    trace.branch(
+      severity === 3 ? 'applicantsPerOpening >= 200 or demandIndex < 25: severity 3' : 'severity 2'
+    )
+    const trendText =
+      hiringTrend === 'stable'
+        ? 'hiring is flat'
+        : `hiring is ${hiringTrend} (${trendPercent > 0 ? '+' : ''}${trendPercent}% year over year)`
+
+    return [
+      {
+        flag: 'market_saturation',
+        message: `The market for ${goal.targetRole} roles is saturated: there are about ${applicantsPerOpening} applicants per opening, demand is ${demandIndex}/100, and ${trendText}. Expect more applications and a longer search than the timeline alone suggests.`,
+        severity,
+        context: {
+          demandIndex,
+          applicantsPerOpening,
+          hiringTrend,
+          trendPercent,
+          roleFamily: market.roleFamily,
+          industry: market.industry,
+          country: market.country,
+          source: market.source,
+        },
+        suggestedActions: [
+          'Differentiate yourself with a portfolio or measurable results that stand out from other applicants',
+          'Use referrals and networking; they bypass much of the applicant pool',
+          'Consider adjacent roles, industries or locations with less competition',
+        ],
+      },
+    ]
+  },
+}
+
+/**
+ * Default warning rules, in evaluation order.
+ * Warnings appear in the result in the same order as these rules.
+ */
+export const warningRules: WarningRule[] = [
+  timelineWarningRule,
+  experienceWarningRule,
+  skillGapWarningRule,
+  educationWarningRule,
+  careerChangeWarningRule,
+  locationWarningRule,
+  remoteOnlyWarningRule,
+  timeAvailabilityWarningRule,
+  expectationWarningRule,
+  salaryExpectationWarningRule,
+  skillMismatchWarningRule,
+  marketSaturationWarningRule,
+]
@@ -0,0 +1,145 @@
+/**
+ * Salary estimation
+ *
+ * Converts between currencies and estimates what someone with the user's
+ * experience earns in the target region, so expectations are compared with the
+ * market like for like.
+ */
+
+import type { ProbabilityBand, UserProfile, CareerGoal } from '../models'
+import type { CareerScenario } from '../scenarios'
+import type { LocationAnalysis } from '../locations'
+import { exchangeRates } from './index'
+import type { SalaryEstimate, SalaryPercentiles } from './index'
+
+/**
+ * Converts an amount between currencies using the offline exchange rates.
+ *
+ * @returns The converted amount, or undefined if either currency is not in the table
+ */
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, number> = exchangeRates
+): number | undefined {
+  const fromRate = rates[from.toUpperCase()]
+  const toRate = rates[to.toUpperCase()]
+  if (fromRate === undefined || toRate === undefined) return undefined
+  return (amount / fromRate) * toRate
+}
+
+/**
+ * Applies a function to every percentile.
+ */
+function mapPercentiles(percentiles: SalaryPercentiles, fn: (amount: number) => number): SalaryPercentiles {
+  return {
+    p10: fn(percentiles.p10),
+    p25: fn(percentiles.p25),
+    p50: fn(percentiles.p50),
+    p75: fn(percentiles.p75),
+    p90: fn(percentiles.p90),
+  }
+}
+
+/**
+ * Rounds an annual amount to the nearest 1,000.
+ */
+function roundSalary(amount: number): number {
+  return Math.round(amount / 1000) * 1000
+}
+
+/**
+ * Estimates the salary percentiles for the user in a scenario.
+ *
+ * Steps:
+ * 1. Experience: the scenario level with the highest `minYears` the user's
+ *    relevant experience reaches; without level data, the typical range is
+ *    spread evenly (p10 = min, p90 = max)
+ * 2. Location: scaled by the target region's salary index (scenario amounts
+ *    are US national figures)
+ * 3. Currency: converted to the currency of the user's salary expectation, if
+ *    given and in the exchange rate table; otherwise the scenario currency is kept
+ *
+ * @returns The estimate, or undefined if the scenario has no salary data
+ */
+export function estimateSalary(
+  profile: UserProfile,
+  goal: CareerGoal,
+  scenario: CareerScenario | undefined,
+  location?: LocationAnalysis
+): SalaryEstimate | undefined {
+  if (!scenario) return undefined
+
+  let percentiles: SalaryPercentiles
+  let currency: string
+  let experienceLevel: string
+  let source: SalaryEstimate['source']
+  const adjustments: string[] = []
+
+  // Step 1: Experience level
+  const data = scenario.salaryByExperience
+  const years = profile.experience.relevantYears
+  if (data && data.levels.length > 0) {
+    const level = [...data.levels].reverse().find(candidate => years >= candidate.minYears) ?? data.levels[0]
+    percentiles = level.percentiles
+    currency = data.currency
+    experienceLevel = level.label
+    source = 'experience-percentiles'
+    adjustments.push(`Percentiles for ${level.label.toLowerCase()} on the ${scenario.name} path (you have ${years} years of relevant experience)`)
+  } else if (scenario.typicalSalaryRange) {
+    const { min, max } = scenario.typicalSalaryRange
+    const at = (share: number) => min + (max - min) * share
+    percentiles = { p10: min, p25: at(0.25), p50: at(0.5), p75: at(0.75), p90: max }
+    currency = scenario.typicalSalaryRange.currency
+    experienceLevel = 'All experience levels'
+    source = 'typical-range'
+    adjustments.push(`No experience-level data for ${scenario.name}; spread across its typical range`)
+  } else {
+    return undefined
+  }
+
+  // Step 2: Location
+  const region = location?.target
+  if (region && region.salaryIndex !== 100) {
+    percentiles = mapPercentiles(percentiles, amount => (amount * region.salaryIndex) / 100)
+    adjustments.push(`Scaled to ${region.name} salaries (${region.salaryIndex}% of the US national average)`)
+  }
+
+  // Step 3: Currency
+  const wanted = goal.salaryExpectation?.currency.toUpperCase()
+  if (wanted && wanted !== currency.toUpperCase()) {
+    const rate = convertCurrency(1, currency, wanted)
+    if (rate !== undefined) {
+      percentiles = mapPercentiles(percentiles, amount => amount * rate)
+      adjustments.push(`Converted from ${currency} to ${wanted} at ${Math.round(rate * 10000) / 10000} ${wanted} per ${currency}`)
+      currency = wanted
+    } else {
+      adjustments.push(`No exchange rate for ${wanted}; amounts are shown in ${currency}`)
+    }
+  }
+
+  return {
+    currency,
+    percentiles: mapPercentiles(percentiles, roundSalary),
+    experienceLevel,
+    source,
+    adjustments,
+  }
+}
+
+/**
+ * Realistic salary range for a probability band.
+ * - Best case: median to 90th percentile
+ * - Average case: 25th to 75th percentile
+ * - Worst case: 10th percentile to median
+ */
+export function salaryRangeForBand(
+  estimate: SalaryEstimate,
+  band: ProbabilityBand
+): { min: number; max: number; currency: string } {
+  const { percentiles, currency } = estimate
+  if (band === 'best') return { min: percentiles.p50, max: percentiles.p90, currency }
+  if (band === 'average') return { min: percentiles.p25, max: percentiles.p75, currency }
+  return { min: percentiles.p10, max: percentiles.p50, currency }
+}
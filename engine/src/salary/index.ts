@@ -0,0 +1,94 @@
+/**
+ * Salary module
+ *
+ * This module contains offline currency tables and the salary percentile types
+ * scenarios use to describe pay by experience level. The evaluator uses them to
+ * compare salary expectations with the market in the same currency, and to give
+ * every probability band a realistic salary range.
+ */
+
+/**
+ * Salary percentiles for one group of people (annual, in one currency).
+ */
+export interface SalaryPercentiles {
+  /** 10th percentile: 10% earn less */
+  p10: number
+  /** 25th percentile */
+  p25: number
+  /** Median */
+  p50: number
+  /** 75th percentile */
+  p75: number
+  /** 90th percentile: 10% earn more */
+  p90: number
+}
+
+/**
+ * Salary percentiles for people with at least `minYears` of relevant experience.
+ */
+export interface ExperienceSalaryLevel {
+  /** Fewest years of relevant experience this level applies to */
+  minYears: number
+  /** Human-readable label (e.g. "Entry level (0-2 years)") */
+  label: string
+  /** Annual salary percentiles at this level */
+  percentiles: SalaryPercentiles
+}
+
+/**
+ * Salary data for a scenario, by experience level.
+ */
+export interface ScenarioSalaryData {
+  /** Currency code (ISO 4217) of all amounts */
+  currency: string
+  /** Levels in ascending `minYears` order; the first must start at 0 */
+  levels: ExperienceSalaryLevel[]
+}
+
+/**
+ * A salary estimate for a user, after experience, location and currency adjustments.
+ */
+export interface SalaryEstimate {
+  /** Currency code (ISO 4217) of the percentiles */
+  currency: string
+  /** Annual salary percentiles for someone with the user's experience in the target region */
+  percentiles: SalaryPercentiles
+  /** Experience level the percentiles are for */
+  experienceLevel: string
+  /**
+   * Where the percentiles came from:
+   * - experience-percentiles: the scenario's salary data for the user's experience level
+   * - typical-range: spread across the scenario's typical salary range (no experience data)
+   */
+  source: 'experience-percentiles' | 'typical-range'
+  /** Human-readable description of each adjustment, in the order applied */
+  adjustments: string[]
+}
+
+/**
+ * Date the exchange rates were taken.
+ */
+export const EXCHANGE_RATES_DATE = '2025-12-01'
+
+/**
+ * Offline exchange rates: units of each currency per 1 USD.
+ *
+ * Assumptions:
+ * - Rates are rounded mid-market rates on `EXCHANGE_RATES_DATE`
+ * - Salary comparisons are rough, so exchange rate movements of a few percent
+ *   do not change any conclusion
+ */
+export const exchangeRates: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.38,
+  AUD: 1.53,
+  INR: 84,
+  JPY: 150,
+  CHF: 0.88,
+  SGD: 1.34,
+  CNY: 7.2,
+  BRL: 5.4,
+  MXN: 17.5,
+}
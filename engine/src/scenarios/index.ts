@@ -5,9 +5,33 @@
  * multiple rules to create complete assessment scenarios.
  * 
  * Each scenario represents a realistic career path with explicit assumptions
- * about requirements, timelines, and common challenges.
+ * about requirements, timelines, and common challenges. Scenarios are data:
+ * the built-in ones live in `data/` as JSON files, and more can be loaded from
+ * JSON or YAML files through a `ScenarioRegistry` (see registry.ts).
  */
 
+import type { SeniorityLevelId } from '../roles'
+import type { ScenarioSalaryData } from '../salary'
+import dataAnalyst from './data/data-analyst.json'
+import devopsEngineer from './data/devops-engineer.json'
+import digitalMarketingSpecialist from './data/digital-marketing-specialist.json'
+import electrician from './data/electrician.json'
+import faangSde from './data/faang-sde.json'
+import financialAnalyst from './data/financial-analyst.json'
+import hrGeneralist from './data/hr-generalist.json'
+import lineCook from './data/line-cook.json'
+import mastersResearchPath from './data/masters-research-path.json'
+import mlEngineer from './data/ml-engineer.json'
+import paralegal from './data/paralegal.json'
+import physicianAssistant from './data/physician-assistant.json'
+import productManager from './data/product-manager.json'
+import registeredNurse from './data/registered-nurse.json'
+import salesDevelopmentRepresentative from './data/sales-development-representative.json'
+import staffAccountant from './data/staff-accountant.json'
+import teacher from './data/teacher.json'
+import uxDesigner from './data/ux-designer.json'
+import { ScenarioRegistry } from './registry'
+
 /**
  * Minimum skill requirements for a scenario.
  * Each skill must be at this proficiency level (0-5) or higher.
@@ -15,6 +39,8 @@
 export interface SkillRequirement {
   /** Name of the skill */
   skillName: string
+  /** Canonical skill ID from the skill taxonomy (optional, resolved from `skillName` if omitted) */
+  skillId?: string
   /** Minimum required proficiency level (0-5) */
   minProficiency: 0 | 1 | 2 | 3 | 4 | 5
   /** Whether this skill is critical (must have) or nice to have */
@@ -97,6 +123,113 @@ export interface CareerScenario {
     max: number
     currency: string
   }
+  /** Salary percentiles by years of relevant experience (optional, US national figures) */
+  salaryByExperience?: ScenarioSalaryData
+  /**
+   * ISO 3166-1 alpha-2 code of the only country this scenario applies to (e.g.
+   * where licensing differs). Regional scenarios are only matched for users
+   * targeting that country. Salary figures are still US national figures.
+   */
+  region?: string
+}
+
+/**
+ * The fields of a scenario needed to list and pick it.
+ */
+export type ScenarioSummary = Pick<
+  CareerScenario,
+  'id' | 'name' | 'description' | 'targetRole' | 'targetIndustry' | 'minExperienceYears' | 'preferredEducation' | 'region'
+>
+
+/**
+ * Criteria for listing scenarios. Every given criterion must match.
+ */
+export interface ScenarioFilter {
+  /** Target industry (case-insensitive, e.g. "healthcare") */
+  industry?: string
+  /** Preferred education level */
+  education?: CareerScenario['preferredEducation']
+  /**
+   * Search text: every word must appear in the name, target role, target
+   * industry or description (case-insensitive)
+   */
+  query?: string
+}
+
+/**
+ * Format of a scenario file.
+ */
+export type ScenarioFormat = 'json' | 'yaml'
+
+/**
+ * Employer tier a scenario is written for.
+ * - `startup`: small companies that hire quickly and value breadth
+ * - `standard`: typical employers (the default)
+ * - `top-tier`: the most selective employers in the industry (e.g. FAANG, Big Four, top hospitals)
+ */
+export type CompanyTier = 'startup' | 'standard' | 'top-tier'
+
+/**
+ * A variant of a scenario template: the base scenario with a different
+ * seniority, region or company tier, plus any fields it overrides.
+ */
+export interface ScenarioVariant {
+  /** Unique identifier of the variant scenario */
+  id: string
+  /** Human-readable name of the variant scenario */
+  name: string
+  /** Seniority the variant is written for (adjusts experience, critical skills and salary) */
+  seniority?: SeniorityLevelId
+  /** Country the variant applies to (sets `region`) */
+  region?: string
+  /** Employer tier the variant is written for (adjusts timelines, critical skills and competition) */
+  companyTier?: CompanyTier
+  /**
+   * Fields that replace the base scenario's (and whatever the parameters derive).
+   * Arrays and objects replace the base value as a whole.
+   */
+  overrides?: Partial<Omit<CareerScenario, 'id' | 'name'>>
+}
+
+/**
+ * A parameterized scenario: a base scenario and variants of it.
+ * The base scenario is registered too, followed by each variant in order.
+ */
+export interface ScenarioTemplate {
+  /** The base scenario */
+  base: CareerScenario
+  /** Seniority the base scenario is written for (default: 'mid') */
+  seniority?: SeniorityLevelId
+  /** Employer tier the base scenario is written for (default: 'standard') */
+  companyTier?: CompanyTier
+  /** Variants of the base scenario */
+  variants: ScenarioVariant[]
+}
+
+/**
+ * Built-in scenario files in `data/`, by file name, in catalog order (the order
+ * ties are broken in when matching). A file holds one scenario or a template
+ * (see `ScenarioTemplate`).
+ */
+const builtInFiles: Record<string, unknown> = {
+  'faang-sde.json': faangSde,
+  'ml-engineer.json': mlEngineer,
+  'masters-research-path.json': mastersResearchPath,
+  'data-analyst.json': dataAnalyst,
+  'devops-engineer.json': devopsEngineer,
+  'digital-marketing-specialist.json': digitalMarketingSpecialist,
+  'electrician.json': electrician,
+  'financial-analyst.json': financialAnalyst,
+  'hr-generalist.json': hrGeneralist,
+  'line-cook.json': lineCook,
+  'paralegal.json': paralegal,
+  'physician-assistant.json': physicianAssistant,
+  'product-manager.json': productManager,
+  'registered-nurse.json': registeredNurse,
+  'sales-development-representative.json': salesDevelopmentRepresentative,
+  'staff-accountant.json': staffAccountant,
+  'teacher.json': teacher,
+  'ux-designer.json': uxDesigner,
 }
 
 /**
@@ -104,283 +237,8 @@ export interface CareerScenario {
  * 
  * These scenarios represent realistic career paths with explicit assumptions.
  * Each scenario can be used to evaluate a user's profile against known requirements.
+ * They are loaded from the data files in `data/` and validated when this module
+ * is first imported, so an invalid built-in scenario fails fast.
  */
-export const scenarios: CareerScenario[] = [
-  {
-    id: 'faang-sde',
-    name: 'FAANG Software Development Engineer',
-    description: 'Software Development Engineer role at a FAANG company (Facebook/Meta, Amazon, Apple, Netflix, Google) or similar top-tier tech company. These roles are highly competitive and require strong technical skills, problem-solving ability, and system design knowledge.',
-    targetRole: 'Software Development Engineer',
-    targetIndustry: 'Technology',
-    minExperienceYears: 2,
-    preferredEducation: 'bachelors',
-    skillRequirements: [
-      {
-        skillName: 'Data Structures and Algorithms',
-        minProficiency: 4,
-        isCritical: true,
-        monthsToLearn: 6,
-      },
-      {
-        skillName: 'System Design',
-        minProficiency: 3,
-        isCritical: true,
-        monthsToLearn: 4,
-      },
-      {
-        skillName: 'At least one programming language (Java, Python, C++, etc.)',
-        minProficiency: 4,
-        isCritical: true,
-        monthsToLearn: 12,
-      },
-      {
-        skillName: 'Problem Solving',
-        minProficiency: 4,
-        isCritical: true,
-        monthsToLearn: 6,
-      },
-      {
-        skillName: 'Computer Science Fundamentals',
-        minProficiency: 3,
-        isCritical: false,
-        monthsToLearn: 12,
-      },
-    ],
-    timelineRanges: {
-      bestCaseMonths: 6,
-      averageCaseMonths: 12,
-      worstCaseMonths: 24,
-    },
-    timeRequirements: {
-      skillBuildingHours: 3,
-      jobSearchHours: 1,
-      interviewPrepHours: 2,
-      isOnTopOfFullTimeJob: true,
-    },
-    commonFailureReasons: [
-      {
-        category: 'competition',
-        description: 'Extremely high competition - thousands of qualified candidates apply for each position',
-        frequency: 40,
-      },
-      {
-        category: 'skill_gap',
-        description: 'Insufficient preparation for technical interviews, especially system design and algorithms',
-        frequency: 35,
-      },
-      {
-        category: 'preparation',
-        description: 'Not solving enough LeetCode problems or practicing system design',
-        frequency: 30,
-      },
-      {
-        category: 'expectations',
-        description: 'Unrealistic timeline - expecting to land a FAANG job in 3-6 months without sufficient background',
-        frequency: 25,
-      },
-      {
-        category: 'skill_gap',
-        description: 'Lack of strong computer science fundamentals or relevant work experience',
-        frequency: 20,
-      },
-    ],
-    notes: 'FAANG companies have rigorous interview processes with multiple rounds. Success typically requires 200+ LeetCode problems solved and strong system design knowledge. Many candidates apply multiple times before succeeding.',
-    typicalSalaryRange: {
-      min: 150000,
-      max: 300000,
-      currency: 'USD',
-    },
-  },
-  {
-    id: 'ml-engineer',
-    name: 'Machine Learning Engineer',
-    description: 'Machine Learning Engineer role focused on building, deploying, and maintaining ML systems in production. Requires strong background in ML algorithms, software engineering, and often deep learning frameworks.',
-    targetRole: 'Machine Learning Engineer',
-    targetIndustry: 'Technology',
-    minExperienceYears: 1,
-    preferredEducation: 'masters',
-    skillRequirements: [
-      {
-        skillName: 'Machine Learning Fundamentals',
-        minProficiency: 4,
-        isCritical: true,
-        monthsToLearn: 12,
-      },
-      {
-        skillName: 'Python',
-        minProficiency: 4,
-        isCritical: true,
-        monthsToLearn: 6,
-      },
-      {
-        skillName: 'Deep Learning (TensorFlow/PyTorch)',
-        minProficiency: 3,
-        isCritical: true,
-        monthsToLearn: 6,
-      },
-      {
-        skillName: 'Statistics and Mathematics',
-        minProficiency: 3,
-        isCritical: true,
-        monthsToLearn: 12,
-      },
-      {
-        skillName: 'Software Engineering',
-        minProficiency: 3,
-        isCritical: true,
-        monthsToLearn: 12,
-      },
-      {
-        skillName: 'MLOps / Model Deployment',
-        minProficiency: 2,
-        isCritical: false,
-        monthsToLearn: 4,
-      },
-    ],
-    timelineRanges: {
-      bestCaseMonths: 9,
-      averageCaseMonths: 18,
-      worstCaseMonths: 36,
-    },
-    timeRequirements: {
-      skillBuildingHours: 4,
-      jobSearchHours: 1,
-      interviewPrepHours: 2,
-      isOnTopOfFullTimeJob: true,
-    },
-    commonFailureReasons: [
-      {
-        category: 'skill_gap',
-        description: 'Insufficient mathematical foundation (linear algebra, calculus, statistics)',
-        frequency: 35,
-      },
-      {
-        category: 'skill_gap',
-        description: 'Lack of hands-on ML project experience - only theoretical knowledge',
-        frequency: 40,
-      },
-      {
-        category: 'preparation',
-        description: 'Not building a portfolio of ML projects demonstrating practical skills',
-        frequency: 30,
-      },
-      {
-        category: 'expectations',
-        description: 'Underestimating the time needed to learn ML fundamentals and build real projects',
-        frequency: 25,
-      },
-      {
-        category: 'market',
-        description: 'Market saturation - many candidates with similar backgrounds competing for limited roles',
-        frequency: 20,
-      },
-      {
-        category: 'skill_gap',
-        description: 'Weak software engineering skills - ML engineers need to write production code, not just notebooks',
-        frequency: 25,
-      },
-    ],
-    notes: 'ML Engineer roles often require a strong portfolio of projects. Many successful candidates have published research, contributed to open source, or built production ML systems. The field is rapidly evolving, so continuous learning is essential.',
-    typicalSalaryRange: {
-      min: 120000,
-      max: 250000,
-      currency: 'USD',
-    },
-  },
-  {
-    id: 'masters-research-path',
-    name: 'Masters Degree → Research Path',
-    description: 'Pursuing a Masters degree (typically in a technical field) as a stepping stone to research-oriented roles, PhD programs, or research positions in industry. This path emphasizes academic achievement and research experience.',
-    targetRole: 'Research Scientist / PhD Student / Research Engineer',
-    targetIndustry: 'Academia / Research',
-    minExperienceYears: 0,
-    preferredEducation: 'masters',
-    skillRequirements: [
-      {
-        skillName: 'Research Methodology',
-        minProficiency: 3,
-        isCritical: true,
-        monthsToLearn: 12,
-      },
-      {
-        skillName: 'Academic Writing',
-        minProficiency: 3,
-        isCritical: true,
-        monthsToLearn: 6,
-      },
-      {
-        skillName: 'Domain-specific expertise (varies by field)',
-        minProficiency: 4,
-        isCritical: true,
-        monthsToLearn: 24,
-      },
-      {
-        skillName: 'Statistical Analysis',
-        minProficiency: 3,
-        isCritical: false,
-        monthsToLearn: 6,
-      },
-      {
-        skillName: 'Literature Review',
-        minProficiency: 3,
-        isCritical: false,
-        monthsToLearn: 4,
-      },
-    ],
-    timelineRanges: {
-      bestCaseMonths: 24, // 2-year Masters program
-      averageCaseMonths: 30, // Including application and transition time
-      worstCaseMonths: 48, // If need to strengthen profile first
-    },
-    timeRequirements: {
-      skillBuildingHours: 6, // Full-time student workload
-      jobSearchHours: 0, // Not applicable during Masters
-      interviewPrepHours: 0, // Not applicable during Masters
-      isOnTopOfFullTimeJob: false, // Typically full-time study
-    },
-    commonFailureReasons: [
-      {
-        category: 'expectations',
-        description: 'Underestimating the time commitment - Masters programs are typically 2 years of full-time study',
-        frequency: 30,
-      },
-      {
-        category: 'skill_gap',
-        description: 'Insufficient academic preparation - weak undergraduate GPA or missing prerequisites',
-        frequency: 25,
-      },
-      {
-        category: 'resource_constraint',
-        description: 'Financial constraints - Masters programs can be expensive, funding may be limited',
-        frequency: 35,
-      },
-      {
-        category: 'preparation',
-        description: 'Weak application materials - poor statement of purpose, lack of research experience, weak recommendations',
-        frequency: 30,
-      },
-      {
-        category: 'competition',
-        description: 'High competition for top programs and research positions',
-        frequency: 25,
-      },
-      {
-        category: 'timeline',
-        description: 'Not accounting for application timeline - need to apply 6-12 months before program start',
-        frequency: 20,
-      },
-      {
-        category: 'expectations',
-        description: 'Unclear research goals - difficulty articulating research interests and finding advisor match',
-        frequency: 20,
-      },
-    ],
-    notes: 'Masters programs typically require strong undergraduate performance (GPA 3.5+), research experience, and clear research interests. Many successful applicants have prior research experience, publications, or strong recommendation letters. The path to research often requires 2+ years of Masters followed by potential PhD (4-6 more years).',
-    typicalSalaryRange: {
-      min: 0, // Often stipend during PhD, varies widely
-      max: 150000, // Research scientist roles
-      currency: 'USD',
-    },
-  },
-]
-
+export const scenarios: CareerScenario[] = new ScenarioRegistry()
+  .add(Object.values(builtInFiles), Object.keys(builtInFiles))
@@ -0,0 +1,203 @@
+/**
+ * Scenario matching
+ *
+ * Ranks scenarios by how well they describe a career goal.
+ * Matching is keyword-based and fully explainable: every point in a match score
+ * comes with a human-readable reason.
+ */
+
+import { regionalDataset } from '../locations'
+import { analyzeLocation } from '../locations/analysis'
+import type { CareerGoal, UserProfile } from '../models'
+import { normalizeRoleTitle } from '../roles/matching'
+import { scenarios } from './index'
+import type { CareerScenario } from './index'
+
+/**
+ * A scenario candidate with its match score and the reasons for it.
+ */
+export interface ScenarioMatch {
+  /** The candidate scenario */
+  scenario: CareerScenario
+  /** Match score (0-100), where 100 means a perfect match */
+  score: number
+  /** Human-readable reasons that explain the score */
+  reasons: string[]
+}
+
+/**
+ * Minimum match score for the evaluator to use a scenario.
+ * Only scenarios whose role matches are candidates at all; a partial role
+ * match also needs the same industry or roughly enough experience to reach
+ * this score.
+ */
+export const MIN_SCENARIO_MATCH_SCORE = 30
+
+/** Words that carry no meaning when comparing role titles */
+const ROLE_STOPWORDS = new Set(['a', 'an', 'and', 'at', 'for', 'in', 'of', 'or', 'the', 'to'])
+
+/**
+ * Splits a normalized role title into meaningful words.
+ */
+function roleWords(normalizedTitle: string): string[] {
+  return normalizedTitle.split(' ').filter(word => word.length > 0 && !ROLE_STOPWORDS.has(word))
+}
+
+/**
+ * Whether a normalized title contains another as whole words.
+ */
+function containsTitle(normalizedTitle: string, other: string): boolean {
+  return ` ${normalizedTitle} `.includes(` ${other} `)
+}
+
+/**
+ * Scores how well the target role matches the scenario role (0-60).
+ *
+ * Scenario roles can list alternatives separated by "/"
+ * (e.g. "Research Scientist / PhD Student / Research Engineer"). Titles are
+ * compared normalized (see `normalizeRoleTitle`), so "ML Engineer" matches
+ * "Machine Learning Engineer" exactly.
+ * - Exact match with an alternative: 60 points
+ * - One title contains the other: 50 points
+ * - Otherwise: up to 40 points for the share of target role words found in the scenario role
+ */
+function scoreRole(targetRole: string, scenario: CareerScenario): { points: number; reason?: string } {
+  const target = normalizeRoleTitle(targetRole)
+  if (target.length === 0) {
+    return { points: 0 }
+  }
+
+  const alternatives = scenario.targetRole.split('/').map(normalizeRoleTitle)
+
+  if (alternatives.includes(target)) {
+    return { points: 60, reason: `Target role "${targetRole}" matches scenario role "${scenario.targetRole}"` }
+  }
+
+  if (alternatives.some(title => containsTitle(title, target) || containsTitle(target, title))) {
+    return {
+      points: 50,
+      reason: `Target role "${targetRole}" overlaps with scenario role "${scenario.targetRole}"`,
+    }
+  }
+
+  const targetWords = roleWords(target)
+  const scenarioWords = new Set(alternatives.flatMap(roleWords))
+  const sharedWords = targetWords.filter(word => scenarioWords.has(word))
+  if (targetWords.length === 0 || sharedWords.length === 0) {
+    return { points: 0 }
+  }
+
+  return {
+    points: Math.round((sharedWords.length / targetWords.length) * 40),
+    reason: `Target role shares ${sharedWords.length} of ${targetWords.length} words with scenario role "${scenario.targetRole}" (${sharedWords.join(', ')})`,
+  }
+}
+
+/**
+ * Scores how well the target industry matches the scenario industry (0-25).
+ * - Same industry: 25 points
+ * - One industry name contains the other: 15 points
+ */
+function scoreIndustry(targetIndustry: string, scenario: CareerScenario): { points: number; reason?: string } {
+  const target = targetIndustry.trim().toLowerCase()
+  const industry = scenario.targetIndustry.toLowerCase()
+  if (target.length === 0) {
+    return { points: 0 }
+  }
+
+  if (target === industry) {
+    return { points: 25, reason: `Same industry (${scenario.targetIndustry})` }
+  }
+
+  if (industry.includes(target) || target.includes(industry)) {
+    return { points: 15, reason: `Related industry ("${targetIndustry}" / "${scenario.targetIndustry}")` }
+  }
+
+  return { points: 0 }
+}
+
+/**
+ * Scores how close the user is to the scenario's minimum experience (0-15).
+ * - Meets the minimum: 15 points
+ * - Within 2 years of the minimum: 5 points
+ */
+function scoreExperience(profile: UserProfile, scenario: CareerScenario): { points: number; reason?: string } {
+  const relevantYears = profile.experience.relevantYears
+  const required = scenario.minExperienceYears
+
+  if (relevantYears >= required) {
+    return {
+      points: 15,
+      reason: `Your ${relevantYears} years of relevant experience meet the typical minimum of ${required}`,
+    }
+  }
+
+  if (relevantYears + 2 >= required) {
+    return {
+      points: 5,
+      reason: `Your ${relevantYears} years of relevant experience are within 2 years of the typical minimum of ${required}`,
+    }
+  }
+
+  return { points: 0 }
+}
+
+/**
+ * Ranks scenarios by how well they match a career goal and user profile.
+ *
+ * Each scenario is scored out of 100:
+ * - Role match: up to 60 points
+ * - Industry match: up to 25 points
+ * - Experience match: up to 15 points
+ *
+ * Only scenarios whose role matches are returned: industry and experience
+ * alone never make a scenario a candidate, so a goal for a role no scenario
+ * covers gets no scenario (and the evaluator falls back to heuristics).
+ * Regional scenarios (with a `region`) are only candidates when the user
+ * targets that country (the goal's target location, or else where they live).
+ * Candidates are sorted by score (highest first); on a tie, regional scenarios
+ * come first, otherwise catalog order is kept.
+ *
+ * @param goal - The career goal to match
+ * @param profile - The user profile (used for experience fit)
+ * @param candidates - Scenarios to rank (defaults to the built-in catalog)
+ * @returns Ranked candidates with match scores and reasons
+ */
+export function matchScenarios(
+  goal: CareerGoal,
+  profile: UserProfile,
+  candidates: CareerScenario[] = scenarios
+): ScenarioMatch[] {
+  const matches: ScenarioMatch[] = []
+  const targetCountry = candidates.some(scenario => scenario.region)
+    ? analyzeLocation(profile, goal).target?.country
+    : undefined
+
+  for (const scenario of candidates) {
+    if (scenario.region && scenario.region.toUpperCase() !== targetCountry) {
+      continue
+    }
+
+    const role = scoreRole(goal.targetRole, scenario)
+    if (role.points === 0) {
+      continue
+    }
+    const industry = scoreIndustry(goal.targetIndustry, scenario)
+
+    const experience = scoreExperience(profile, scenario)
+    const parts: { points: number; reason?: string }[] = [role, industry, experience]
+    if (scenario.region) {
+      const country = regionalDataset.countries.find(candidate => candidate.code === targetCountry)
+      parts.push({ points: 0, reason: `Scenario is specific to ${country?.name ?? targetCountry}, where you are targeting` })
+    }
+
+    matches.push({
+      scenario,
+      score: Math.min(100, parts.reduce((sum, part) => sum + part.points, 0)),
+      reasons: parts.flatMap(part => (part.reason ? [part.reason] : [])),
+    })
+  }
+
+  // Array.prototype.sort is stable, so remaining ties keep catalog order
+  return matches.sort((a, b) => b.score - a.score || Number(!!b.scenario.region) - Number(!!a.scenario.region))
+}
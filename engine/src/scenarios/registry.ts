@@ -0,0 +1,218 @@
+/**
+ * Scenario registry
+ *
+ * Holds the scenarios an evaluator matches goals against. Scenarios are data:
+ * JSON or YAML files that are validated (shape and semantic checks) before they
+ * are registered, so a scenario can be contributed without writing TypeScript.
+ * A file holds a scenario, a scenario template (expanded into its base and
+ * variants, see templates.ts) or a list of either. Files can be loaded from a
+ * directory or a URL; invalid files are rejected with every problem listed.
+ */
+
+import { load as parseYaml } from 'js-yaml'
+import type { ValidationError } from '../validation'
+import type { CareerScenario, ScenarioFormat, ScenarioTemplate } from './index'
+import { expandScenarioTemplate, isScenarioTemplate } from './templates'
+import { validateScenario, validateScenarios, validateScenarioTemplate } from './validation'
+
+/**
+ * Format of a scenario file, from its name (undefined if not a scenario file).
+ */
+export function scenarioFormat(fileName: string): ScenarioFormat | undefined {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'json') return 'json'
+  if (extension === 'yaml' || extension === 'yml') return 'yaml'
+  return undefined
+}
+
+/**
+ * Parses a scenario file. A file holds one scenario or template, or a list of them.
+ *
+ * @throws Error if the file is not valid JSON or YAML
+ */
+export function parseScenarioFile(text: string, format: ScenarioFormat, source: string): unknown[] {
+  let data: unknown
+  try {
+    data = format === 'yaml' ? parseYaml(text, { filename: source }) : JSON.parse(text)
+  } catch (error) {
+    throw new Error(`Could not parse ${source}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  return Array.isArray(data) ? data : [data]
+}
+
+/**
+ * Lists validation errors, one per line.
+ */
+function formatErrors(errors: ValidationError[]): string {
+  return errors.map(error => `- ${error.message}`).join('\n')
+}
+
+/**
+ * Replaces each template with the scenarios it expands to. Variant paths are
+ * `<template path>.variants[i]`. Invalid templates (including an invalid base,
+ * which would make the variants meaningless) are not expanded; their errors are
+ * returned instead.
+ */
+function expandTemplates(
+  values: readonly unknown[],
+  paths: string[]
+): { values: unknown[]; paths: string[]; errors: ValidationError[] } {
+  const expanded: { values: unknown[]; paths: string[]; errors: ValidationError[] } = {
+    values: [],
+    paths: [],
+    errors: [],
+  }
+
+  values.forEach((value, index) => {
+    const path = paths[index]
+    if (!isScenarioTemplate(value)) {
+      expanded.values.push(value)
+      expanded.paths.push(path)
+      return
+    }
+
+    const template = validateScenarioTemplate(value, path)
+    const base = validateScenario((value as { base: unknown }).base, `${path}.base`)
+    if (!template.valid || !base.valid) {
+      expanded.errors.push(...template.errors, ...base.errors)
+      return
+    }
+
+    const scenarios = expandScenarioTemplate(value as ScenarioTemplate)
+    expanded.values.push(...scenarios)
+    expanded.paths.push(`${path}.base`, ...scenarios.slice(1).map((_, variant) => `${path}.variants[${variant}]`))
+  })
+
+  return expanded
+}
+
+/**
+ * A validated set of scenarios with unique IDs, in the order they were added.
+ */
+export class ScenarioRegistry {
+  private readonly byId = new Map<string, CareerScenario>()
+
+  /**
+   * @param scenarios - Scenarios to start with (validated like `add`)
+   * @throws Error if a scenario is invalid
+   */
+  constructor(scenarios: readonly unknown[] = []) {
+    this.add(scenarios)
+  }
+
+  /** Number of registered scenarios */
+  get size(): number {
+    return this.byId.size
+  }
+
+  /**
+   * Validates scenarios and registers them. Templates are expanded first.
+   * Nothing is registered unless all of them are valid, and no ID may already
+   * be registered.
+   *
+   * @param values - Untrusted scenario or template data
+   * @param paths - Where each value came from, to prefix its errors (e.g. "nurse.yaml")
+   * @returns The registered scenarios
+   * @throws Error listing every problem if a scenario or template is invalid
+   */
+  add(values: readonly unknown[], paths = values.map((_, index) => `scenarios[${index}]`)): CareerScenario[] {
+    const expanded = expandTemplates(values, paths)
+    const { errors } = validateScenarios(expanded.values, expanded.paths, this.byId.keys())
+    if (expanded.errors.length > 0 || errors.length > 0) {
+      throw new Error(`Invalid scenarios:\n${formatErrors([...expanded.errors, ...errors])}`)
+    }
+
+    const scenarios = expanded.values as CareerScenario[]
+    for (const scenario of scenarios) {
+      this.byId.set(scenario.id, scenario)
+    }
+    return scenarios
+  }
+
+  /**
+   * Parses and registers the scenarios in the text of a file.
+   *
+   * @param text - File contents
+   * @param fileName - File name; its extension sets the format (.json, .yaml or .yml)
+   * @throws Error if the format is unknown, the file does not parse or a scenario is invalid
+   */
+  addFile(text: string, fileName: string): CareerScenario[] {
+    const format = scenarioFormat(fileName)
+    if (!format) {
+      throw new Error(`Unknown scenario file format: ${fileName} (use .json, .yaml or .yml)`)
+    }
+    const values = parseScenarioFile(text, format, fileName)
+    return this.add(values, values.length === 1 ? [fileName] : values.map((_, index) => `${fileName}[${index}]`))
+  }
+
+  /**
+   * Loads every .json, .yaml and .yml file in a directory (not its
+   * subdirectories), in file name order. The files are validated together, so
+   * duplicate IDs across files are caught and nothing is registered if any
+   * file is invalid. Node.js only.
+   *
+   * @throws Error if a file does not parse or a scenario is invalid
+   */
+  async loadDirectory(directory: string): Promise<CareerScenario[]> {
+    const { readdir, readFile } = await import('node:fs/promises')
+    const { join } = await import('node:path')
+
+    const fileNames = (await readdir(directory)).filter(name => scenarioFormat(name) !== undefined).sort()
+    const values: unknown[] = []
+    const paths: string[] = []
+    for (const fileName of fileNames) {
+      const parsed = parseScenarioFile(
+        await readFile(join(directory, fileName), 'utf8'),
+        scenarioFormat(fileName) as ScenarioFormat,
+        fileName
+      )
+      values.push(...parsed)
+      paths.push(...(parsed.length === 1 ? [fileName] : parsed.map((_, index) => `${fileName}[${index}]`)))
+    }
+    return this.add(values, paths)
+  }
+
+  /**
+   * Loads a scenario file from a URL. The format comes from the response's
+   * content type if it names YAML, otherwise from the URL's extension (JSON by
+   * default).
+   *
+   * @param url - URL of a JSON or YAML file
+   * @param fetchFile - Fetch implementation (default: the global `fetch`)
+   * @throws Error if the request fails, the file does not parse or a scenario is invalid
+   */
+  async loadUrl(url: string, fetchFile: typeof fetch = fetch): Promise<CareerScenario[]> {
+    const response = await fetchFile(url)
+    if (!response.ok) {
+      throw new Error(`Could not load scenarios from ${url}: HTTP ${response.status}`)
+    }
+
+    const contentType = response.headers.get('content-type') ?? ''
+    const format: ScenarioFormat = /yaml/i.test(contentType)
+      ? 'yaml'
+      : scenarioFormat(new URL(url).pathname) ?? 'json'
+    const values = parseScenarioFile(await response.text(), format, url)
+    return this.add(values, values.length === 1 ? [url] : values.map((_, index) => `${url}[${index}]`))
+  }
+
+  /**
+   * Finds a scenario by ID.
+   */
+  get(id: string): CareerScenario | undefined {
+    return this.byId.get(id)
+  }
+
+  /**
+   * Whether a scenario with this ID is registered.
+   */
+  has(id: string): boolean {
+    return this.byId.has(id)
+  }
+
+  /**
+   * Lists the registered scenarios, in the order they were added.
+   */
+  list(): CareerScenario[] {
+    return [...this.byId.values()]
+  }
+}
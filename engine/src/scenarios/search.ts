@@ -0,0 +1,57 @@
+/**
+ * Scenario search
+ *
+ * Lists scenarios by industry, preferred education and free-text search, for
+ * pickers that let users start from a known scenario instead of typing a role.
+ */
+
+import { scenarios } from './index'
+import type { CareerScenario, ScenarioFilter, ScenarioSummary } from './index'
+
+/**
+ * Splits search text into lowercase words.
+ */
+function searchWords(text: string): string[] {
+  return text.toLowerCase().split(/\s+/).filter(word => word.length > 0)
+}
+
+/**
+ * Lists the scenarios that match every criterion of a filter, in catalog order.
+ *
+ * @param filter - Criteria to match (an empty filter lists every scenario)
+ * @param candidates - Scenarios to search (defaults to the built-in catalog)
+ */
+export function searchScenarios(
+  filter: ScenarioFilter = {},
+  candidates: CareerScenario[] = scenarios
+): CareerScenario[] {
+  const industry = filter.industry?.trim().toLowerCase()
+  const words = searchWords(filter.query ?? '')
+
+  return candidates.filter(scenario => {
+    if (industry && scenario.targetIndustry.toLowerCase() !== industry) return false
+    if (filter.education && scenario.preferredEducation !== filter.education) return false
+
+    const text = [scenario.name, scenario.targetRole, scenario.targetIndustry, scenario.description]
+      .join(' ')
+      .toLowerCase()
+    return words.every(word => text.includes(word))
+  })
+}
+
+/**
+ * The fields of a scenario needed to list and pick it.
+ */
+export function summarizeScenario(scenario: CareerScenario): ScenarioSummary {
+  const { id, name, description, targetRole, targetIndustry, minExperienceYears, preferredEducation, region } = scenario
+  return {
+    id,
+    name,
+    description,
+    targetRole,
+    targetIndustry,
+    minExperienceYears,
+    preferredEducation,
+    ...(region ? { region } : {}),
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Scenario templates
+ *
+ * Expands a scenario template into scenarios: the base scenario, then one
+ * scenario per variant. A variant's parameters (seniority, region, company
+ * tier) adjust the base with the fixed rules below; its `overrides` are applied
+ * last, so anything written out explicitly wins over a derived value.
+ */
+
+import { DEFAULT_SENIORITY_LEVEL, seniorityLevels } from '../roles'
+import type { SeniorityLevelId } from '../roles'
+import type {
+  CareerScenario,
+  CommonFailureReason,
+  CompanyTier,
+  ScenarioTemplate,
+  ScenarioVariant,
+  SkillRequirement,
+} from './index'
+
+/**
+ * Rank of each seniority level. Individual contributor and management levels
+ * that are usually reached after similar experience share a rank.
+ */
+const SENIORITY_RANK: Record<SeniorityLevelId, number> = {
+  intern: 0,
+  entry: 1,
+  mid: 2,
+  senior: 3,
+  lead: 4,
+  manager: 4,
+  principal: 5,
+  director: 5,
+  executive: 6,
+}
+
+/**
+ * What a company tier changes, relative to a standard employer.
+ */
+interface CompanyTierAdjustment {
+  /** Multiplier applied to every timeline */
+  timelineFactor: number
+  /** Levels added to every critical skill's minimum proficiency */
+  proficiencyDelta: number
+  /** Competition failure reason the tier implies, if any */
+  competition?: CommonFailureReason
+}
+
+/**
+ * Company tier adjustments.
+ *
+ * Assumptions:
+ * - Startups hire in about 20% less time, with the same skill bar
+ * - Top-tier employers take about 50% longer to get into, expect one more
+ *   proficiency level in critical skills, and turn down at least 40% of
+ *   candidates for reasons of competition alone
+ */
+const COMPANY_TIERS: Record<CompanyTier, CompanyTierAdjustment> = {
+  startup: { timelineFactor: 0.8, proficiencyDelta: 0 },
+  standard: { timelineFactor: 1, proficiencyDelta: 0 },
+  'top-tier': {
+    timelineFactor: 1.5,
+    proficiencyDelta: 1,
+    competition: {
+      category: 'competition',
+      description: 'Top-tier employers receive far more qualified applicants than they have openings',
+      frequency: 40,
+    },
+  },
+}
+
+/**
+ * Raises (or lowers) the minimum proficiency of critical skills, keeping it
+ * between 1 and 5.
+ */
+function shiftCriticalSkills(scenario: CareerScenario, delta: number): SkillRequirement[] {
+  if (delta === 0) return scenario.skillRequirements
+  return scenario.skillRequirements.map(requirement => {
+    if (!requirement.isCritical) return requirement
+    const minProficiency = Math.min(5, Math.max(1, requirement.minProficiency + delta))
+    return { ...requirement, minProficiency: minProficiency as SkillRequirement['minProficiency'] }
+  })
+}
+
+/**
+ * Adjusts a scenario to a seniority level:
+ * - Minimum experience: the fewest years the level commonly accepts (general ladder)
+ * - Critical skills: one proficiency level more when the level is above the
+ *   base seniority, one less when below
+ * - Typical salary range: p25-p75 of the salary level the new minimum experience
+ *   reaches, when the scenario has salary data by experience
+ */
+function applySeniority(
+  scenario: CareerScenario,
+  seniority: SeniorityLevelId,
+  baseSeniority: SeniorityLevelId
+): CareerScenario {
+  const level = seniorityLevels.find(candidate => candidate.id === seniority)
+  if (!level) return scenario
+
+  const minExperienceYears = level.requiredYears.min
+  const step = Math.sign(SENIORITY_RANK[seniority] - SENIORITY_RANK[baseSeniority])
+  const adjusted: CareerScenario = {
+    ...scenario,
+    minExperienceYears,
+    skillRequirements: shiftCriticalSkills(scenario, step),
+  }
+
+  const salary = scenario.salaryByExperience
+  const salaryLevel = salary?.levels.filter(candidate => candidate.minYears <= minExperienceYears).pop()
+  if (salary && salaryLevel) {
+    adjusted.typicalSalaryRange = {
+      min: salaryLevel.percentiles.p25,
+      max: salaryLevel.percentiles.p75,
+      currency: salary.currency,
+    }
+  }
+  return adjusted
+}
+
+/**
+ * Adjusts a scenario to a company tier, relative to the base tier: timelines are
+ * scaled (rounded to whole months, so best <= average <= worst still holds),
+ * critical skills shifted, and the tier's competition failure reason added (or
+ * made at least as frequent).
+ */
+function applyCompanyTier(scenario: CareerScenario, tier: CompanyTier, baseTier: CompanyTier): CareerScenario {
+  const target = COMPANY_TIERS[tier]
+  const base = COMPANY_TIERS[baseTier]
+  const factor = target.timelineFactor / base.timelineFactor
+  const scale = (months: number) => Math.max(1, Math.round(months * factor))
+
+  let commonFailureReasons = scenario.commonFailureReasons
+  const competition = target.competition
+  if (competition) {
+    const existing = commonFailureReasons.findIndex(reason => reason.category === 'competition')
+    commonFailureReasons =
+      existing === -1
+        ? [...commonFailureReasons, competition]
+        : commonFailureReasons.map((reason, index) =>
+            index === existing ? { ...reason, frequency: Math.max(reason.frequency, competition.frequency) } : reason
+          )
+  }
+
+  return {
+    ...scenario,
+    timelineRanges: {
+      bestCaseMonths: scale(scenario.timelineRanges.bestCaseMonths),
+      averageCaseMonths: scale(scenario.timelineRanges.averageCaseMonths),
+      worstCaseMonths: scale(scenario.timelineRanges.worstCaseMonths),
+    },
+    skillRequirements: shiftCriticalSkills(scenario, target.proficiencyDelta - base.proficiencyDelta),
+    commonFailureReasons,
+  }
+}
+
+/**
+ * Builds the scenario for one variant of a template.
+ */
+function expandVariant(template: ScenarioTemplate, variant: ScenarioVariant): CareerScenario {
+  let scenario: CareerScenario = { ...template.base, id: variant.id, name: variant.name }
+
+  if (variant.seniority) {
+    scenario = applySeniority(scenario, variant.seniority, template.seniority ?? DEFAULT_SENIORITY_LEVEL)
+  }
+  if (variant.companyTier) {
+    scenario = applyCompanyTier(scenario, variant.companyTier, template.companyTier ?? 'standard')
+  }
+  if (variant.region) {
+    scenario = { ...scenario, region: variant.region.toUpperCase() }
+  }
+
+  return { ...scenario, ...variant.overrides, id: variant.id, name: variant.name }
+}
+
+/**
+ * Expands a template into its base scenario followed by one scenario per variant.
+ * The template is not validated here; validate it with `validateScenarioTemplate`
+ * and the scenarios with `validateScenarios`.
+ */
+export function expandScenarioTemplate(template: ScenarioTemplate): CareerScenario[] {
+  return [template.base, ...template.variants.map(variant => expandVariant(template, variant))]
+}
+
+/**
+ * Whether parsed scenario data is a template (an object with `base` and
+ * `variants`) rather than a scenario.
+ */
+export function isScenarioTemplate(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && 'base' in value && 'variants' in value
+}
@@ -0,0 +1,335 @@
+/**
+ * Scenario validation
+ *
+ * Checks scenario data (e.g. a JSON or YAML file written by hand) against the
+ * `CareerScenario` shape, then checks that it makes sense: timelines in order,
+ * frequencies and proficiencies in range, known skill IDs and currencies,
+ * salary percentiles in order, and unique scenario IDs. Every problem is
+ * reported with the path of its field, like input validation.
+ */
+
+import { regionalDataset } from '../locations'
+import { seniorityLevels } from '../roles'
+import { exchangeRates } from '../salary'
+import { getSkillDefinition } from '../skills/matching'
+import { Checker } from '../validation/checker'
+import type { ValidationResult } from '../validation'
+import type { CareerScenario, CommonFailureReason, CompanyTier } from './index'
+
+/** Education levels a scenario can prefer */
+const EDUCATION_LEVELS: CareerScenario['preferredEducation'][] = [
+  'high_school',
+  'associates',
+  'bachelors',
+  'masters',
+  'doctorate',
+]
+
+/** Failure reason categories */
+const FAILURE_CATEGORIES: CommonFailureReason['category'][] = [
+  'skill_gap',
+  'timeline',
+  'competition',
+  'preparation',
+  'expectations',
+  'market',
+  'resource_constraint',
+]
+
+/** Employer tiers */
+const COMPANY_TIERS: CompanyTier[] = ['startup', 'standard', 'top-tier']
+
+/** Seniority levels */
+const SENIORITY_LEVELS = seniorityLevels.map(level => level.id)
+
+/** Salary percentiles, lowest first */
+const PERCENTILES = ['p10', 'p25', 'p50', 'p75', 'p90'] as const
+
+/** Longest scenario timeline accepted, in months */
+const MAX_TIMELINE_MONTHS = 600
+
+/**
+ * Checks a currency code against the offline exchange rates.
+ */
+function checkCurrency(checker: Checker, value: unknown, path: string): void {
+  const currency = checker.string(value, path, { nonEmpty: true })
+  if (currency !== undefined && !(currency in exchangeRates)) {
+    checker.fail(path, 'enum', `${path} must be a currency with an exchange rate (got "${currency}")`)
+  }
+}
+
+/**
+ * Checks a region against the countries of the regional dataset.
+ */
+function checkRegion(checker: Checker, value: unknown, path: string): void {
+  const region = checker.string(value, path, { optional: true, nonEmpty: true })
+  if (region !== undefined && !regionalDataset.countries.some(country => country.code === region.toUpperCase())) {
+    checker.fail(path, 'enum', `${path} must be a country code from the regional dataset (got "${region}")`)
+  }
+}
+
+/**
+ * Checks the skill requirements of a scenario.
+ */
+function checkSkillRequirements(checker: Checker, value: unknown, path: string): void {
+  checker.array(value, path)?.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`
+    const requirement = checker.object(item, itemPath)
+    if (!requirement) return
+
+    checker.string(requirement.skillName, `${itemPath}.skillName`, { nonEmpty: true })
+    const skillId = checker.string(requirement.skillId, `${itemPath}.skillId`, { optional: true })
+    if (skillId !== undefined && !getSkillDefinition(skillId)) {
+      checker.fail(`${itemPath}.skillId`, 'enum', `${itemPath}.skillId must be a skill ID from the taxonomy (got "${skillId}")`)
+    }
+    checker.number(requirement.minProficiency, `${itemPath}.minProficiency`, { min: 0, max: 5, integer: true })
+    checker.boolean(requirement.isCritical, `${itemPath}.isCritical`)
+    checker.number(requirement.monthsToLearn, `${itemPath}.monthsToLearn`, {
+      optional: true,
+      min: 0,
+      max: MAX_TIMELINE_MONTHS,
+    })
+  })
+}
+
+/**
+ * Checks the timeline ranges of a scenario: best <= average <= worst.
+ */
+function checkTimelineRanges(checker: Checker, value: unknown, path: string): void {
+  const ranges = checker.object(value, path)
+  if (!ranges) return
+
+  const months = { min: 0, max: MAX_TIMELINE_MONTHS }
+  const best = checker.number(ranges.bestCaseMonths, `${path}.bestCaseMonths`, months)
+  const average = checker.number(ranges.averageCaseMonths, `${path}.averageCaseMonths`, months)
+  const worst = checker.number(ranges.worstCaseMonths, `${path}.worstCaseMonths`, months)
+  if (best !== undefined && average !== undefined && best > average) {
+    checker.fail(
+      `${path}.bestCaseMonths`,
+      'invariant',
+      `${path}.bestCaseMonths (${best}) cannot be more than averageCaseMonths (${average})`
+    )
+  }
+  if (average !== undefined && worst !== undefined && average > worst) {
+    checker.fail(
+      `${path}.averageCaseMonths`,
+      'invariant',
+      `${path}.averageCaseMonths (${average}) cannot be more than worstCaseMonths (${worst})`
+    )
+  }
+}
+
+/**
+ * Checks the daily time requirements of a scenario.
+ */
+function checkTimeRequirements(checker: Checker, value: unknown, path: string): void {
+  const requirements = checker.object(value, path)
+  if (!requirements) return
+
+  const hours = { min: 0, max: 24 }
+  checker.number(requirements.skillBuildingHours, `${path}.skillBuildingHours`, hours)
+  checker.number(requirements.jobSearchHours, `${path}.jobSearchHours`, hours)
+  checker.number(requirements.interviewPrepHours, `${path}.interviewPrepHours`, hours)
+  checker.boolean(requirements.isOnTopOfFullTimeJob, `${path}.isOnTopOfFullTimeJob`)
+}
+
+/**
+ * Checks the common failure reasons of a scenario.
+ */
+function checkFailureReasons(checker: Checker, value: unknown, path: string): void {
+  checker.array(value, path)?.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`
+    const reason = checker.object(item, itemPath)
+    if (!reason) return
+
+    checker.oneOf(reason.category, `${itemPath}.category`, FAILURE_CATEGORIES)
+    checker.string(reason.description, `${itemPath}.description`, { nonEmpty: true })
+    checker.number(reason.frequency, `${itemPath}.frequency`, { min: 0, max: 100 })
+  })
+}
+
+/**
+ * Checks the salary data of a scenario: levels in ascending `minYears` order
+ * starting at 0, and percentiles in ascending order within each level.
+ */
+function checkSalaryData(checker: Checker, value: unknown, path: string): void {
+  const salary = checker.object(value, path, true)
+  if (!salary) return
+
+  checkCurrency(checker, salary.currency, `${path}.currency`)
+  const levels = checker.array(salary.levels, `${path}.levels`)
+  if (levels?.length === 0) {
+    checker.fail(`${path}.levels`, 'required', `${path}.levels must list at least one level`)
+  }
+
+  let previousMinYears: number | undefined
+  levels?.forEach((item, index) => {
+    const itemPath = `${path}.levels[${index}]`
+    const level = checker.object(item, itemPath)
+    if (!level) return
+
+    const minYears = checker.number(level.minYears, `${itemPath}.minYears`, { min: 0, max: 70 })
+    if (index === 0 && minYears !== undefined && minYears !== 0) {
+      checker.fail(`${itemPath}.minYears`, 'invariant', `${itemPath}.minYears must be 0 for the first level (got ${minYears})`)
+    }
+    if (minYears !== undefined && previousMinYears !== undefined && minYears <= previousMinYears) {
+      checker.fail(
+        `${itemPath}.minYears`,
+        'invariant',
+        `${itemPath}.minYears (${minYears}) must be more than the previous level's (${previousMinYears})`
+      )
+    }
+    previousMinYears = minYears ?? previousMinYears
+    checker.string(level.label, `${itemPath}.label`, { nonEmpty: true })
+
+    const percentiles = checker.object(level.percentiles, `${itemPath}.percentiles`)
+    if (!percentiles) return
+    const amounts = PERCENTILES.map(key =>
+      checker.number(percentiles[key], `${itemPath}.percentiles.${key}`, { min: 0 })
+    )
+    for (let i = 1; i < amounts.length; i++) {
+      const lower = amounts[i - 1]
+      const upper = amounts[i]
+      if (lower !== undefined && upper !== undefined && lower > upper) {
+        checker.fail(
+          `${itemPath}.percentiles.${PERCENTILES[i]}`,
+          'invariant',
+          `${itemPath}.percentiles.${PERCENTILES[i]} (${upper}) cannot be less than ${PERCENTILES[i - 1]} (${lower})`
+        )
+      }
+    }
+  })
+}
+
+/**
+ * Checks one scenario, recording errors under `path`.
+ */
+function checkScenario(checker: Checker, value: unknown, path: string): void {
+  const scenario = checker.object(value, path)
+  if (!scenario) return
+
+  checker.string(scenario.id, `${path}.id`, { nonEmpty: true })
+  checker.string(scenario.name, `${path}.name`, { nonEmpty: true })
+  checker.string(scenario.description, `${path}.description`, { nonEmpty: true })
+  checker.string(scenario.targetRole, `${path}.targetRole`, { nonEmpty: true })
+  checker.string(scenario.targetIndustry, `${path}.targetIndustry`, { nonEmpty: true })
+  checker.number(scenario.minExperienceYears, `${path}.minExperienceYears`, { min: 0, max: 70 })
+  checker.oneOf(scenario.preferredEducation, `${path}.preferredEducation`, EDUCATION_LEVELS)
+  checkSkillRequirements(checker, scenario.skillRequirements, `${path}.skillRequirements`)
+  checkTimelineRanges(checker, scenario.timelineRanges, `${path}.timelineRanges`)
+  checkTimeRequirements(checker, scenario.timeRequirements, `${path}.timeRequirements`)
+  checkFailureReasons(checker, scenario.commonFailureReasons, `${path}.commonFailureReasons`)
+  checker.string(scenario.notes, `${path}.notes`, { optional: true })
+
+  const salaryRange = checker.object(scenario.typicalSalaryRange, `${path}.typicalSalaryRange`, true)
+  if (salaryRange) {
+    const min = checker.number(salaryRange.min, `${path}.typicalSalaryRange.min`, { min: 0 })
+    const max = checker.number(salaryRange.max, `${path}.typicalSalaryRange.max`, { min: 0 })
+    checkCurrency(checker, salaryRange.currency, `${path}.typicalSalaryRange.currency`)
+    if (min !== undefined && max !== undefined && min > max) {
+      checker.fail(
+        `${path}.typicalSalaryRange.min`,
+        'invariant',
+        `${path}.typicalSalaryRange.min (${min}) cannot be more than max (${max})`
+      )
+    }
+  }
+  checkSalaryData(checker, scenario.salaryByExperience, `${path}.salaryByExperience`)
+  checkRegion(checker, scenario.region, `${path}.region`)
+}
+
+/**
+ * Validates one scenario: its shape and its semantic checks.
+ *
+ * @param value - Untrusted scenario data (e.g. a parsed JSON or YAML file)
+ * @param path - Path prefix for errors (e.g. "faang-sde.yaml")
+ */
+export function validateScenario(value: unknown, path = 'scenario'): ValidationResult {
+  const checker = new Checker()
+  checkScenario(checker, value, path)
+  return { valid: checker.errors.length === 0, errors: checker.errors }
+}
+
+/**
+ * Validates a set of scenarios: each one, and that no two share an ID.
+ *
+ * @param values - Untrusted scenario data
+ * @param paths - Path prefix for each scenario's errors (default: "scenarios[i]")
+ * @param existingIds - IDs that are already taken (e.g. by scenarios already registered)
+ */
+export function validateScenarios(
+  values: unknown[],
+  paths: string[] = values.map((_, index) => `scenarios[${index}]`),
+  existingIds: Iterable<string> = []
+): ValidationResult {
+  const checker = new Checker()
+  const seen = new Map<string, string>([...existingIds].map(id => [id, 'an existing scenario']))
+
+  values.forEach((value, index) => {
+    const path = paths[index]
+    checkScenario(checker, value, path)
+
+    const id = (value as Partial<CareerScenario> | null)?.id
+    if (typeof id !== 'string' || id.trim() === '') return
+    const previous = seen.get(id)
+    if (previous !== undefined) {
+      checker.fail(`${path}.id`, 'invariant', `${path}.id "${id}" is already used by ${previous}`)
+    } else {
+      seen.set(id, path)
+    }
+  })
+
+  return { valid: checker.errors.length === 0, errors: checker.errors }
+}
+
+/**
+ * Validates the structure of a scenario template: the base is an object and
+ * each variant has an ID, a name and known parameters. The base and the
+ * expanded variants are checked as scenarios when they are registered.
+ *
+ * @param value - Untrusted template data
+ * @param path - Path prefix for errors (e.g. "registered-nurse.json")
+ */
+export function validateScenarioTemplate(value: unknown, path = 'template'): ValidationResult {
+  const checker = new Checker()
+  const template = checker.object(value, path)
+  if (template) {
+    checker.object(template.base, `${path}.base`)
+    checker.oneOf(template.seniority, `${path}.seniority`, SENIORITY_LEVELS, true)
+    checker.oneOf(template.companyTier, `${path}.companyTier`, COMPANY_TIERS, true)
+
+    const variants = checker.array(template.variants, `${path}.variants`)
+    if (variants?.length === 0) {
+      checker.fail(`${path}.variants`, 'required', `${path}.variants must list at least one variant`)
+    }
+    variants?.forEach((item, index) => {
+      const itemPath = `${path}.variants[${index}]`
+      const variant = checker.object(item, itemPath)
+      if (!variant) return
+
+      checker.string(variant.id, `${itemPath}.id`, { nonEmpty: true })
+      checker.string(variant.name, `${itemPath}.name`, { nonEmpty: true })
+      checker.oneOf(variant.seniority, `${itemPath}.seniority`, SENIORITY_LEVELS, true)
+      checkRegion(checker, variant.region, `${itemPath}.region`)
+      checker.oneOf(variant.companyTier, `${itemPath}.companyTier`, COMPANY_TIERS, true)
+      checker.object(variant.overrides, `${itemPath}.overrides`, true)
+    })
+  }
+  return { valid: checker.errors.length === 0, errors: checker.errors }
+}
+
+/**
+ * Validates a scenario filter, e.g. one built from query parameters.
+ *
+ * @param value - Untrusted filter data
+ */
+export function validateScenarioFilter(value: unknown): ValidationResult {
+  const checker = new Checker()
+  const filter = checker.object(value, 'filter')
+  if (filter) {
+    checker.string(filter.industry, 'industry', { optional: true })
+    checker.oneOf(filter.education, 'education', EDUCATION_LEVELS, true)
+    checker.string(filter.query, 'query', { optional: true })
+  }
+  return { valid: checker.errors.length === 0, errors: checker.errors }
+}
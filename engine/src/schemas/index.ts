@@ -0,0 +1,41 @@
+/**
+ * Schemas module
+ *
+ * This module contains the published JSON Schemas of `RealityCheckInput` and
+ * `RealityCheckResult`, and the OpenAPI document of the evaluate API, so
+ * clients can validate requests and generate their own bindings.
+ *
+ * The JSON files are generated from the TypeScript types by
+ * scripts/generate-schemas.mjs (`npm run schemas`); `npm run schemas:check`
+ * fails if they are out of date with the types. Schemas are versioned with the
+ * engine: the version is in each schema's `$id` and in the OpenAPI `info`.
+ */
+
+import inputSchema from './reality-check-input.schema.json'
+import resultSchema from './reality-check-result.schema.json'
+import openApi from './openapi.json'
+
+/**
+ * A JSON Schema or OpenAPI document, as plain JSON.
+ */
+export type JsonDocument = Record<string, unknown>
+
+/**
+ * Engine version the schemas were generated for.
+ */
+export const schemaVersion: string = openApi.info.version
+
+/**
+ * JSON Schema (draft 2020-12) of `RealityCheckInput`.
+ */
+export const realityCheckInputSchema: JsonDocument = inputSchema
+
+/**
+ * JSON Schema (draft 2020-12) of `RealityCheckResult`.
+ */
+export const realityCheckResultSchema: JsonDocument = resultSchema
+
+/**
+ * OpenAPI 3.1 document of the evaluate API (`POST /api/evaluate`).
+ */
+export const openApiDocument: JsonDocument = openApi
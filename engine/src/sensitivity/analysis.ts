@@ -0,0 +1,327 @@
+/**
+ * Sensitivity analysis
+ *
+ * Nudges each input field up and down, re-evaluates, and ranks the fields by how
+ * much they move the overall score and the band timelines. Evaluation is
+ * deterministic and cheap, so every field is simply evaluated with each change.
+ */
+
+import type { RealityCheckInput, RealityCheckResult, UserProfile, CareerGoal, Education, Skill } from '../models'
+import { Evaluator } from '../evaluator'
+import type { FieldSensitivity, SensitivityOptions, SensitivityReport, SensitivityVariant } from './index'
+
+/**
+ * A change to try for one field.
+ */
+interface Perturbation {
+  description: string
+  value: number | string | boolean
+  apply: (input: RealityCheckInput) => RealityCheckInput
+}
+
+/**
+ * An input field and the changes to try for it.
+ */
+interface PerturbedField {
+  field: string
+  label: string
+  currentValue: number | string | boolean
+  perturbations: Perturbation[]
+}
+
+/** Education levels, lowest first */
+const EDUCATION_LEVELS: Education['level'][] = ['none', 'high_school', 'associates', 'bachelors', 'masters', 'doctorate']
+
+/** Employment statuses */
+const EMPLOYMENT_STATUSES: UserProfile['employmentStatus'][] = ['employed', 'unemployed', 'self_employed', 'student']
+
+/** Months the target timeline is moved down and up */
+const TIMELINE_STEP_MONTHS = 6
+
+/** Share salary expectations are moved down and up */
+const SALARY_STEP = 0.2
+
+/**
+ * Returns the input with profile fields replaced.
+ */
+function withProfile(input: RealityCheckInput, changes: Partial<UserProfile>): RealityCheckInput {
+  return { ...input, profile: { ...input.profile, ...changes } }
+}
+
+/**
+ * Returns the input with goal fields replaced.
+ */
+function withGoal(input: RealityCheckInput, changes: Partial<CareerGoal>): RealityCheckInput {
+  return { ...input, goal: { ...input.goal, ...changes } }
+}
+
+/**
+ * Formats a field value for display (e.g. "high school", "yes").
+ */
+function formatValue(value: number | string | boolean): string {
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  return String(value).replace('_', ' ')
+}
+
+/**
+ * Builds the fields to perturb and the changes to try for each.
+ *
+ * - Years of experience: one year less and one more (relevant years never
+ *   exceed total years)
+ * - Education level and skill proficiencies: one level down and one up
+ * - Employment status: every other status
+ * - Target timeline: 6 months shorter and longer
+ * - Remote-only, location flexibility: switched (location flexibility only with
+ *   a location); target location: removed (if set)
+ * - Salary expectations: 20% lower and higher (if set); the minimum is never
+ *   raised above the desired salary, and lowering the desired salary lowers
+ *   the minimum with it if needed
+ */
+function buildFields(input: RealityCheckInput): PerturbedField[] {
+  const { profile, goal } = input
+  const fields: PerturbedField[] = []
+  const { relevantYears, totalYears } = profile.experience
+
+  const step = (from: number, to: number, unit: string) => `${from} → ${to} ${unit}`
+
+  fields.push({
+    field: 'profile.experience.relevantYears',
+    label: 'Relevant experience',
+    currentValue: relevantYears,
+    perturbations: [relevantYears - 1, relevantYears + 1]
+      .filter(years => years >= 0)
+      .map(years => ({
+        description: step(relevantYears, years, 'years'),
+        value: years,
+        apply: changed =>
+          withProfile(changed, {
+            experience: { ...changed.profile.experience, relevantYears: years, totalYears: Math.max(totalYears, years) },
+          }),
+      })),
+  })
+
+  fields.push({
+    field: 'profile.experience.totalYears',
+    label: 'Total experience',
+    currentValue: totalYears,
+    perturbations: [totalYears - 1, totalYears + 1]
+      .filter(years => years >= relevantYears)
+      .map(years => ({
+        description: step(totalYears, years, 'years'),
+        value: years,
+        apply: changed => withProfile(changed, { experience: { ...changed.profile.experience, totalYears: years } }),
+      })),
+  })
+
+  const levelIndex = EDUCATION_LEVELS.indexOf(profile.education.level)
+  fields.push({
+    field: 'profile.education.level',
+    label: 'Education level',
+    currentValue: profile.education.level,
+    perturbations: [EDUCATION_LEVELS[levelIndex - 1], EDUCATION_LEVELS[levelIndex + 1]]
+      .filter((level): level is Education['level'] => level !== undefined)
+      .map(level => ({
+        description: `${formatValue(profile.education.level)} → ${formatValue(level)}`,
+        value: level,
+        apply: changed => withProfile(changed, { education: { ...changed.profile.education, level } }),
+      })),
+  })
+
+  profile.skills.forEach((skill, index) => {
+    fields.push({
+      field: `profile.skills[${index}].proficiency`,
+      label: `${skill.name} proficiency`,
+      currentValue: skill.proficiency,
+      perturbations: [skill.proficiency - 1, skill.proficiency + 1]
+        .filter(level => level >= 0 && level <= 5)
+        .map(level => ({
+          description: step(skill.proficiency, level, '/ 5'),
+          value: level,
+          apply: changed =>
+            withProfile(changed, {
+              skills: changed.profile.skills.map((candidate, candidateIndex) =>
+                candidateIndex === index ? { ...candidate, proficiency: level as Skill['proficiency'] } : candidate
+              ),
+            }),
+        })),
+    })
+  })
+
+  fields.push({
+    field: 'profile.employmentStatus',
+    label: 'Employment status',
+    currentValue: profile.employmentStatus,
+    perturbations: EMPLOYMENT_STATUSES.filter(status => status !== profile.employmentStatus).map(status => ({
+      description: `${formatValue(profile.employmentStatus)} → ${formatValue(status)}`,
+      value: status,
+      apply: changed => withProfile(changed, { employmentStatus: status }),
+    })),
+  })
+
+  const location = profile.location
+  if (location) {
+    const isFlexible = location.isFlexible === true
+    fields.push({
+      field: 'profile.location.isFlexible',
+      label: 'Location flexibility',
+      currentValue: isFlexible,
+      perturbations: [
+        {
+          description: `${formatValue(isFlexible)} → ${formatValue(!isFlexible)}`,
+          value: !isFlexible,
+          apply: changed => withProfile(changed, { location: { ...location, isFlexible: !isFlexible } }),
+        },
+      ],
+    })
+  }
+
+  const { targetMonths } = goal.timeline
+  fields.push({
+    field: 'goal.timeline.targetMonths',
+    label: 'Target timeline',
+    currentValue: targetMonths,
+    perturbations: [targetMonths - TIMELINE_STEP_MONTHS, targetMonths + TIMELINE_STEP_MONTHS]
+      .filter(months => months >= 1)
+      .map(months => ({
+        description: step(targetMonths, months, 'months'),
+        value: months,
+        apply: changed => withGoal(changed, { timeline: { ...changed.goal.timeline, targetMonths: months } }),
+      })),
+  })
+
+  const remoteOnly = goal.requirements?.remoteOnly === true
+  fields.push({
+    field: 'goal.requirements.remoteOnly',
+    label: 'Remote only',
+    currentValue: remoteOnly,
+    perturbations: [
+      {
+        description: `${formatValue(remoteOnly)} → ${formatValue(!remoteOnly)}`,
+        value: !remoteOnly,
+        apply: changed => withGoal(changed, { requirements: { ...changed.goal.requirements, remoteOnly: !remoteOnly } }),
+      },
+    ],
+  })
+
+  const targetLocation = goal.requirements?.targetLocation
+  if (targetLocation) {
+    fields.push({
+      field: 'goal.requirements.targetLocation',
+      label: 'Target location',
+      currentValue: targetLocation,
+      perturbations: [
+        {
+          description: `${targetLocation} → none`,
+          value: '',
+          apply: changed =>
+            withGoal(changed, { requirements: { ...changed.goal.requirements, targetLocation: undefined } }),
+        },
+      ],
+    })
+  }
+
+  const salary = goal.salaryExpectation
+  if (salary) {
+    for (const key of ['desired', 'minimum'] as const) {
+      fields.push({
+        field: `goal.salaryExpectation.${key}`,
+        label: key === 'desired' ? 'Desired salary' : 'Minimum salary',
+        currentValue: salary[key],
+        perturbations: [1 - SALARY_STEP, 1 + SALARY_STEP]
+          .map(factor => Math.round((salary[key] * factor) / 1000) * 1000)
+          .map(amount => (key === 'minimum' ? Math.min(amount, salary.desired) : amount))
+          .filter(amount => amount !== salary[key])
+          .map(amount => ({
+            description: `${salary[key].toLocaleString('en-US')} → ${amount.toLocaleString('en-US')} ${salary.currency}`,
+            value: amount,
+            apply: changed => {
+              const expectation = { ...salary, ...changed.goal.salaryExpectation, [key]: amount }
+              const minimum = Math.min(expectation.minimum, expectation.desired)
+              return withGoal(changed, { salaryExpectation: { ...expectation, minimum } })
+            },
+          })),
+      })
+    }
+  }
+
+  return fields.filter(field => field.perturbations.length > 0)
+}
+
+/**
+ * IDs of the warning rules that fired, without duplicates.
+ */
+function firedWarningRules(result: RealityCheckResult): string[] {
+  return [...new Set(result.warnings.map(warning => warning.ruleId ?? warning.flag))]
+}
+
+/**
+ * Measures how sensitive an evaluation is to each input field.
+ *
+ * For every field (see `buildFields`), each change is evaluated on its own and
+ * compared with the unchanged input:
+ * - `low` and `high` are the changes with the lowest and highest overall score
+ * - Swings include "no change", so a field whose every change raises the score
+ *   still has a swing from 0 up to its largest increase
+ * - Fields are ranked by score swing, then average-case timeline swing
+ *
+ * The scenario of the unchanged evaluation is kept for every change, so fields
+ * are compared against the same path.
+ */
+export function sensitivity(input: RealityCheckInput, options: SensitivityOptions = {}): SensitivityReport {
+  const evaluator = options.evaluator ?? new Evaluator()
+  const baseline = evaluator.evaluate(input)
+  const pinnedInput: RealityCheckInput = { ...input, scenarioId: input.scenarioId ?? baseline.metadata.scenarioId }
+  const baselineWarnings = firedWarningRules(baseline)
+  const bands = baseline.probabilityBands
+  let evaluations = 0
+
+  const fields: FieldSensitivity[] = buildFields(input).map(field => {
+    const variants: SensitivityVariant[] = field.perturbations.map(perturbation => {
+      const result = evaluator.evaluate(perturbation.apply(pinnedInput))
+      evaluations++
+      const warnings = firedWarningRules(result)
+      return {
+        description: perturbation.description,
+        value: perturbation.value,
+        overallScoreDelta: result.overallScore - baseline.overallScore,
+        timelineDeltas: {
+          best: result.probabilityBands.best.estimatedTimelineMonths - bands.best.estimatedTimelineMonths,
+          average: result.probabilityBands.average.estimatedTimelineMonths - bands.average.estimatedTimelineMonths,
+          worst: result.probabilityBands.worst.estimatedTimelineMonths - bands.worst.estimatedTimelineMonths,
+        },
+        warningsAdded: warnings.filter(ruleId => !baselineWarnings.includes(ruleId)),
+        warningsRemoved: baselineWarnings.filter(ruleId => !warnings.includes(ruleId)),
+      }
+    })
+
+    const byScore = [...variants].sort((a, b) => a.overallScoreDelta - b.overallScoreDelta)
+    const scoreDeltas = [0, ...variants.map(variant => variant.overallScoreDelta)]
+    const timelineDeltas = [0, ...variants.map(variant => variant.timelineDeltas.average)]
+
+    return {
+      field: field.field,
+      label: field.label,
+      currentValue: field.currentValue,
+      low: byScore[0],
+      high: byScore[byScore.length - 1],
+      scoreSwing: Math.max(...scoreDeltas) - Math.min(...scoreDeltas),
+      timelineSwing: Math.max(...timelineDeltas) - Math.min(...timelineDeltas),
+      variants,
+    }
+  })
+
+  return {
+    baseline: {
+      overallScore: baseline.overallScore,
+      timelines: {
+        best: bands.best.estimatedTimelineMonths,
+        average: bands.average.estimatedTimelineMonths,
+        worst: bands.worst.estimatedTimelineMonths,
+      },
+      warnings: baselineWarnings,
+    },
+    // Array.prototype.sort is stable, so ties keep the field order
+    fields: fields.sort((a, b) => b.scoreSwing - a.scoreSwing || b.timelineSwing - a.timelineSwing),
+    evaluations,
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Sensitivity module
+ *
+ * This module contains the types for sensitivity analysis: each input field is
+ * nudged up and down, and the changes in the overall score, band timelines and
+ * warnings show which fields matter most for a profile (see `sensitivity` in
+ * analysis.ts).
+ */
+
+import type { ProbabilityBand } from '../models'
+import type { Evaluator } from '../evaluator'
+
+/**
+ * The effect of one change to one input field.
+ */
+export interface SensitivityVariant {
+  /** Human-readable description of the change (e.g. "3 → 4 years") */
+  description: string
+  /** Value of the field after the change */
+  value: number | string | boolean
+  /** Change in the overall score (positive: higher score) */
+  overallScoreDelta: number
+  /** Change in each band's estimated timeline, in months (negative: faster) */
+  timelineDeltas: Record<ProbabilityBand, number>
+  /** IDs of the warning rules that fire only after the change */
+  warningsAdded: string[]
+  /** IDs of the warning rules that no longer fire after the change */
+  warningsRemoved: string[]
+}
+
+/**
+ * How sensitive the result is to one input field.
+ */
+export interface FieldSensitivity {
+  /** Path of the field in the input (e.g. "profile.experience.relevantYears") */
+  field: string
+  /** Human-readable name of the field */
+  label: string
+  /** Value of the field in the input */
+  currentValue: number | string | boolean
+  /** The change with the lowest overall score */
+  low: SensitivityVariant
+  /** The change with the highest overall score */
+  high: SensitivityVariant
+  /**
+   * Spread of the overall score deltas, counting the unchanged input as a delta
+   * of 0: the largest delta minus the smallest. Equal to `high` minus `low`
+   * score delta unless every change moves the score the same way
+   */
+  scoreSwing: number
+  /** Spread of the average-case timeline deltas in months, counting the unchanged input as 0 */
+  timelineSwing: number
+  /** Every change tried, in the order tried */
+  variants: SensitivityVariant[]
+}
+
+/**
+ * Result of a sensitivity analysis.
+ */
+export interface SensitivityReport {
+  /** Values of the unchanged input */
+  baseline: {
+    overallScore: number
+    timelines: Record<ProbabilityBand, number>
+    /** IDs of the warning rules that fired */
+    warnings: string[]
+  }
+  /** Fields ranked by score swing, then timeline swing (largest first) */
+  fields: FieldSensitivity[]
+  /** Number of changed inputs evaluated */
+  evaluations: number
+}
+
+/**
+ * Options for `sensitivity`.
+ */
+export interface SensitivityOptions {
+  /** Evaluator to score each changed input with (default: a default `Evaluator`) */
+  evaluator?: Evaluator
+}
@@ -0,0 +1,200 @@
+/**
+ * Skills module
+ *
+ * This module defines the skill taxonomy: canonical skill IDs, the names people
+ * use for them (aliases), and parent/child relationships between skills.
+ *
+ * The taxonomy lets the engine recognise that "PyTorch" is a kind of
+ * "Deep Learning", or that "Python" is "a programming language", instead of
+ * relying on substring luck.
+ */
+
+/**
+ * A canonical skill in the taxonomy.
+ */
+export interface SkillDefinition {
+  /** Canonical skill ID (kebab-case, e.g. "deep-learning") */
+  id: string
+  /** Human-readable canonical name */
+  name: string
+  /** Other names for the same skill (matched case-insensitively) */
+  aliases: string[]
+  /**
+   * ID of the broader skill this one is a kind of (optional).
+   * A child skill satisfies a requirement for its direct parent (e.g. PyTorch satisfies Deep Learning).
+   */
+  parentId?: string
+  /**
+   * IDs of skills that should be learned before this one (optional), used to
+   * order learning roadmaps. A prerequisite is covered by the skill itself or a
+   * skill directly above or below it (e.g. Python covers "a programming language").
+   */
+  prerequisiteIds?: string[]
+}
+
+/**
+ * Skill taxonomy.
+ *
+ * Assumptions:
+ * - Knowing a specific tool counts as knowing the broader skill directly above it
+ *   (e.g. PyTorch at level 4 satisfies Deep Learning at level 4)
+ * - This does not carry further up the tree: PyTorch alone does not show
+ *   Machine Learning fundamentals
+ * - Knowing a broad skill does NOT count as knowing a specific tool
+ *   (e.g. Deep Learning does not satisfy a PyTorch requirement)
+ * - Prerequisites list only the foundations most courses assume (e.g. Machine
+ *   Learning assumes programming and statistics), not every helpful skill
+ */
+export const skillTaxonomy: SkillDefinition[] = [
+  // Programming languages
+  {
+    id: 'programming-language',
+    name: 'Programming Language',
+    aliases: ['programming', 'coding', 'at least one programming language'],
+  },
+  { id: 'python', name: 'Python', aliases: ['python3', 'python 3'], parentId: 'programming-language' },
+  { id: 'java', name: 'Java', aliases: [], parentId: 'programming-language' },
+  { id: 'cpp', name: 'C++', aliases: ['cpp', 'c plus plus'], parentId: 'programming-language' },
+  { id: 'c', name: 'C', aliases: [], parentId: 'programming-language' },
+  { id: 'csharp', name: 'C#', aliases: ['c sharp', 'csharp', '.net'], parentId: 'programming-language' },
+  { id: 'javascript', name: 'JavaScript', aliases: ['js', 'ecmascript', 'node.js', 'nodejs', 'node'], parentId: 'programming-language' },
+  {
+    id: 'typescript',
+    name: 'TypeScript',
+    aliases: ['ts'],
+    parentId: 'programming-language',
+    prerequisiteIds: ['javascript'],
+  },
+  { id: 'go', name: 'Go', aliases: ['golang'], parentId: 'programming-language' },
+  { id: 'rust', name: 'Rust', aliases: [], parentId: 'programming-language' },
+  { id: 'ruby', name: 'Ruby', aliases: [], parentId: 'programming-language' },
+  { id: 'kotlin', name: 'Kotlin', aliases: [], parentId: 'programming-language' },
+  { id: 'swift', name: 'Swift', aliases: [], parentId: 'programming-language' },
+  { id: 'scala', name: 'Scala', aliases: [], parentId: 'programming-language' },
+  { id: 'r', name: 'R', aliases: ['r programming', 'rstats'], parentId: 'programming-language' },
+  { id: 'php', name: 'PHP', aliases: [], parentId: 'programming-language' },
+  { id: 'sql', name: 'SQL', aliases: ['postgresql', 'postgres', 'mysql', 'sql server', 't-sql'] },
+
+  // Computer science and software engineering
+  {
+    id: 'computer-science-fundamentals',
+    name: 'Computer Science Fundamentals',
+    aliases: ['cs fundamentals', 'computer science', 'cs'],
+  },
+  {
+    id: 'data-structures-algorithms',
+    name: 'Data Structures and Algorithms',
+    aliases: ['dsa', 'algorithms', 'data structures', 'data structures & algorithms', 'leetcode'],
+    parentId: 'computer-science-fundamentals',
+    prerequisiteIds: ['programming-language'],
+  },
+  { id: 'operating-systems', name: 'Operating Systems', aliases: ['os'], parentId: 'computer-science-fundamentals' },
+  { id: 'computer-networks', name: 'Computer Networks', aliases: ['computer networking'], parentId: 'computer-science-fundamentals' },
+  {
+    id: 'system-design',
+    name: 'System Design',
+    aliases: ['systems design', 'distributed systems', 'software architecture'],
+    prerequisiteIds: ['programming-language'],
+  },
+  { id: 'problem-solving', name: 'Problem Solving', aliases: ['analytical thinking', 'problem-solving'] },
+  {
+    id: 'software-engineering',
+    name: 'Software Engineering',
+    aliases: ['software development', 'software engineering practices'],
+    prerequisiteIds: ['programming-language'],
+  },
+  {
+    id: 'testing',
+    name: 'Software Testing',
+    aliases: ['unit testing', 'test automation', 'qa'],
+    prerequisiteIds: ['programming-language'],
+  },
+  { id: 'version-control', name: 'Version Control', aliases: ['git', 'github'] },
+  { id: 'web-development', name: 'Web Development', aliases: ['web dev', 'frontend', 'front-end'] },
+  {
+    id: 'react',
+    name: 'React',
+    aliases: ['reactjs', 'react.js'],
+    parentId: 'web-development',
+    prerequisiteIds: ['javascript', 'html-css'],
+  },
+  {
+    id: 'angular',
+    name: 'Angular',
+    aliases: ['angularjs'],
+    parentId: 'web-development',
+    prerequisiteIds: ['javascript', 'html-css'],
+  },
+  {
+    id: 'vue',
+    name: 'Vue',
+    aliases: ['vuejs', 'vue.js'],
+    parentId: 'web-development',
+    prerequisiteIds: ['javascript', 'html-css'],
+  },
+  { id: 'html-css', name: 'HTML/CSS', aliases: ['html', 'css'], parentId: 'web-development' },
+  { id: 'cloud-computing', name: 'Cloud Computing', aliases: ['cloud'] },
+  { id: 'aws', name: 'AWS', aliases: ['amazon web services'], parentId: 'cloud-computing' },
+  { id: 'gcp', name: 'Google Cloud', aliases: ['gcp', 'google cloud platform'], parentId: 'cloud-computing' },
+  { id: 'azure', name: 'Azure', aliases: ['microsoft azure'], parentId: 'cloud-computing' },
+
+  // Machine learning and data
+  {
+    id: 'machine-learning',
+    name: 'Machine Learning',
+    aliases: ['ml', 'machine learning fundamentals', 'ml fundamentals'],
+    prerequisiteIds: ['programming-language', 'statistics'],
+  },
+  {
+    id: 'deep-learning',
+    name: 'Deep Learning',
+    aliases: ['dl', 'neural networks'],
+    parentId: 'machine-learning',
+    prerequisiteIds: ['machine-learning', 'linear-algebra'],
+  },
+  { id: 'tensorflow', name: 'TensorFlow', aliases: ['tf'], parentId: 'deep-learning' },
+  { id: 'pytorch', name: 'PyTorch', aliases: ['torch'], parentId: 'deep-learning' },
+  { id: 'keras', name: 'Keras', aliases: [], parentId: 'deep-learning' },
+  { id: 'scikit-learn', name: 'scikit-learn', aliases: ['sklearn', 'scikit learn'], parentId: 'machine-learning' },
+  {
+    id: 'mlops',
+    name: 'MLOps',
+    aliases: ['ml ops', 'model deployment', 'mlops / model deployment', 'ml deployment'],
+    prerequisiteIds: ['machine-learning', 'software-engineering'],
+  },
+  { id: 'data-analysis', name: 'Data Analysis', aliases: ['data analytics', 'analytics'] },
+  { id: 'excel', name: 'Excel', aliases: ['microsoft excel', 'spreadsheets'], parentId: 'data-analysis' },
+  { id: 'pandas', name: 'pandas', aliases: [], parentId: 'data-analysis', prerequisiteIds: ['python'] },
+  { id: 'tableau', name: 'Tableau', aliases: [], parentId: 'data-analysis' },
+  { id: 'power-bi', name: 'Power BI', aliases: ['powerbi'], parentId: 'data-analysis' },
+
+  // Mathematics
+  {
+    id: 'mathematics',
+    name: 'Mathematics',
+    aliases: ['math', 'maths', 'statistics and mathematics', 'mathematics and statistics'],
+  },
+  {
+    id: 'statistics',
+    name: 'Statistics',
+    aliases: ['stats', 'statistical analysis', 'statistical methods'],
+    parentId: 'mathematics',
+  },
+  { id: 'linear-algebra', name: 'Linear Algebra', aliases: [], parentId: 'mathematics' },
+  { id: 'calculus', name: 'Calculus', aliases: [], parentId: 'mathematics' },
+  { id: 'probability', name: 'Probability', aliases: ['probability theory'], parentId: 'mathematics' },
+
+  // Research and academia
+  { id: 'research-methodology', name: 'Research Methodology', aliases: ['research methods', 'research'] },
+  {
+    id: 'academic-writing',
+    name: 'Academic Writing',
+    aliases: ['scientific writing', 'paper writing'],
+    prerequisiteIds: ['research-methodology'],
+  },
+  { id: 'literature-review', name: 'Literature Review', aliases: ['literature survey'] },
+
+  // General professional skills
+  { id: 'project-management', name: 'Project Management', aliases: ['agile', 'scrum'] },
+  { id: 'communication', name: 'Communication', aliases: ['communication skills', 'public speaking'] },
+]
@@ -0,0 +1,274 @@
+/**
+ * Skill matching
+ *
+ * Resolves free-text skill names to canonical skills in the taxonomy and decides
+ * which of the user's skills satisfies a scenario skill requirement.
+ * Every match records how it was made, so the result can explain it.
+ */
+
+import type { Skill, SkillMatch } from '../models'
+import type { SkillRequirement } from '../scenarios'
+import { skillTaxonomy } from './index'
+import type { SkillDefinition } from './index'
+
+/**
+ * A free-text skill name resolved to a canonical skill.
+ */
+export interface SkillResolution {
+  /** The canonical skill */
+  skill: SkillDefinition
+  /** How the name was resolved */
+  method: 'exact' | 'alias' | 'fuzzy'
+}
+
+/**
+ * Normalizes a skill name for comparison: lowercase, single spaces, trimmed.
+ */
+export function normalizeSkillName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/** Canonical skills by ID */
+const skillsById = new Map(skillTaxonomy.map(skill => [skill.id, skill]))
+
+/** Canonical names and aliases, normalized, with the method they resolve by */
+const nameIndex = new Map<string, { skill: SkillDefinition; method: 'exact' | 'alias' }>()
+for (const skill of skillTaxonomy) {
+  for (const alias of skill.aliases) {
+    nameIndex.set(normalizeSkillName(alias), { skill, method: 'alias' })
+  }
+}
+for (const skill of skillTaxonomy) {
+  // Canonical names take precedence over aliases of other skills
+  nameIndex.set(normalizeSkillName(skill.name), { skill, method: 'exact' })
+}
+
+/**
+ * Looks up a canonical skill by ID.
+ */
+export function getSkillDefinition(id: string): SkillDefinition | undefined {
+  return skillsById.get(id)
+}
+
+/**
+ * Edit distance between two strings: insertions, deletions, substitutions and
+ * swaps of two adjacent characters each count as one edit ("pyhton" to "python" is 1).
+ */
+function editDistance(a: string, b: string): number {
+  const distances: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1, // deletion
+        distances[i][j - 1] + 1, // insertion
+        distances[i - 1][j - 1] + cost // substitution
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1) // adjacent swap
+      }
+    }
+  }
+
+  return distances[a.length][b.length]
+}
+
+/**
+ * Typos tolerated by fuzzy matching.
+ * Names under 6 characters must match exactly: one edit turns too many short
+ * words into skills ("Shift" into Swift, "Rugby" into Ruby). 6-8 characters
+ * allow 1 edit; 9+ characters allow 2 edits.
+ */
+function allowedTypos(name: string): number {
+  if (name.length >= 9) return 2
+  if (name.length >= 6) return 1
+  return 0
+}
+
+/**
+ * Resolves a free-text skill name to a canonical skill.
+ *
+ * Resolution order:
+ * 1. Exact canonical name or alias (case-insensitive)
+ * 2. The same, with any parenthetical removed (e.g. "Deep Learning (TensorFlow/PyTorch)")
+ * 3. Fuzzy: closest canonical name or alias within the allowed number of typos,
+ *    starting with the same letter (ties keep taxonomy order)
+ *
+ * @returns The resolved skill, or undefined if the name is not in the taxonomy
+ */
+export function resolveSkill(name: string): SkillResolution | undefined {
+  const normalized = normalizeSkillName(name)
+  const withoutParenthetical = normalizeSkillName(normalized.replace(/\([^)]*\)/g, ' '))
+
+  for (const candidate of [normalized, withoutParenthetical]) {
+    const entry = nameIndex.get(candidate)
+    if (entry) {
+      return { skill: entry.skill, method: entry.method }
+    }
+  }
+
+  const maxTypos = allowedTypos(withoutParenthetical)
+  if (maxTypos === 0) {
+    return undefined
+  }
+
+  let best: { skill: SkillDefinition; distance: number } | undefined
+  for (const [indexedName, entry] of nameIndex) {
+    // Typos are not assumed in the first letter
+    if (indexedName[0] !== withoutParenthetical[0]) continue
+    const distance = editDistance(withoutParenthetical, indexedName)
+    if (distance <= maxTypos && (!best || distance < best.distance)) {
+      best = { skill: entry.skill, distance }
+    }
+  }
+
+  return best ? { skill: best.skill, method: 'fuzzy' } : undefined
+}
+
+/**
+ * Whether `skillId` is a direct child of `parentId` in the taxonomy
+ * (e.g. pytorch is a child of deep-learning, but not of machine-learning).
+ */
+export function isChildSkill(skillId: string, parentId: string): boolean {
+  return skillsById.get(skillId)?.parentId === parentId
+}
+
+/**
+ * Splits a name into lowercase words for text matching.
+ */
+function words(name: string): string[] {
+  return normalizeSkillName(name)
+    .split(/[^a-z0-9+#]+/)
+    .filter(word => word.length > 0)
+}
+
+/**
+ * Resolves the canonical skill of a requirement (explicit `skillId` first, then by name).
+ */
+function resolveRequirement(requirement: SkillRequirement): SkillDefinition | undefined {
+  if (requirement.skillId) {
+    return skillsById.get(requirement.skillId)
+  }
+  return resolveSkill(requirement.skillName)?.skill
+}
+
+/**
+ * Resolves the canonical skill of a user skill (explicit `skillId` first, then by name).
+ */
+function resolveUserSkill(skill: Skill): SkillResolution | undefined {
+  if (skill.skillId) {
+    const definition = skillsById.get(skill.skillId)
+    return definition ? { skill: definition, method: 'exact' } : undefined
+  }
+  return resolveSkill(skill.name)
+}
+
+/**
+ * Tries to match one user skill against a requirement.
+ */
+function matchOne(
+  requirement: SkillRequirement,
+  required: SkillDefinition | undefined,
+  userSkill: Skill
+): SkillMatch | undefined {
+  const resolved = resolveUserSkill(userSkill)
+  const base = {
+    requirement: requirement.skillName,
+    requirementSkillId: required?.id,
+    userSkill: userSkill.name,
+    userSkillId: resolved?.skill.id,
+    proficiency: userSkill.proficiency,
+    requiredProficiency: requirement.minProficiency,
+    meetsRequirement: userSkill.proficiency >= requirement.minProficiency,
+  }
+
+  // Both sides are canonical skills: compare by ID and hierarchy
+  if (required && resolved) {
+    if (resolved.skill.id === required.id) {
+      const how =
+        resolved.method === 'exact'
+          ? 'matches'
+          : resolved.method === 'alias'
+            ? 'is another name for'
+            : 'looks like a misspelling of'
+      return {
+        ...base,
+        method: resolved.method,
+        explanation: `"${userSkill.name}" ${how} ${required.name}`,
+      }
+    }
+
+    if (isChildSkill(resolved.skill.id, required.id)) {
+      return {
+        ...base,
+        method: 'child',
+        explanation: `"${userSkill.name}" is a kind of ${required.name}`,
+      }
+    }
+
+    return undefined
+  }
+
+  // At least one side is not in the taxonomy: fall back to whole-word text matching
+  const requirementWords = new Set(words(requirement.skillName))
+  const userWords = words(userSkill.name)
+  if (userWords.length === 0 || requirementWords.size === 0) {
+    return undefined
+  }
+  const userWordSet = new Set(userWords)
+  const userInRequirement = userWords.every(word => requirementWords.has(word))
+  const requirementInUser = [...requirementWords].every(word => userWordSet.has(word))
+  if (!userInRequirement && !requirementInUser) {
+    return undefined
+  }
+
+  return {
+    ...base,
+    method: 'text',
+    explanation: `"${userSkill.name}" and "${requirement.skillName}" share the same words`,
+  }
+}
+
+/**
+ * Finds the user skill that best satisfies a scenario skill requirement.
+ *
+ * Among all matching user skills, the one with the highest proficiency wins;
+ * ties prefer the more direct match (exact, alias, fuzzy, child, then text),
+ * then the order the user listed their skills in.
+ *
+ * @returns The match with an explanation, or undefined if no user skill matches
+ */
+export function matchRequirement(requirement: SkillRequirement, userSkills: Skill[]): SkillMatch | undefined {
+  const methodRank: Record<SkillMatch['method'], number> = { exact: 0, alias: 1, fuzzy: 2, child: 3, text: 4 }
+  const required = resolveRequirement(requirement)
+
+  let best: SkillMatch | undefined
+  for (const userSkill of userSkills) {
+    const match = matchOne(requirement, required, userSkill)
+    if (!match) continue
+    if (
+      !best ||
+      match.proficiency > best.proficiency ||
+      (match.proficiency === best.proficiency && methodRank[match.method] < methodRank[best.method])
+    ) {
+      best = match
+    }
+  }
+
+  return best
+}
+
+/**
+ * Matches the user's skills against every requirement in a list.
+ *
+ * @returns One match per requirement that some user skill satisfies, in requirement order
+ */
+export function matchRequirements(requirements: SkillRequirement[], userSkills: Skill[]): SkillMatch[] {
+  return requirements.flatMap(requirement => {
+    const match = matchRequirement(requirement, userSkills)
+    return match ? [match] : []
+  })
+}
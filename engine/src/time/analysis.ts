@@ -0,0 +1,96 @@
+/**
+ * Time analysis
+ *
+ * Measures the profile's dates against the evaluation time: how long ago the
+ * user graduated (and what that is worth for entry-level roles), and how much
+ * unused skills have faded. All of it depends only on the profile and the
+ * given date, so evaluations with the same clock agree.
+ */
+
+import type { Education, Experience, Skill } from '../models'
+import type { YearsRange } from '../roles'
+import { RECENT_GRADUATE_YEARS, SKILL_DECAY_GRACE_YEARS } from './index'
+import type { CareerTimeline, StaleSkill } from './index'
+
+/** Education levels that count as a degree for entry-level roles */
+const DEGREE_LEVELS: Education['level'][] = ['bachelors', 'masters', 'doctorate']
+
+/** Years of experience with a skill from which it decays at the slower rate */
+const DURABLE_SKILL_YEARS = 5
+
+/**
+ * Places the user's education on the calendar of the evaluation.
+ */
+export function analyzeCareerTimeline(education: Education, now: Date): CareerTimeline {
+  const currentYear = now.getUTCFullYear()
+  const yearsSinceGraduation =
+    education.graduationYear !== undefined ? currentYear - education.graduationYear : undefined
+
+  return {
+    evaluatedAt: now.toISOString(),
+    currentYear,
+    yearsSinceGraduation,
+    recentGraduate:
+      yearsSinceGraduation !== undefined &&
+      yearsSinceGraduation >= 0 &&
+      yearsSinceGraduation <= RECENT_GRADUATE_YEARS &&
+      DEGREE_LEVELS.includes(education.level),
+  }
+}
+
+/**
+ * Decays the proficiency of skills that have not been used for a while.
+ *
+ * A skill used in the last `SKILL_DECAY_GRACE_YEARS` years (or without a
+ * `lastUsedYear`) keeps its proficiency. After that it loses one level every 3
+ * idle years, or every 6 if it was used for `DURABLE_SKILL_YEARS` years or more,
+ * but never drops below 1: a skill once held is quicker to relearn.
+ *
+ * @returns The skills with their effective proficiency, and the skills that decayed
+ */
+export function decaySkills(skills: Skill[], currentYear: number): { skills: Skill[]; staleSkills: StaleSkill[] } {
+  const staleSkills: StaleSkill[] = []
+
+  const decayed = skills.map(skill => {
+    if (skill.lastUsedYear === undefined || skill.proficiency <= 1) {
+      return skill
+    }
+    const yearsIdle = Math.max(0, currentYear - skill.lastUsedYear)
+    const yearsPerLevel = (skill.yearsOfExperience ?? 0) >= DURABLE_SKILL_YEARS ? 6 : 3
+    const levelsLost = Math.floor(Math.max(0, yearsIdle - SKILL_DECAY_GRACE_YEARS) / yearsPerLevel)
+    if (levelsLost === 0) {
+      return skill
+    }
+
+    const effectiveProficiency = Math.max(1, skill.proficiency - levelsLost) as Skill['proficiency']
+    staleSkills.push({
+      skillName: skill.name,
+      lastUsedYear: skill.lastUsedYear,
+      yearsIdle,
+      yearsOfExperience: skill.yearsOfExperience,
+      statedProficiency: skill.proficiency,
+      effectiveProficiency,
+    })
+    return { ...skill, proficiency: effectiveProficiency }
+  })
+
+  return { skills: decayed, staleSkills }
+}
+
+/**
+ * Years of relevant experience to compare with a role's requirement: the
+ * stated relevant years, except that recent graduates applying to roles that
+ * accept no experience (`requiredYears.min` of 0, e.g. entry-level) are
+ * credited with the role's typical requirement, since that is who those roles
+ * hire.
+ */
+export function creditedRelevantYears(
+  experience: Experience,
+  requiredYears: YearsRange,
+  careerTimeline: CareerTimeline
+): number {
+  if (careerTimeline.recentGraduate && requiredYears.min === 0) {
+    return Math.max(experience.relevantYears, requiredYears.typical)
+  }
+  return experience.relevantYears
+}
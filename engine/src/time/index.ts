@@ -0,0 +1,55 @@
+/**
+ * Time module
+ *
+ * This module contains the types for time-aware evaluation. The evaluator reads
+ * the current time from an injectable clock (`EvaluatorOptions.now`), so an
+ * evaluation is fully determined by its input and clock, and dates in the
+ * profile (graduation year, when a skill was last used) are measured against it
+ * (see `analyzeCareerTimeline` and `decaySkills` in analysis.ts).
+ */
+
+/**
+ * Source of the current time.
+ */
+export type Clock = () => Date
+
+/**
+ * Where the user is in their career, measured against the evaluation time.
+ */
+export interface CareerTimeline {
+  /** When the evaluation was performed (ISO 8601) */
+  evaluatedAt: string
+  /** Calendar year of the evaluation */
+  currentYear: number
+  /** Years since `Education.graduationYear` (negative if graduation is ahead; absent without a year) */
+  yearsSinceGraduation?: number
+  /**
+   * Whether the user graduated with a bachelor's degree or higher within the
+   * last `RECENT_GRADUATE_YEARS` years; entry-level roles count the degree as
+   * their typical experience requirement
+   */
+  recentGraduate: boolean
+}
+
+/**
+ * A skill whose proficiency decayed because it has not been used for a while.
+ */
+export interface StaleSkill {
+  skillName: string
+  /** Year the skill was last used */
+  lastUsedYear: number
+  /** Whole years since the skill was last used */
+  yearsIdle: number
+  /** Years of experience with the skill (more experience decays more slowly) */
+  yearsOfExperience?: number
+  /** Proficiency as entered (0-5) */
+  statedProficiency: number
+  /** Proficiency after decay, used for matching and scoring (0-5) */
+  effectiveProficiency: number
+}
+
+/** Years a degree counts as recent */
+export const RECENT_GRADUATE_YEARS = 2
+
+/** Years a skill can go unused before it starts to decay */
+export const SKILL_DECAY_GRACE_YEARS = 2
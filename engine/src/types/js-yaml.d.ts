@@ -0,0 +1,21 @@
+/**
+ * Type declarations for js-yaml
+ *
+ * Covers only the part of the js-yaml API the engine uses (parsing scenario
+ * files), since the package ships without types.
+ */
+
+declare module 'js-yaml' {
+  /** Options for `load` */
+  export interface LoadOptions {
+    /** File name to show in error messages */
+    filename?: string
+  }
+
+  /**
+   * Parses one YAML document.
+   *
+   * @throws YAMLException if the text is not valid YAML
+   */
+  export function load(text: string, options?: LoadOptions): unknown
+}
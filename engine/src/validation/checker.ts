@@ -0,0 +1,140 @@
+/**
+ * Validation checker
+ *
+ * Collects path-addressed validation errors for untrusted JSON. Shared by the
+ * input validator (input.ts) and the scenario validator; not part of the public
+ * API.
+ */
+
+import type { ValidationError } from './index'
+
+/**
+ * Describes the type of a value for error messages (e.g. "a string", "NaN").
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN'
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`
+}
+
+/**
+ * Collects validation errors for one input.
+ * Each check returns the value if it passed, so nested checks can continue.
+ */
+export class Checker {
+  readonly errors: ValidationError[] = []
+
+  /**
+   * Records an error.
+   */
+  fail(path: string, code: ValidationError['code'], message: string): void {
+    this.errors.push({ path, code, message })
+  }
+
+  /**
+   * Whether a field is present; records a `required` error if it is missing and required.
+   */
+  private present(value: unknown, path: string, optional: boolean): boolean {
+    if (value !== undefined) return true
+    if (!optional) this.fail(path, 'required', `${path} is required`)
+    return false
+  }
+
+  /**
+   * Checks for an object (not null or an array).
+   */
+  object(value: unknown, path: string, optional = false): Record<string, unknown> | undefined {
+    if (!this.present(value, path, optional)) return undefined
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, 'type', `${path} must be an object (got ${describe(value)})`)
+      return undefined
+    }
+    return value as Record<string, unknown>
+  }
+
+  /**
+   * Checks for a string; `nonEmpty` also rejects blank strings.
+   */
+  string(value: unknown, path: string, { optional = false, nonEmpty = false } = {}): string | undefined {
+    if (!this.present(value, path, optional)) return undefined
+    if (typeof value !== 'string') {
+      this.fail(path, 'type', `${path} must be a string (got ${describe(value)})`)
+      return undefined
+    }
+    if (nonEmpty && value.trim() === '') {
+      this.fail(path, 'required', `${path} must not be empty`)
+      return undefined
+    }
+    return value
+  }
+
+  /**
+   * Checks for a finite number, optionally whole and within `min` and `max` (inclusive).
+   */
+  number(
+    value: unknown,
+    path: string,
+    { optional = false, min, max, integer = false }: { optional?: boolean; min?: number; max?: number; integer?: boolean } = {}
+  ): number | undefined {
+    if (!this.present(value, path, optional)) return undefined
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, 'type', `${path} must be a number (got ${describe(value)})`)
+      return undefined
+    }
+    if (integer && !Number.isInteger(value)) {
+      this.fail(path, 'range', `${path} must be a whole number (got ${value})`)
+      return undefined
+    }
+    if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      const range = max === undefined ? `at least ${min}` : min === undefined ? `at most ${max}` : `between ${min} and ${max}`
+      this.fail(path, 'range', `${path} must be ${range} (got ${value})`)
+      return undefined
+    }
+    return value
+  }
+
+  /**
+   * Checks for a boolean.
+   */
+  boolean(value: unknown, path: string, optional = false): boolean | undefined {
+    if (!this.present(value, path, optional)) return undefined
+    if (typeof value !== 'boolean') {
+      this.fail(path, 'type', `${path} must be true or false (got ${describe(value)})`)
+      return undefined
+    }
+    return value
+  }
+
+  /**
+   * Checks for one of the allowed values.
+   */
+  oneOf<T extends string>(value: unknown, path: string, allowed: readonly T[], optional = false): T | undefined {
+    if (!this.present(value, path, optional)) return undefined
+    if (!allowed.includes(value as T)) {
+      const got = typeof value === 'string' ? `"${value}"` : describe(value)
+      this.fail(path, 'enum', `${path} must be one of ${allowed.join(', ')} (got ${got})`)
+      return undefined
+    }
+    return value as T
+  }
+
+  /**
+   * Checks for an array.
+   */
+  array(value: unknown, path: string, optional = false): unknown[] | undefined {
+    if (!this.present(value, path, optional)) return undefined
+    if (!Array.isArray(value)) {
+      this.fail(path, 'type', `${path} must be an array (got ${describe(value)})`)
+      return undefined
+    }
+    return value
+  }
+
+  /**
+   * Checks for an array of strings.
+   */
+  stringArray(value: unknown, path: string, optional = false): void {
+    this.array(value, path, optional)?.forEach((item, index) => this.string(item, `${path}[${index}]`))
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Validation module
+ *
+ * This module contains the types for runtime input validation: untrusted JSON is
+ * checked against the shapes in models.ts (required fields, types, ranges, enums
+ * and invariants) before it reaches the evaluator (see `validateInput` in
+ * input.ts).
+ */
+
+/**
+ * What kind of check failed:
+ * - required: a required field is missing
+ * - type: a field has the wrong type (e.g. a string proficiency, or NaN)
+ * - range: a number is out of range or not a whole number
+ * - enum: a value is not one of the allowed values
+ * - invariant: fields contradict each other (e.g. `relevantYears > totalYears`)
+ */
+export type ValidationErrorCode = 'required' | 'type' | 'range' | 'enum' | 'invariant'
+
+/**
+ * A field that failed validation.
+ */
+export interface ValidationError {
+  /** Path of the field in the input (e.g. "profile.skills[0].proficiency") */
+  path: string
+  code: ValidationErrorCode
+  /** Human-readable description of the problem */
+  message: string
+}
+
+/**
+ * Result of validating an input.
+ */
+export interface ValidationResult {
+  /** Whether the input passed every check */
+  valid: boolean
+  /** Every failed check, in field order (empty if valid) */
+  errors: ValidationError[]
+}
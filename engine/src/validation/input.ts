@@ -0,0 +1,212 @@
+/**
+ * Input validation
+ *
+ * Checks untrusted JSON against `RealityCheckInput` without any schema library.
+ * Every problem is collected (not just the first), each with the path of the
+ * field it belongs to, so a form can show it next to that field.
+ */
+
+import type { Education, UserProfile } from '../models'
+import { exchangeRates } from '../salary'
+import type { ValidationResult } from './index'
+import { Checker } from './checker'
+
+/** Education levels */
+const EDUCATION_LEVELS: Education['level'][] = ['none', 'high_school', 'associates', 'bachelors', 'masters', 'doctorate']
+
+/** Employment statuses */
+const EMPLOYMENT_STATUSES: UserProfile['employmentStatus'][] = ['employed', 'unemployed', 'self_employed', 'student']
+
+/** Most years of experience accepted */
+const MAX_YEARS = 70
+
+/** Longest target timeline accepted, in months */
+const MAX_TIMELINE_MONTHS = 600
+
+/**
+ * Checks a user profile, recording errors under `path`.
+ */
+function checkProfile(checker: Checker, value: unknown, path: string): void {
+  const profile = checker.object(value, path)
+  if (!profile) return
+
+  checker.number(profile.age, `${path}.age`, { min: 0, max: 120 })
+
+  const education = checker.object(profile.education, `${path}.education`)
+  if (education) {
+    checker.oneOf(education.level, `${path}.education.level`, EDUCATION_LEVELS)
+    checker.string(education.field, `${path}.education.field`, { optional: true })
+    checker.number(education.graduationYear, `${path}.education.graduationYear`, {
+      optional: true,
+      min: 1900,
+      max: 2100,
+      integer: true,
+    })
+    checker.string(education.institution, `${path}.education.institution`, { optional: true })
+  }
+
+  const experience = checker.object(profile.experience, `${path}.experience`)
+  if (experience) {
+    const totalYears = checker.number(experience.totalYears, `${path}.experience.totalYears`, { min: 0, max: MAX_YEARS })
+    const relevantYears = checker.number(experience.relevantYears, `${path}.experience.relevantYears`, {
+      min: 0,
+      max: MAX_YEARS,
+    })
+    if (totalYears !== undefined && relevantYears !== undefined && relevantYears > totalYears) {
+      checker.fail(
+        `${path}.experience.relevantYears`,
+        'invariant',
+        `${path}.experience.relevantYears (${relevantYears}) cannot be more than totalYears (${totalYears})`
+      )
+    }
+    checker.string(experience.currentRole, `${path}.experience.currentRole`, { optional: true })
+    checker.stringArray(experience.previousRoles, `${path}.experience.previousRoles`, true)
+  }
+
+  checker.array(profile.skills, `${path}.skills`)?.forEach((item, index) => {
+    const skillPath = `${path}.skills[${index}]`
+    const skill = checker.object(item, skillPath)
+    if (!skill) return
+    checker.string(skill.name, `${skillPath}.name`, { nonEmpty: true })
+    checker.string(skill.skillId, `${skillPath}.skillId`, { optional: true })
+    checker.number(skill.proficiency, `${skillPath}.proficiency`, { min: 0, max: 5, integer: true })
+    checker.number(skill.yearsOfExperience, `${skillPath}.yearsOfExperience`, {
+      optional: true,
+      min: 0,
+      max: MAX_YEARS,
+    })
+    checker.number(skill.lastUsedYear, `${skillPath}.lastUsedYear`, {
+      optional: true,
+      min: 1900,
+      max: 2100,
+      integer: true,
+    })
+  })
+
+  checker.oneOf(profile.employmentStatus, `${path}.employmentStatus`, EMPLOYMENT_STATUSES)
+
+  const location = checker.object(profile.location, `${path}.location`, true)
+  if (location) {
+    checker.string(location.country, `${path}.location.country`, { nonEmpty: true })
+    checker.string(location.city, `${path}.location.city`, { optional: true })
+    checker.boolean(location.isFlexible, `${path}.location.isFlexible`, true)
+  }
+
+  checker.object(profile.additionalContext, `${path}.additionalContext`, true)
+}
+
+/**
+ * Checks a career goal, recording errors under `path`.
+ */
+function checkGoal(checker: Checker, value: unknown, path: string): void {
+  const goal = checker.object(value, path)
+  if (!goal) return
+
+  checker.string(goal.targetRole, `${path}.targetRole`, { nonEmpty: true })
+  checker.string(goal.targetIndustry, `${path}.targetIndustry`)
+
+  const timeline = checker.object(goal.timeline, `${path}.timeline`)
+  if (timeline) {
+    const monthRange = { min: 1, max: MAX_TIMELINE_MONTHS }
+    checker.number(timeline.targetMonths, `${path}.timeline.targetMonths`, monthRange)
+    checker.boolean(timeline.isFlexible, `${path}.timeline.isFlexible`)
+    const minimumMonths = checker.number(timeline.minimumMonths, `${path}.timeline.minimumMonths`, {
+      optional: true,
+      ...monthRange,
+    })
+    const maximumMonths = checker.number(timeline.maximumMonths, `${path}.timeline.maximumMonths`, {
+      optional: true,
+      ...monthRange,
+    })
+    if (minimumMonths !== undefined && maximumMonths !== undefined && minimumMonths > maximumMonths) {
+      checker.fail(
+        `${path}.timeline.minimumMonths`,
+        'invariant',
+        `${path}.timeline.minimumMonths (${minimumMonths}) cannot be more than maximumMonths (${maximumMonths})`
+      )
+    }
+  }
+
+  const salary = checker.object(goal.salaryExpectation, `${path}.salaryExpectation`, true)
+  if (salary) {
+    const desired = checker.number(salary.desired, `${path}.salaryExpectation.desired`, { min: 0 })
+    const minimum = checker.number(salary.minimum, `${path}.salaryExpectation.minimum`, { min: 0 })
+    if (desired !== undefined && minimum !== undefined && minimum > desired) {
+      checker.fail(
+        `${path}.salaryExpectation.minimum`,
+        'invariant',
+        `${path}.salaryExpectation.minimum (${minimum}) cannot be more than desired (${desired})`
+      )
+    }
+    // Salaries can only be compared in currencies with an exchange rate
+    const currency = checker.string(salary.currency, `${path}.salaryExpectation.currency`)
+    if (currency !== undefined) {
+      checker.oneOf(currency.toUpperCase(), `${path}.salaryExpectation.currency`, Object.keys(exchangeRates))
+    }
+  }
+
+  const requirements = checker.object(goal.requirements, `${path}.requirements`, true)
+  if (requirements) {
+    checker.boolean(requirements.remoteOnly, `${path}.requirements.remoteOnly`, true)
+    checker.string(requirements.targetCompany, `${path}.requirements.targetCompany`, { optional: true })
+    checker.string(requirements.targetLocation, `${path}.requirements.targetLocation`, { optional: true })
+    checker.stringArray(requirements.other, `${path}.requirements.other`, true)
+  }
+
+  checker.string(goal.motivation, `${path}.motivation`, { optional: true })
+}
+
+/**
+ * Builds the result of a check.
+ */
+function toResult(checker: Checker): ValidationResult {
+  return { valid: checker.errors.length === 0, errors: checker.errors }
+}
+
+/**
+ * Validates a `UserProfile` (e.g. from a request body).
+ *
+ * @param path - Path to report errors under (default: "profile")
+ */
+export function validateProfile(value: unknown, path = 'profile'): ValidationResult {
+  const checker = new Checker()
+  checkProfile(checker, value, path)
+  return toResult(checker)
+}
+
+/**
+ * Validates a `CareerGoal` (e.g. from a request body).
+ *
+ * @param path - Path to report errors under (default: "goal")
+ */
+export function validateGoal(value: unknown, path = 'goal'): ValidationResult {
+  const checker = new Checker()
+  checkGoal(checker, value, path)
+  return toResult(checker)
+}
+
+/**
+ * Validates a `RealityCheckInput` (e.g. from a request body) before evaluation.
+ *
+ * Checks, mirroring models.ts:
+ * - Required fields are present, and every field has the right type (NaN and
+ *   Infinity are not numbers here)
+ * - Ranges: proficiency 0-5 (whole), years of experience 0-70, age 0-120,
+ *   timeline 1-600 months, salaries not negative
+ * - Enums: education level, employment status, salary currency (one with an
+ *   exchange rate)
+ * - Invariants: `relevantYears <= totalYears`, `minimumMonths <= maximumMonths`,
+ *   salary `minimum <= desired`
+ *
+ * Whether `scenarioId` names a known scenario is left to the evaluator.
+ */
+export function validateInput(value: unknown): ValidationResult {
+  const checker = new Checker()
+  const input = checker.object(value, 'input')
+  if (input) {
+    checkProfile(checker, input.profile, 'profile')
+    checkGoal(checker, input.goal, 'goal')
+    checker.string(input.scenarioId, 'scenarioId', { optional: true })
+  }
+  return toResult(checker)
+}
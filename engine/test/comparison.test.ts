@@ -0,0 +1,106 @@
+/**
+ * Goal comparison tests
+ *
+ * Checks that goals are ranked on each measure, that normalized values run from
+ * 0 for the worst goal to 100 for the best, and that hours invested add up the
+ * band phases.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Evaluator, compare } from '../src'
+import type { UserProfile } from '../src'
+
+const evaluator = new Evaluator({ now: new Date('2025-06-01T00:00:00.000Z') })
+
+/**
+ * A software engineer with some machine learning.
+ */
+const profile: UserProfile = {
+  age: 30,
+  education: { level: 'bachelors', field: 'Computer Science', graduationYear: 2017 },
+  experience: { totalYears: 7, relevantYears: 5, currentRole: 'Software Engineer' },
+  skills: [
+    { name: 'Python', proficiency: 4, yearsOfExperience: 5 },
+    { name: 'Machine Learning', proficiency: 2, yearsOfExperience: 1 },
+  ],
+  employmentStatus: 'employed',
+}
+
+describe('compare', () => {
+  it('ranks goals by overall score and average-case timeline', () => {
+    const comparison = compare(profile, ['ml-engineer', 'data-analyst', 'faang-sde'], { evaluator })
+    const scores = comparison.goals.map(goal => goal.overallScore)
+    const timelines = comparison.goals.map(goal => goal.timelines.average)
+
+    assert.deepEqual(
+      comparison.goals.map(goal => goal.scenarioId),
+      ['ml-engineer', 'data-analyst', 'faang-sde']
+    )
+    assert.equal(comparison.bestOverallScore, scores.indexOf(Math.max(...scores)))
+    assert.equal(comparison.fastestAverageTimeline, timelines.indexOf(Math.min(...timelines)))
+    // The best-scoring goal is not the fastest one here, so each ranking stands on its own
+    assert.notEqual(comparison.bestOverallScore, comparison.fastestAverageTimeline)
+
+    const best = comparison.goals[comparison.bestOverallScore]
+    const fastest = comparison.goals[comparison.fastestAverageTimeline]
+    assert.equal(best.normalized.overallScore, 100)
+    assert.equal(fastest.normalized.averageTimeline, 100)
+    assert.equal(Math.min(...comparison.goals.map(goal => goal.normalized.overallScore)), 0)
+    assert.equal(Math.min(...comparison.goals.map(goal => goal.normalized.averageTimeline)), 0)
+  })
+
+  it('normalizes values between the worst and best goal', () => {
+    const { goals } = compare(profile, ['ml-engineer', 'data-analyst', 'faang-sde'], { evaluator })
+    const scores = goals.map(goal => goal.overallScore)
+    const [min, max] = [Math.min(...scores), Math.max(...scores)]
+    for (const goal of goals) {
+      assert.equal(
+        goal.normalized.overallScore,
+        Math.round(((goal.overallScore - min) / (max - min)) * 100)
+      )
+    }
+
+    // Shorter timelines and fewer hours are better
+    const hours = goals.map(goal => goal.totalHours.average)
+    const [fewest, most] = [Math.min(...hours), Math.max(...hours)]
+    for (const goal of goals) {
+      assert.equal(
+        goal.normalized.averageTotalHours,
+        Math.round((1 - (goal.totalHours.average - fewest) / (most - fewest)) * 100)
+      )
+    }
+  })
+
+  it('gives every goal 100 when they are equal', () => {
+    const { goals } = compare(profile, ['data-analyst', 'data-analyst'], { evaluator })
+    for (const goal of goals) {
+      assert.deepEqual(goal.normalized, {
+        overallScore: 100,
+        averageTimeline: 100,
+        averageTotalHours: 100,
+      })
+    }
+  })
+
+  it("totals each band's hours over its phases", () => {
+    const { goals } = compare(profile, ['ml-engineer', 'data-analyst'], { evaluator })
+    for (const goal of goals) {
+      for (const band of ['best', 'average', 'worst'] as const) {
+        const hours = goal.result.probabilityBands[band].phases.reduce(
+          (sum, phase) => sum + phase.dailyHours * phase.months * 30,
+          0
+        )
+        assert.equal(goal.totalHours[band], Math.round(hours), `${goal.label} ${band}`)
+      }
+    }
+  })
+
+  it('rejects fewer than two goals and unknown scenarios', () => {
+    assert.throws(() => compare(profile, ['ml-engineer'], { evaluator }), /at least two goals/)
+    assert.throws(
+      () => compare(profile, ['ml-engineer', 'astronaut'], { evaluator }),
+      /Unknown scenario ID: astronaut/
+    )
+  })
+})
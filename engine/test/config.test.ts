@@ -0,0 +1,93 @@
+/**
+ * Config tests
+ *
+ * Checks that the presets are valid and that invalid configs are rejected.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Evaluator, configPresets, isConfigPresetName, validateConfig } from '../src'
+import type { ConfigPresetName, EvaluatorConfig } from '../src'
+
+describe('validateConfig', () => {
+  it('accepts every preset', () => {
+    for (const config of Object.values(configPresets)) {
+      assert.doesNotThrow(() => validateConfig(config), config.name)
+    }
+  })
+
+  it('rejects band likelihoods that do not add up to 100', () => {
+    const config: EvaluatorConfig = {
+      ...configPresets.default,
+      name: 'lopsided',
+      likelihoodTables: {
+        ...configPresets.default.likelihoodTables,
+        average: [
+          { minScore: 50, likelihood: 60 },
+          { minScore: 0, likelihood: 50 },
+        ],
+      },
+    }
+    assert.throws(() => validateConfig(config), /add up to 110 for an overall score of 50/)
+    assert.throws(() => new Evaluator({ config }), /lopsided/)
+  })
+
+  it('rejects negative weights', () => {
+    const config = {
+      ...configPresets.default,
+      weights: { ...configPresets.default.weights, skillScore: -1 },
+    }
+    assert.throws(() => validateConfig(config), /weight skillScore is negative/)
+  })
+
+  it('rejects missing or non-numeric weights', () => {
+    const weights = { ...configPresets.default.weights, marketScore: undefined }
+    const missing = { ...configPresets.default, weights } as unknown as EvaluatorConfig
+    assert.throws(() => validateConfig(missing), /weight marketScore must be a number/)
+    const nan = {
+      ...configPresets.default,
+      weights: { ...configPresets.default.weights, skillScore: Number.NaN },
+    }
+    assert.throws(() => validateConfig(nan), /weight skillScore must be a number/)
+  })
+
+  it('rejects employment statuses without positive available hours', () => {
+    const { availableHours } = configPresets.default
+    for (const hours of [0, -1, Number.POSITIVE_INFINITY]) {
+      const config = {
+        ...configPresets.default,
+        availableHours: { ...availableHours, student: hours },
+      }
+      assert.throws(
+        () => validateConfig(config),
+        /available hours for student must be positive/,
+        String(hours)
+      )
+    }
+    const withoutUnemployed = { ...availableHours, unemployed: undefined }
+    const missing = {
+      ...configPresets.default,
+      availableHours: withoutUnemployed,
+    } as unknown as EvaluatorConfig
+    assert.throws(() => validateConfig(missing), /available hours for unemployed must be positive/)
+  })
+})
+
+describe('isConfigPresetName', () => {
+  it('accepts the bundled presets', () => {
+    assert.deepEqual(
+      Object.keys(configPresets).filter(isConfigPresetName),
+      Object.keys(configPresets)
+    )
+  })
+
+  it('rejects keys inherited from Object.prototype', () => {
+    for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      assert.equal(isConfigPresetName(name), false, name)
+      assert.throws(
+        () => new Evaluator({ config: name as ConfigPresetName }),
+        new RegExp(`Unknown config preset: ${name}`)
+      )
+    }
+  })
+})
@@ -0,0 +1,34 @@
+/**
+ * Golden-file tests
+ *
+ * Evaluates every persona fixture and compares the result with its golden
+ * file. Score, band and warning drift is reported first; any other change
+ * (explanations, recommendations, metadata) fails the full comparison.
+ *
+ * Set UPDATE_GOLDEN=1 (`npm run test:update`) to rewrite the golden files.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { findDrift } from './support/drift'
+import { evaluateFixture, loadFixtures, readGolden, writeGolden } from './support/fixtures'
+
+/** Whether to rewrite the golden files instead of checking them */
+const UPDATE = process.env.UPDATE_GOLDEN === '1'
+
+describe('golden results', () => {
+  for (const fixture of loadFixtures()) {
+    it(`${fixture.name}: ${fixture.description}`, () => {
+      const actual = evaluateFixture(fixture)
+      if (UPDATE) {
+        writeGolden(fixture, actual)
+        return
+      }
+
+      const expected = readGolden(fixture)
+      assert.ok(expected, `No golden file for ${fixture.name}; run \`npm run test:update\``)
+      assert.deepEqual(findDrift(expected, actual), [], `${fixture.name} drifted from its golden file`)
+      assert.deepEqual(actual, expected)
+    })
+  }
+})
@@ -0,0 +1,134 @@
+/**
+ * What-if search tests
+ *
+ * Checks that untrusted improvement targets are validated, and that the search
+ * returns the smallest sets of changes that reach a target, each confirmed by
+ * the evaluator.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Evaluator, suggestImprovements, validateImprovementTarget } from '../src'
+import type { RealityCheckInput } from '../src'
+
+const evaluator = new Evaluator({ now: new Date('2025-06-01T00:00:00.000Z') })
+
+/**
+ * An engineer moving into machine learning on a 12-month timeline (overall
+ * score 76, average case 40 months).
+ */
+const input: RealityCheckInput = {
+  profile: {
+    age: 30,
+    education: { level: 'bachelors', field: 'Computer Science', graduationYear: 2017 },
+    experience: { totalYears: 7, relevantYears: 5, currentRole: 'Software Engineer' },
+    skills: [
+      { name: 'Python', proficiency: 4, yearsOfExperience: 5 },
+      { name: 'Machine Learning', proficiency: 2, yearsOfExperience: 1 },
+    ],
+    employmentStatus: 'employed',
+  },
+  goal: {
+    targetRole: 'Machine Learning Engineer',
+    targetIndustry: 'Technology',
+    timeline: { targetMonths: 12, isFlexible: true },
+  },
+  scenarioId: 'ml-engineer',
+}
+
+describe('validateImprovementTarget', () => {
+  it('accepts a score, a timeline or both', () => {
+    for (const target of [
+      { overallScore: 80 },
+      { averageTimelineMonths: 24 },
+      { overallScore: 0, averageTimelineMonths: 0 },
+    ]) {
+      assert.deepEqual(validateImprovementTarget(target), { valid: true, errors: [] })
+    }
+  })
+
+  it('rejects scores that are not numbers from 0 to 100', () => {
+    const cases: [unknown, string][] = [
+      ['80', 'type'],
+      [Number.NaN, 'type'],
+      [Number.POSITIVE_INFINITY, 'type'],
+      [101, 'range'],
+      [-1, 'range'],
+    ]
+    for (const [overallScore, code] of cases) {
+      const { errors } = validateImprovementTarget({ overallScore })
+      assert.deepEqual(
+        errors.map(error => [error.path, error.code]),
+        [['target.overallScore', code]],
+        String(overallScore)
+      )
+    }
+  })
+
+  it('rejects a negative timeline', () => {
+    const { errors } = validateImprovementTarget({ averageTimelineMonths: -6 })
+    assert.deepEqual(
+      errors.map(error => [error.path, error.code]),
+      [['target.averageTimelineMonths', 'range']]
+    )
+  })
+
+  it('requires a target object with a score or a timeline', () => {
+    assert.equal(validateImprovementTarget(undefined).errors[0].code, 'required')
+    assert.equal(validateImprovementTarget([]).errors[0].code, 'type')
+    assert.deepEqual(
+      validateImprovementTarget({}).errors.map(error => [error.path, error.code]),
+      [['target', 'required']]
+    )
+  })
+})
+
+describe('suggestImprovements', () => {
+  it('requires a score or timeline to reach', () => {
+    assert.throws(
+      () => suggestImprovements(input, {}, { evaluator }),
+      /must set overallScore or averageTimelineMonths/
+    )
+  })
+
+  it('returns no paths when the input already meets the target', () => {
+    const suggestions = suggestImprovements(input, { overallScore: 70 }, { evaluator })
+    assert.equal(suggestions.alreadyMet, true)
+    assert.deepEqual(suggestions.paths, [])
+    assert.equal(suggestions.evaluations, 0)
+  })
+
+  it('finds the fewest changes that reach both targets', () => {
+    const target = { overallScore: 80, averageTimelineMonths: 36 }
+    const { baseline, paths } = suggestImprovements(input, target, { evaluator })
+    assert.deepEqual(baseline, { overallScore: 76, averageTimelineMonths: 40 })
+    assert.ok(paths.length > 0)
+    for (const path of paths) {
+      assert.equal(path.changes.length, paths[0].changes.length)
+      assert.ok(path.overallScore >= target.overallScore)
+      assert.ok(path.averageTimelineMonths <= target.averageTimelineMonths)
+    }
+  })
+
+  it('combines changes when no single change is enough', () => {
+    const { paths } = suggestImprovements(input, { overallScore: 90 }, { evaluator })
+    assert.deepEqual(
+      paths.map(path => path.changes.map(change => change.kind)),
+      [['skill', 'timeline']]
+    )
+    assert.equal(
+      paths[0].totalMonths,
+      paths[0].changes.reduce((sum, change) => sum + change.months, 0)
+    )
+  })
+
+  it('finds nothing beyond the most changes allowed', () => {
+    const suggestions = suggestImprovements(
+      input,
+      { overallScore: 90 },
+      { evaluator, maxChanges: 1 }
+    )
+    assert.equal(suggestions.alreadyMet, false)
+    assert.deepEqual(suggestions.paths, [])
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * Market data tests
+ *
+ * Checks that market conditions are looked up for the country the user wants
+ * to work in, which is not where they live when they are relocating.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Evaluator } from '../src'
+import type { CareerGoal, UserProfile } from '../src'
+
+const evaluator = new Evaluator({ now: new Date('2025-06-01T00:00:00.000Z') })
+
+/**
+ * A software engineer living in Bengaluru.
+ */
+const profile: UserProfile = {
+  age: 28,
+  education: { level: 'bachelors', field: 'Computer Science', graduationYear: 2019 },
+  experience: { totalYears: 5, relevantYears: 5, currentRole: 'Software Engineer' },
+  skills: [{ name: 'JavaScript', proficiency: 4, yearsOfExperience: 5 }],
+  employmentStatus: 'employed',
+  location: { country: 'India', city: 'Bangalore' },
+}
+
+/**
+ * A senior software engineering role in technology, optionally elsewhere.
+ */
+function goal(targetLocation?: string): CareerGoal {
+  return {
+    targetRole: 'Senior Software Engineer',
+    targetIndustry: 'Technology',
+    timeline: { targetMonths: 12, isFlexible: true },
+    ...(targetLocation ? { requirements: { targetLocation } } : {}),
+  }
+}
+
+describe('market data', () => {
+  it('uses the country the user lives in without a target location', () => {
+    const result = evaluator.evaluate({ profile, goal: goal() })
+    assert.equal(result.market?.country, 'IN')
+  })
+
+  it('uses the target location country when the user is relocating', () => {
+    const result = evaluator.evaluate({ profile, goal: goal('San Francisco') })
+    assert.equal(result.location.relocationRequired, true)
+    assert.equal(result.market?.country, 'US')
+    assert.equal(result.market?.applicantsPerOpening, 120)
+  })
+
+  it('uses the country the user lives in for remote-only goals', () => {
+    const remote = goal('San Francisco')
+    remote.requirements = { ...remote.requirements, remoteOnly: true }
+    const result = evaluator.evaluate({ profile, goal: remote })
+    assert.equal(result.market?.country, 'IN')
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Progress tests
+ *
+ * Checks that a previous evaluation is compared with a fresh one: score and
+ * timeline changes, closed gaps, milestones and whether the goal is the same,
+ * also for results saved before results recorded their role, input and the
+ * rule of each warning.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Evaluator, diffResults } from '../src'
+import type { CareerGoal, RealityCheckResult, SavedResult, UserProfile, Warning } from '../src'
+
+/**
+ * An engineer moving into machine learning, with a given Machine Learning proficiency.
+ */
+function profile(machineLearning: 1 | 2 | 3 | 4 | 5): UserProfile {
+  return {
+    age: 30,
+    education: { level: 'bachelors', field: 'Computer Science', graduationYear: 2017 },
+    experience: { totalYears: 7, relevantYears: 5, currentRole: 'Software Engineer' },
+    skills: [
+      { name: 'Python', proficiency: 4, yearsOfExperience: 5 },
+      { name: 'Machine Learning', proficiency: machineLearning, yearsOfExperience: 1 },
+    ],
+    employmentStatus: 'employed',
+  }
+}
+
+const goal: CareerGoal = {
+  targetRole: 'Machine Learning Engineer',
+  targetIndustry: 'Technology',
+  timeline: { targetMonths: 12, isFlexible: true },
+}
+
+/**
+ * Evaluates a profile against a goal at a given date.
+ */
+function evaluateAt(
+  date: string,
+  userProfile: UserProfile,
+  careerGoal: CareerGoal = goal
+): RealityCheckResult {
+  return new Evaluator({ now: new Date(date) }).evaluate({
+    profile: userProfile,
+    goal: careerGoal,
+    scenarioId: 'ml-engineer',
+  })
+}
+
+/**
+ * A copy of a result as saved before results recorded their role.
+ */
+function withoutRole(result: RealityCheckResult): SavedResult {
+  const saved: SavedResult = structuredClone(result)
+  delete saved.role
+  return saved
+}
+
+const previous = evaluateAt('2025-01-01T00:00:00.000Z', profile(1))
+const current = evaluateAt('2025-07-01T00:00:00.000Z', profile(4))
+
+describe('diffResults', () => {
+  it('reports score changes, closed gaps and milestones', () => {
+    const diff = diffResults(previous, current)
+    assert.equal(diff.sameGoal, true)
+    assert.equal(diff.elapsedMonths, 6)
+    assert.equal(diff.overallScore.delta, current.overallScore - previous.overallScore)
+    assert.ok(diff.scores.skillScore && diff.scores.skillScore.delta > 0)
+    assert.ok(diff.gapsClosed.some(gap => gap.skillName === 'Machine Learning Fundamentals'))
+    assert.equal(
+      diff.milestones.find(milestone => milestone.skillName === 'Machine Learning Fundamentals')
+        ?.status,
+      'reached'
+    )
+  })
+
+  it('projects timelines by the months elapsed', () => {
+    const { average } = diffResults(previous, current).timelines
+    assert.equal(average.projected, Math.max(0, average.previous - 6))
+    assert.equal(average.shift, Math.round((average.current - average.projected) * 10) / 10)
+  })
+
+  it('tells a different target role apart', () => {
+    const lead = evaluateAt('2025-07-01T00:00:00.000Z', profile(4), {
+      ...goal,
+      targetRole: 'Lead Machine Learning Engineer',
+    })
+    assert.equal(diffResults(previous, lead).sameGoal, false)
+  })
+
+  it('diffs a saved result without a role', () => {
+    const saved = withoutRole(previous)
+    const diff = diffResults(saved, current)
+    assert.equal(diff.sameGoal, true)
+    assert.deepEqual(diff.overallScore, diffResults(previous, current).overallScore)
+
+    const lead = evaluateAt('2025-07-01T00:00:00.000Z', profile(4), {
+      ...goal,
+      targetRole: 'Lead Machine Learning Engineer',
+    })
+    assert.equal(diffResults(saved, lead).sameGoal, false)
+  })
+
+  it('compares a result without a role or input by scenario only', () => {
+    const saved = withoutRole(previous)
+    delete saved.metadata.input
+    assert.equal(diffResults(saved, current).sameGoal, true)
+  })
+
+  it('matches the warnings of a legacy result by flag', () => {
+    const legacy = withoutRole(previous)
+    delete legacy.metadata.input
+    legacy.warnings = legacy.warnings.map(({ ruleId: _ruleId, ...warning }) => warning)
+
+    const expected = diffResults(previous, current)
+    const diff = diffResults(legacy, current)
+    const flags = (warnings: Warning[]) => warnings.map(warning => warning.flag)
+    assert.ok(expected.warningsResolved.length < previous.warnings.length, 'some warnings persist')
+    assert.deepEqual(flags(diff.warningsResolved), flags(expected.warningsResolved))
+    assert.deepEqual(flags(diff.warningsAdded), flags(expected.warningsAdded))
+  })
+
+  it('rejects evaluation times that are not dates', () => {
+    const saved = withoutRole(previous)
+    saved.metadata.evaluatedAt = 'yesterday'
+    assert.throws(
+      () => diffResults(saved, current),
+      /previous result's evaluation time "yesterday" is not a valid date/
+    )
+    assert.throws(
+      () =>
+        diffResults(previous, { ...current, metadata: { ...current.metadata, evaluatedAt: '' } }),
+      /current result's/
+    )
+  })
+
+  it('rejects a current result evaluated before the previous one', () => {
+    assert.throws(() => diffResults(current, previous), /must be evaluated before/)
+  })
+})
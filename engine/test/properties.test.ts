@@ -0,0 +1,112 @@
+/**
+ * Property tests
+ *
+ * Evaluates seeded random inputs with every config preset and checks the
+ * invariants every result must satisfy, whatever the input:
+ * - Every score is between 0 and 100
+ * - Timelines are ordered: best <= average <= worst
+ * - Band likelihoods add up to 100
+ * - Band phases fill the band timeline, and its required hours are the peak phase's
+ * - Failure risks come from the scenario's categories, most frequent first
+ * - Evaluation is deterministic for a fixed clock
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Evaluator, configPresets, validateInput } from '../src'
+import type { ConfigPresetName, RealityCheckResult } from '../src'
+import { createRandom, randomInput } from './support/random'
+
+/** Number of random inputs per preset */
+const CASES = 150
+
+/** Seed of the first case; case i uses SEED + i */
+const SEED = 20240601
+
+/** Fixed evaluation time */
+const NOW = new Date('2025-06-01T00:00:00.000Z')
+
+/**
+ * Runs a check against the result of every random case under every preset,
+ * naming the seed and preset of the first case that fails.
+ */
+function forEachResult(check: (result: RealityCheckResult) => void): void {
+  for (const preset of Object.keys(configPresets) as ConfigPresetName[]) {
+    const evaluator = new Evaluator({ config: preset, now: NOW })
+    for (let index = 0; index < CASES; index++) {
+      const seed = SEED + index
+      const input = randomInput(createRandom(seed))
+      try {
+        check(evaluator.evaluate(input))
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new Error(`Seed ${seed}, preset ${preset}: ${message}\nInput: ${JSON.stringify(input)}`)
+      }
+    }
+  }
+}
+
+describe('evaluator invariants', () => {
+  it('generates valid inputs', () => {
+    for (let index = 0; index < CASES; index++) {
+      const { errors } = validateInput(randomInput(createRandom(SEED + index)))
+      assert.deepEqual(errors, [], `Seed ${SEED + index} generated an invalid input`)
+    }
+  })
+
+  it('keeps every score between 0 and 100', () => {
+    forEachResult(result => {
+      const scores = { overallScore: result.overallScore, ...result.scoreBreakdown }
+      for (const [key, score] of Object.entries(scores)) {
+        if (score === undefined) continue
+        assert.ok(score >= 0 && score <= 100, `${key} is ${score}`)
+      }
+    })
+  })
+
+  it('orders timelines best <= average <= worst', () => {
+    forEachResult(({ probabilityBands: { best, average, worst } }) => {
+      assert.ok(
+        best.estimatedTimelineMonths <= average.estimatedTimelineMonths &&
+          average.estimatedTimelineMonths <= worst.estimatedTimelineMonths,
+        `timelines are ${best.estimatedTimelineMonths}, ${average.estimatedTimelineMonths}, ${worst.estimatedTimelineMonths}`
+      )
+    })
+  })
+
+  it('has band likelihoods that add up to 100', () => {
+    forEachResult(({ probabilityBands: { best, average, worst } }) => {
+      assert.equal(best.likelihood + average.likelihood + worst.likelihood, 100)
+    })
+  })
+
+  it('splits each band timeline into phases with the peak phase hours required', () => {
+    forEachResult(({ probabilityBands }) => {
+      for (const band of Object.values(probabilityBands)) {
+        const months = band.phases.reduce((sum, phase) => sum + phase.months, 0)
+        assert.ok(Math.abs(months - band.estimatedTimelineMonths) < 0.05, `${band.band}: ${months} months of phases`)
+        assert.equal(band.requiredDailyHours, Math.max(0, ...band.phases.map(phase => phase.dailyHours)))
+      }
+    })
+  })
+
+  it('ranks failure risks from the scenario by frequency', () => {
+    forEachResult(({ riskProfile, metadata }) => {
+      assert.equal(riskProfile.scenarioId, metadata.scenarioId)
+      const frequencies = riskProfile.risks.map(risk => risk.frequency)
+      assert.deepEqual(frequencies, [...frequencies].sort((a, b) => b - a))
+      for (const risk of riskProfile.risks) {
+        assert.ok(risk.exposure.length > 0 && risk.mitigations.length > 0, risk.category)
+        assert.ok(!riskProfile.unexposedCategories.includes(risk.category), risk.category)
+      }
+    })
+  })
+
+  it('returns the same result for the same input and clock', () => {
+    const evaluator = new Evaluator({ now: NOW })
+    for (let index = 0; index < 20; index++) {
+      const input = randomInput(createRandom(SEED + index))
+      assert.deepEqual(evaluator.evaluate(input), evaluator.evaluate(input), `Seed ${SEED + index}`)
+    }
+  })
+})
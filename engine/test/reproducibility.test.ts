@@ -0,0 +1,85 @@
+/**
+ * Reproducibility tests
+ *
+ * Checks that a saved result is re-evaluated from the input and time it
+ * records, that every changed value is reported, and that results which cannot
+ * be reproduced faithfully are rejected.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Evaluator, ENGINE_VERSION, reproduce } from '../src'
+import type { RealityCheckInput, RealityCheckResult } from '../src'
+
+const input: RealityCheckInput = {
+  profile: {
+    age: 27,
+    education: { level: 'bachelors', field: 'Economics', graduationYear: 2020 },
+    experience: { totalYears: 4, relevantYears: 2, currentRole: 'Analyst' },
+    skills: [
+      { name: 'SQL', proficiency: 3, yearsOfExperience: 2 },
+      { name: 'Excel', proficiency: 4, yearsOfExperience: 4 },
+    ],
+    employmentStatus: 'employed',
+  },
+  goal: {
+    targetRole: 'Data Analyst',
+    targetIndustry: 'Technology',
+    timeline: { targetMonths: 9, isFlexible: true },
+  },
+}
+
+/**
+ * A result saved as JSON, as a downloaded report would be.
+ */
+function savedResult(): RealityCheckResult {
+  const result = new Evaluator({ now: new Date('2025-03-01T00:00:00.000Z') }).evaluate(input)
+  return JSON.parse(JSON.stringify(result)) as RealityCheckResult
+}
+
+describe('reproduce', () => {
+  it('reproduces a saved result at the time it was evaluated', () => {
+    const report = reproduce(savedResult())
+    assert.equal(report.reproducible, true)
+    assert.deepEqual(report.differences, [])
+    assert.deepEqual(report.engineVersion, { previous: ENGINE_VERSION, current: ENGINE_VERSION })
+    assert.equal(report.scenarioSetChanged, false)
+    assert.equal(report.ruleSetChanged, false)
+    assert.equal(report.result.metadata.evaluatedAt, '2025-03-01T00:00:00.000Z')
+  })
+
+  it('reports every value that changed', () => {
+    const saved = savedResult()
+    const overallScore = saved.overallScore
+    saved.overallScore = overallScore + 1
+    saved.metadata.ruleSetHash = 'stale'
+
+    const report = reproduce(saved)
+    assert.equal(report.reproducible, false)
+    assert.equal(report.ruleSetChanged, true)
+    assert.deepEqual(report.differences, [
+      { path: 'overallScore', previous: overallScore + 1, current: overallScore },
+    ])
+  })
+
+  it('rejects a result that does not record its input', () => {
+    const saved: Partial<RealityCheckResult['metadata']> = savedResult().metadata
+    delete saved.input
+    assert.throws(
+      () => reproduce({ ...savedResult(), metadata: saved as RealityCheckResult['metadata'] }),
+      /does not record its input/
+    )
+  })
+
+  it('rejects an evaluation time that is not a date', () => {
+    const saved = savedResult()
+    saved.metadata.evaluatedAt = 'yesterday'
+    assert.throws(() => reproduce(saved), /"yesterday" is not a valid date/)
+  })
+
+  it('rejects a recorded input that fails validation', () => {
+    const saved = savedResult()
+    saved.metadata.input.profile.experience.relevantYears = 10
+    assert.throws(() => reproduce(saved), /recorded input is invalid: .*relevantYears/)
+  })
+})
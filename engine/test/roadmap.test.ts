@@ -0,0 +1,105 @@
+/**
+ * Learning roadmap tests
+ *
+ * Checks that phases and skill steps follow one another without gaps, that a
+ * skill is learned after the skills it builds on, that critical skills come
+ * before nice-to-have ones, and that steps are stretched when the user has
+ * fewer hours than the scenario assumes.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Evaluator, generateRoadmap } from '../src'
+import type { RealityCheckInput } from '../src'
+
+const evaluator = new Evaluator({ now: new Date('2025-06-01T00:00:00.000Z') })
+
+/**
+ * An employed engineer moving into machine learning: five skill gaps, several
+ * of them prerequisites of others, at 3 available hours a day against the
+ * scenario's 4.
+ */
+const input: RealityCheckInput = {
+  profile: {
+    age: 30,
+    education: { level: 'bachelors', field: 'Computer Science', graduationYear: 2017 },
+    experience: { totalYears: 7, relevantYears: 5, currentRole: 'Software Engineer' },
+    skills: [
+      { name: 'Python', proficiency: 4, yearsOfExperience: 5 },
+      { name: 'Machine Learning', proficiency: 2, yearsOfExperience: 1 },
+    ],
+    employmentStatus: 'employed',
+  },
+  goal: {
+    targetRole: 'Machine Learning Engineer',
+    targetIndustry: 'Technology',
+    timeline: { targetMonths: 12, isFlexible: true },
+  },
+  scenarioId: 'ml-engineer',
+}
+
+describe('generateRoadmap', () => {
+  it('runs the phases one after the other', () => {
+    const roadmap = generateRoadmap(input, { evaluator })
+    assert.deepEqual(
+      roadmap.phases.map(phase => phase.kind),
+      ['skill-building', 'interview-prep', 'job-search']
+    )
+    assert.equal(roadmap.phases[0].startMonth, 0)
+    for (let index = 1; index < roadmap.phases.length; index++) {
+      assert.equal(roadmap.phases[index].startMonth, roadmap.phases[index - 1].endMonth)
+    }
+    assert.equal(roadmap.totalMonths, roadmap.phases[roadmap.phases.length - 1].endMonth)
+    assert.equal(roadmap.months.length, Math.ceil(roadmap.totalMonths))
+  })
+
+  it('learns skills one at a time, after the skills they build on', () => {
+    const { phases } = generateRoadmap(input, { evaluator })
+    const { steps, endMonth } = phases[0]
+    const names = steps.map(step => step.skillName)
+
+    assert.deepEqual(names, [
+      'Statistics and Mathematics',
+      'Machine Learning Fundamentals',
+      'Deep Learning (TensorFlow/PyTorch)',
+      'Software Engineering',
+      'MLOps / Model Deployment',
+    ])
+    steps.forEach((step, index) => {
+      assert.equal(step.startMonth, index === 0 ? 0 : steps[index - 1].endMonth)
+      for (const prerequisite of step.prerequisites) {
+        assert.ok(names.indexOf(prerequisite) < index, `${prerequisite} before ${step.skillName}`)
+      }
+    })
+    assert.equal(steps[steps.length - 1].endMonth, endMonth)
+  })
+
+  it('puts critical skills before nice-to-have ones', () => {
+    const { steps } = generateRoadmap(input, { evaluator }).phases[0]
+    const lastCritical = steps.map(step => step.priority).lastIndexOf(1)
+    const firstOther = steps.findIndex(step => step.priority > 1)
+    assert.ok(firstOther > lastCritical)
+  })
+
+  it('stretches steps when fewer hours are available than the scenario assumes', () => {
+    const roadmap = generateRoadmap(input, { evaluator })
+    const pace = roadmap.timeRequirements.skillBuildingHours / roadmap.availableDailyHours
+    assert.ok(pace > 1)
+    for (const step of roadmap.phases[0].steps) {
+      assert.ok(
+        Math.abs(step.endMonth - step.startMonth - step.effortMonths * pace) <= 0.1,
+        step.skillName
+      )
+    }
+    assert.ok(roadmap.phases[0].dailyHours <= roadmap.availableDailyHours)
+
+    const student = generateRoadmap(
+      { ...input, profile: { ...input.profile, employmentStatus: 'student' } },
+      { evaluator }
+    )
+    assert.ok(student.availableDailyHours >= student.timeRequirements.skillBuildingHours)
+    for (const step of student.phases[0].steps) {
+      assert.equal(step.endMonth - step.startMonth, step.effortMonths, step.skillName)
+    }
+  })
+})
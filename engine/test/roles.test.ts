@@ -0,0 +1,43 @@
+/**
+ * Role classification tests
+ *
+ * Checks the seniority level job titles are classified at, including titles
+ * whose seniority keywords are qualified or mean something else.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { classifyRole } from '../src'
+
+/**
+ * Level ID a title is classified at.
+ */
+function levelOf(title: string): string {
+  return classifyRole(title).level.id
+}
+
+describe('classifyRole', () => {
+  it('uses the most senior keyword in the title', () => {
+    assert.equal(levelOf('Senior Software Engineer'), 'senior')
+    assert.equal(levelOf('Senior Director of Engineering'), 'director')
+    assert.equal(levelOf('Team Lead'), 'lead')
+  })
+
+  it('lowers a keyword after a qualifier', () => {
+    assert.equal(levelOf('Assistant Manager'), 'mid')
+    assert.equal(levelOf('Associate Director'), 'manager')
+    assert.equal(levelOf('Assistant Vice President'), 'director')
+    assert.equal(classifyRole('Assistant Manager').matchedPhrase, 'assistant manager')
+  })
+
+  it('keeps family titles with a qualifier at their known level', () => {
+    assert.equal(levelOf('Associate Professor'), 'principal')
+    assert.equal(levelOf('Associate Product Manager'), 'entry')
+  })
+
+  it('ignores "lead" in "lead generation"', () => {
+    const role = classifyRole('Lead Generation Specialist')
+    assert.equal(role.level.id, 'mid')
+    assert.equal(role.method, 'default')
+  })
+})
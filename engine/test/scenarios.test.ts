@@ -0,0 +1,334 @@
+/**
+ * Scenario tests
+ *
+ * Checks that the built-in scenario files are valid, that the catalog can be
+ * searched, that goals are matched to scenarios by role, that the scenario
+ * validator catches nonsense a hand-written file can contain, that templates
+ * expand into the variants they describe, and that the registry loads JSON and
+ * YAML files from a directory or a URL.
+ */
+
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, it } from 'node:test'
+import {
+  Evaluator,
+  MIN_SCENARIO_MATCH_SCORE,
+  ScenarioRegistry,
+  expandScenarioTemplate,
+  matchScenarios,
+  scenarios,
+  searchScenarios,
+  summarizeScenario,
+  validateScenario,
+  validateScenarioFilter,
+  validateScenarios,
+} from '../src'
+import type { CareerGoal, CareerScenario, ScenarioTemplate, UserProfile } from '../src'
+
+/** Directory of the built-in scenario files (tests run from the compiled dist-test/test/) */
+const DATA_DIR = join(__dirname, '..', '..', 'src', 'scenarios', 'data')
+
+/**
+ * A valid scenario with a new ID, to modify in each test.
+ */
+function customScenario(overrides: Partial<CareerScenario> = {}): CareerScenario {
+  return { ...structuredClone(scenarios[0]), id: 'custom-scenario', name: 'Custom Scenario', ...overrides }
+}
+
+/**
+ * A YAML scenario file for a role no built-in scenario covers.
+ */
+const HYGIENIST_YAML = `
+id: dental-hygienist
+name: Dental Hygienist
+description: Dental hygienist in a dental practice after an accredited program and licensing exams.
+targetRole: Dental Hygienist
+targetIndustry: Healthcare
+minExperienceYears: 0
+preferredEducation: associates
+skillRequirements:
+  - skillName: Dental Hygiene Procedures
+    minProficiency: 3
+    isCritical: true
+    monthsToLearn: 12
+timelineRanges:
+  bestCaseMonths: 3
+  averageCaseMonths: 6
+  worstCaseMonths: 12
+timeRequirements:
+  skillBuildingHours: 3
+  jobSearchHours: 2
+  interviewPrepHours: 1
+  isOnTopOfFullTimeJob: false
+commonFailureReasons:
+  - category: preparation
+    description: Failing the board exam on the first attempt
+    frequency: 15
+`
+
+describe('built-in scenarios', () => {
+  it('are valid', () => {
+    assert.deepEqual(validateScenarios(scenarios).errors, [])
+  })
+
+  it('cover at least 20 roles outside the technology industry', () => {
+    const nonTech = scenarios.filter(scenario => scenario.targetIndustry !== 'Technology')
+    assert.ok(nonTech.length >= 20, `${nonTech.length} non-tech scenarios`)
+  })
+
+  it('load from their data directory', async () => {
+    const registry = new ScenarioRegistry()
+    await registry.loadDirectory(DATA_DIR)
+    assert.deepEqual(
+      registry.list().map(scenario => scenario.id).sort(),
+      scenarios.map(scenario => scenario.id).sort()
+    )
+  })
+})
+
+describe('scenario search', () => {
+  it('filters by industry and education', () => {
+    const found = searchScenarios({ industry: 'healthcare', education: 'masters' })
+    assert.ok(found.length > 0)
+    found.forEach(scenario => {
+      assert.equal(scenario.targetIndustry, 'Healthcare')
+      assert.equal(scenario.preferredEducation, 'masters')
+    })
+  })
+
+  it('requires every query word to appear', () => {
+    const found = searchScenarios({ query: 'Registered Nurse' })
+    assert.ok(found.some(scenario => scenario.id === 'registered-nurse'))
+    assert.deepEqual(searchScenarios({ query: 'nurse juggling' }), [])
+  })
+
+  it('summarizes scenarios without their requirements', () => {
+    const summary = summarizeScenario(scenarios[0])
+    assert.equal(summary.id, scenarios[0].id)
+    assert.ok(!('skillRequirements' in summary))
+  })
+
+  it('rejects unknown education levels in filters', () => {
+    assert.deepEqual(
+      validateScenarioFilter({ education: 'phd' }).errors.map(error => error.path),
+      ['education']
+    )
+  })
+})
+
+describe('scenario matching', () => {
+  const profile: UserProfile = {
+    age: 30,
+    education: { level: 'bachelors', field: 'Computer Science' },
+    experience: { totalYears: 6, relevantYears: 6 },
+    skills: [],
+    employmentStatus: 'employed',
+  }
+  const goal = (targetRole: string): CareerGoal => ({
+    targetRole,
+    targetIndustry: 'Technology',
+    timeline: { targetMonths: 12, isFlexible: true },
+  })
+
+  it('matches abbreviated titles to the scenario of the full title', () => {
+    const [best, next] = matchScenarios(goal('ML Engineer'), profile)
+    assert.equal(best.scenario.id, 'ml-engineer')
+    assert.ok(best.score > next.score)
+    const { metadata } = new Evaluator().evaluate({ profile, goal: goal('ML Engineer') })
+    assert.equal(metadata.scenarioId, 'ml-engineer')
+  })
+
+  it('gives unrelated roles no scenario, whatever the industry and experience', () => {
+    for (const targetRole of ['Janitor', 'Lead Generation Specialist', '']) {
+      assert.deepEqual(
+        matchScenarios(goal(targetRole), profile).filter(match => match.score >= MIN_SCENARIO_MATCH_SCORE),
+        [],
+        targetRole
+      )
+      const { metadata } = new Evaluator().evaluate({ profile, goal: goal(targetRole) })
+      assert.equal(metadata.scenarioId, undefined, targetRole)
+    }
+  })
+})
+
+describe('scenario validation', () => {
+  it('reports shape errors with their paths', () => {
+    const { valid, errors } = validateScenario({ id: 'broken', skillRequirements: [{}] }, 'broken.yaml')
+    assert.equal(valid, false)
+    const paths = errors.map(error => error.path)
+    assert.ok(paths.includes('broken.yaml.name'))
+    assert.ok(paths.includes('broken.yaml.skillRequirements[0].minProficiency'))
+    assert.ok(paths.includes('broken.yaml.timelineRanges'))
+  })
+
+  it('requires best <= average <= worst timelines', () => {
+    const scenario = customScenario({
+      timelineRanges: { bestCaseMonths: 12, averageCaseMonths: 6, worstCaseMonths: 3 },
+    })
+    const errors = validateScenario(scenario).errors.filter(error => error.code === 'invariant')
+    assert.deepEqual(
+      errors.map(error => error.path),
+      ['scenario.timelineRanges.bestCaseMonths', 'scenario.timelineRanges.averageCaseMonths']
+    )
+  })
+
+  it('requires failure frequencies between 0 and 100', () => {
+    const scenario = customScenario({
+      commonFailureReasons: [{ category: 'market', description: 'Too few openings', frequency: 120 }],
+    })
+    assert.deepEqual(
+      validateScenario(scenario).errors.map(error => [error.path, error.code]),
+      [['scenario.commonFailureReasons[0].frequency', 'range']]
+    )
+  })
+
+  it('rejects unknown skill IDs and currencies', () => {
+    const scenario = customScenario({
+      skillRequirements: [{ skillName: 'Juggling', skillId: 'juggling', minProficiency: 2, isCritical: false }],
+      typicalSalaryRange: { min: 1, max: 2, currency: 'XXX' },
+    })
+    assert.deepEqual(
+      validateScenario(scenario).errors.map(error => error.path),
+      ['scenario.skillRequirements[0].skillId', 'scenario.typicalSalaryRange.currency']
+    )
+  })
+
+  it('requires unique IDs', () => {
+    const { errors } = validateScenarios([customScenario(), customScenario()], ['a.json', 'b.json'])
+    assert.deepEqual(errors.map(error => error.message), ['b.json.id "custom-scenario" is already used by a.json'])
+  })
+})
+
+describe('scenario templates', () => {
+  /** A template with one variant per parameter */
+  const template: ScenarioTemplate = {
+    base: customScenario({ id: 'analyst', name: 'Analyst', targetRole: 'Analyst', minExperienceYears: 0 }),
+    seniority: 'entry',
+    variants: [
+      { id: 'senior-analyst', name: 'Senior Analyst', seniority: 'senior', overrides: { targetRole: 'Senior Analyst' } },
+      { id: 'analyst-uk', name: 'Analyst (UK)', region: 'gb' },
+      { id: 'analyst-top-tier', name: 'Analyst at a Top-Tier Company', companyTier: 'top-tier' },
+    ],
+  }
+
+  it('expands into the base scenario followed by its variants', () => {
+    const expanded = expandScenarioTemplate(template)
+    assert.deepEqual(expanded.map(scenario => scenario.id), ['analyst', 'senior-analyst', 'analyst-uk', 'analyst-top-tier'])
+    assert.deepEqual(validateScenarios(expanded).errors, [])
+  })
+
+  it('derives experience and critical skill levels from the seniority', () => {
+    const [base, senior] = expandScenarioTemplate(template)
+    assert.equal(senior.minExperienceYears, 4)
+    assert.equal(senior.targetRole, 'Senior Analyst')
+    senior.skillRequirements.forEach((requirement, index) => {
+      const expected = base.skillRequirements[index].minProficiency + (requirement.isCritical ? 1 : 0)
+      assert.equal(requirement.minProficiency, Math.min(5, expected), requirement.skillName)
+    })
+  })
+
+  it('stretches timelines and adds competition for top-tier employers', () => {
+    const [base, , , topTier] = expandScenarioTemplate(template)
+    assert.equal(topTier.timelineRanges.averageCaseMonths, Math.round(base.timelineRanges.averageCaseMonths * 1.5))
+    const competition = topTier.commonFailureReasons.filter(reason => reason.category === 'competition')
+    assert.ok(competition.length === 1 && competition[0].frequency >= 40)
+  })
+
+  it('rejects invalid variants with their paths', () => {
+    const invalid = { ...template, variants: [{ id: 'analyst-mars', name: 'Analyst (Mars)', region: 'MARS' }] }
+    assert.throws(() => new ScenarioRegistry([invalid]), /scenarios\[0\]\.variants\[0\]\.region/)
+  })
+
+  it('only matches regional scenarios for users targeting that country', () => {
+    const registry = new ScenarioRegistry([template])
+    const goal: CareerGoal = {
+      targetRole: 'Analyst',
+      targetIndustry: 'Technology',
+      timeline: { targetMonths: 12, isFlexible: true },
+    }
+    const profile = (country: string): UserProfile => ({
+      age: 30,
+      education: { level: 'bachelors', field: 'Economics' },
+      experience: { totalYears: 3, relevantYears: 3 },
+      skills: [],
+      employmentStatus: 'employed',
+      location: { country },
+    })
+
+    const [inUk] = matchScenarios(goal, profile('United Kingdom'), registry.list())
+    assert.equal(inUk.scenario.id, 'analyst-uk')
+    const inUs = matchScenarios(goal, profile('US'), registry.list()).map(match => match.scenario.id)
+    assert.ok(!inUs.includes('analyst-uk'))
+  })
+})
+
+describe('ScenarioRegistry', () => {
+  it('rejects invalid scenarios without registering any', () => {
+    const registry = new ScenarioRegistry(scenarios)
+    const invalid = customScenario({ id: 'another-scenario', minExperienceYears: -1 })
+    assert.throws(() => registry.add([customScenario(), invalid]), /minExperienceYears/)
+    assert.throws(() => registry.add([scenarios[0]]), /already used by an existing scenario/)
+    assert.equal(registry.size, scenarios.length)
+  })
+
+  it('loads JSON and YAML files from a directory', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'scenarios-'))
+    try {
+      writeFileSync(join(directory, 'custom.json'), JSON.stringify(customScenario()))
+      writeFileSync(join(directory, 'hygienist.yaml'), HYGIENIST_YAML)
+      writeFileSync(join(directory, 'README.md'), '# Not a scenario')
+
+      const registry = new ScenarioRegistry()
+      const loaded = await registry.loadDirectory(directory)
+      assert.deepEqual(loaded.map(scenario => scenario.id), ['custom-scenario', 'dental-hygienist'])
+      assert.equal(registry.get('dental-hygienist')?.skillRequirements[0].minProficiency, 3)
+    } finally {
+      rmSync(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('names the file of an invalid scenario', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'scenarios-'))
+    try {
+      writeFileSync(join(directory, 'hygienist.yml'), HYGIENIST_YAML.replace('frequency: 15', 'frequency: 150'))
+      await assert.rejects(
+        new ScenarioRegistry().loadDirectory(directory),
+        /hygienist\.yml\.commonFailureReasons\[0\]\.frequency/
+      )
+    } finally {
+      rmSync(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('loads a YAML file from a URL', async () => {
+    const fetchFile = async () =>
+      new Response(HYGIENIST_YAML, { headers: { 'content-type': 'application/yaml' } })
+    const registry = new ScenarioRegistry()
+    await registry.loadUrl('https://example.com/scenarios/hygienist', fetchFile as typeof fetch)
+    assert.ok(registry.has('dental-hygienist'))
+  })
+
+  it('is used by an evaluator to match goals', () => {
+    const registry = new ScenarioRegistry(scenarios)
+    registry.addFile(HYGIENIST_YAML, 'hygienist.yaml')
+    const evaluator = new Evaluator({ scenarios: registry, now: new Date('2025-06-01T00:00:00.000Z') })
+    const result = evaluator.evaluate({
+      profile: {
+        age: 24,
+        education: { level: 'associates', field: 'Dental Hygiene' },
+        experience: { totalYears: 1, relevantYears: 1 },
+        skills: [{ name: 'Dental Hygiene Procedures', proficiency: 3 }],
+        employmentStatus: 'student',
+      },
+      goal: {
+        targetRole: 'Dental Hygienist',
+        targetIndustry: 'Healthcare',
+        timeline: { targetMonths: 6, isFlexible: true },
+      },
+    })
+    assert.equal(result.metadata.scenarioId, 'dental-hygienist')
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Sensitivity analysis tests
+ *
+ * Checks that score and timeline swings count the unchanged input as a delta of
+ * 0, that fields are ranked by swing, and that salary changes never leave the
+ * minimum salary above the desired one.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { Evaluator, sensitivity } from '../src'
+import type { RealityCheckInput, RealityCheckResult } from '../src'
+
+const now = new Date('2025-06-01T00:00:00.000Z')
+
+/**
+ * An evaluator that keeps every input it evaluates.
+ */
+class RecordingEvaluator extends Evaluator {
+  inputs: RealityCheckInput[] = []
+
+  evaluate(input: RealityCheckInput): RealityCheckResult {
+    this.inputs.push(input)
+    return super.evaluate(input)
+  }
+}
+
+/**
+ * An engineer moving into machine learning on a 12-month timeline, with a
+ * minimum salary close to the desired one.
+ */
+const input: RealityCheckInput = {
+  profile: {
+    age: 30,
+    education: { level: 'bachelors', field: 'Computer Science', graduationYear: 2017 },
+    experience: { totalYears: 7, relevantYears: 5, currentRole: 'Software Engineer' },
+    skills: [
+      { name: 'Python', proficiency: 4, yearsOfExperience: 5 },
+      { name: 'Machine Learning', proficiency: 2, yearsOfExperience: 1 },
+    ],
+    employmentStatus: 'employed',
+  },
+  goal: {
+    targetRole: 'Machine Learning Engineer',
+    targetIndustry: 'Technology',
+    timeline: { targetMonths: 12, isFlexible: true },
+    salaryExpectation: { desired: 150000, minimum: 140000, currency: 'USD' },
+  },
+  scenarioId: 'ml-engineer',
+}
+
+describe('sensitivity', () => {
+  it('measures swings from the unchanged input', () => {
+    const { fields } = sensitivity(input, { evaluator: new Evaluator({ now }) })
+    for (const field of fields) {
+      const scoreDeltas = field.variants.map(variant => variant.overallScoreDelta)
+      const timelineDeltas = field.variants.map(variant => variant.timelineDeltas.average)
+      assert.equal(
+        field.scoreSwing,
+        Math.max(0, ...scoreDeltas) - Math.min(0, ...scoreDeltas),
+        field.field
+      )
+      assert.equal(
+        field.timelineSwing,
+        Math.max(0, ...timelineDeltas) - Math.min(0, ...timelineDeltas),
+        field.field
+      )
+      assert.equal(field.low.overallScoreDelta, Math.min(...scoreDeltas), field.field)
+      assert.equal(field.high.overallScoreDelta, Math.max(...scoreDeltas), field.field)
+    }
+  })
+
+  it('ranks fields by score swing, then timeline swing', () => {
+    const { fields } = sensitivity(input, { evaluator: new Evaluator({ now }) })
+    assert.ok(fields[0].scoreSwing > 0)
+    for (let index = 1; index < fields.length; index++) {
+      const [before, after] = [fields[index - 1], fields[index]]
+      assert.ok(
+        before.scoreSwing > after.scoreSwing ||
+          (before.scoreSwing === after.scoreSwing && before.timelineSwing >= after.timelineSwing),
+        `${before.field} before ${after.field}`
+      )
+    }
+  })
+
+  it('keeps the minimum salary at most the desired salary', () => {
+    const evaluator = new RecordingEvaluator({ now })
+    const { fields } = sensitivity(input, { evaluator })
+
+    for (const { goal } of evaluator.inputs) {
+      const salary = goal.salaryExpectation
+      assert.ok(salary && salary.minimum <= salary.desired, JSON.stringify(salary))
+    }
+
+    const minimum = fields.find(field => field.field === 'goal.salaryExpectation.minimum')
+    assert.deepEqual(
+      minimum?.variants.map(variant => variant.value),
+      [112000, 150000]
+    )
+    const desired = evaluator.inputs.find(({ goal }) => goal.salaryExpectation?.desired === 120000)
+    assert.equal(desired?.goal.salaryExpectation?.minimum, 120000)
+  })
+})
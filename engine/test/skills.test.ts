@@ -0,0 +1,60 @@
+/**
+ * Skill matching tests
+ *
+ * Checks that free-text skill names resolve to the taxonomy exactly, by alias
+ * or with a typo only where a typo is plausible, and that requirements are
+ * matched by the user skill that satisfies them.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { matchRequirement, resolveSkill } from '../src'
+
+describe('resolveSkill', () => {
+  it('resolves canonical names and aliases case-insensitively', () => {
+    assert.deepEqual(
+      [resolveSkill('python'), resolveSkill('Postgres')].map(resolution => [resolution?.skill.id, resolution?.method]),
+      [
+        ['python', 'exact'],
+        ['sql', 'alias'],
+      ]
+    )
+  })
+
+  it('resolves typos in longer names', () => {
+    assert.equal(resolveSkill('Pyhton')?.skill.id, 'python')
+    assert.equal(resolveSkill('Javscript')?.method, 'fuzzy')
+    assert.equal(resolveSkill('Javscript')?.skill.id, 'javascript')
+  })
+
+  it('does not treat short words as misspelled skills', () => {
+    for (const name of ['Shift', 'Scale', 'Rugby']) {
+      assert.equal(resolveSkill(name), undefined, name)
+    }
+  })
+
+  it('does not assume a typo in the first letter', () => {
+    assert.equal(resolveSkill('Cython'), undefined)
+  })
+})
+
+describe('matchRequirement', () => {
+  const requirement = { skillName: 'Swift', minProficiency: 3 as const, isCritical: true }
+
+  it('matches a skill of the same name', () => {
+    const match = matchRequirement(requirement, [{ name: 'swift', proficiency: 4 }])
+    assert.equal(match?.method, 'exact')
+    assert.equal(match?.meetsRequirement, true)
+  })
+
+  it('does not match a word one edit away', () => {
+    assert.equal(matchRequirement(requirement, [{ name: 'Shift', proficiency: 5 }]), undefined)
+  })
+
+  it('matches a child skill of the requirement', () => {
+    const match = matchRequirement({ skillName: 'Deep Learning', minProficiency: 3, isCritical: true }, [
+      { name: 'PyTorch', proficiency: 3 },
+    ])
+    assert.equal(match?.method, 'child')
+  })
+})
@@ -0,0 +1,49 @@
+/**
+ * Drift detection
+ *
+ * Describes how a result drifted from its golden file, in the terms reviewers
+ * care about first: scores, probability bands and warnings.
+ */
+
+import type { ProbabilityBand, RealityCheckResult } from '../../src'
+
+/** Probability bands, best first */
+const BANDS: ProbabilityBand[] = ['best', 'average', 'worst']
+
+/** Band fields whose drift is reported */
+const BAND_FIELDS = ['likelihood', 'estimatedTimelineMonths', 'requiredDailyHours'] as const
+
+/**
+ * Lists every score, band and warning that differs between the golden result
+ * and the current one (e.g. "skillScore: 60 -> 55"); empty if none do.
+ */
+export function findDrift(expected: RealityCheckResult, actual: RealityCheckResult): string[] {
+  const drift: string[] = []
+  const compare = (label: string, previous: unknown, current: unknown) => {
+    if (previous !== current) {
+      drift.push(`${label}: ${String(previous)} -> ${String(current)}`)
+    }
+  }
+
+  compare('overallScore', expected.overallScore, actual.overallScore)
+  const scoreKeys = new Set([...Object.keys(expected.scoreBreakdown), ...Object.keys(actual.scoreBreakdown)])
+  for (const key of scoreKeys) {
+    compare(
+      key,
+      expected.scoreBreakdown[key as keyof RealityCheckResult['scoreBreakdown']],
+      actual.scoreBreakdown[key as keyof RealityCheckResult['scoreBreakdown']]
+    )
+  }
+
+  for (const band of BANDS) {
+    for (const field of BAND_FIELDS) {
+      compare(`${band}.${field}`, expected.probabilityBands[band][field], actual.probabilityBands[band][field])
+    }
+  }
+
+  const describeWarnings = (result: RealityCheckResult) =>
+    result.warnings.map(warning => `${warning.flag} (severity ${warning.severity})`).join(', ') || 'none'
+  compare('warnings', describeWarnings(expected), describeWarnings(actual))
+
+  return drift
+}
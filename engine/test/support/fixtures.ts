@@ -0,0 +1,73 @@
+/**
+ * Persona fixtures
+ *
+ * Each fixture in test/fixtures/ is a persona: an input evaluated at a fixed
+ * time with a config preset. Its expected result is the golden file of the same
+ * name in test/golden/. Run `npm run test:update` to rewrite the golden files
+ * after an intended change, and review the diff before committing it.
+ */
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { Evaluator } from '../../src'
+import type { ConfigPresetName, RealityCheckInput, RealityCheckResult } from '../../src'
+
+/** Engine directory (tests run from the compiled dist-test/test/support/) */
+const ENGINE_DIR = join(__dirname, '..', '..', '..')
+
+/** Directory of the persona fixtures */
+const FIXTURES_DIR = join(ENGINE_DIR, 'test', 'fixtures')
+
+/** Directory of the golden results */
+const GOLDEN_DIR = join(ENGINE_DIR, 'test', 'golden')
+
+/**
+ * A persona to evaluate.
+ */
+export interface Fixture {
+  /** File name without extension (e.g. "bootcamp-career-changer") */
+  name: string
+  /** Who the persona is and what the fixture covers */
+  description: string
+  /** Evaluation time (ISO 8601) */
+  now: string
+  /** Config preset (default: 'default') */
+  preset?: ConfigPresetName
+  input: RealityCheckInput
+}
+
+/**
+ * Loads every fixture, sorted by name.
+ */
+export function loadFixtures(): Fixture[] {
+  return readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({
+      name: file.replace(/\.json$/, ''),
+      ...JSON.parse(readFileSync(join(FIXTURES_DIR, file), 'utf8')),
+    }))
+}
+
+/**
+ * Evaluates a fixture, in JSON form (as the golden file stores it).
+ */
+export function evaluateFixture(fixture: Fixture): RealityCheckResult {
+  const evaluator = new Evaluator({ now: new Date(fixture.now), config: fixture.preset ?? 'default' })
+  return JSON.parse(JSON.stringify(evaluator.evaluate(fixture.input)))
+}
+
+/**
+ * Reads a fixture's golden result (undefined if it has none yet).
+ */
+export function readGolden(fixture: Fixture): RealityCheckResult | undefined {
+  const path = join(GOLDEN_DIR, `${fixture.name}.json`)
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : undefined
+}
+
+/**
+ * Writes a fixture's golden result.
+ */
+export function writeGolden(fixture: Fixture, result: RealityCheckResult): void {
+  writeFileSync(join(GOLDEN_DIR, `${fixture.name}.json`), JSON.stringify(result, null, 2) + '\n')
+}
@@ -0,0 +1,114 @@
+/**
+ * Random inputs
+ *
+ * Seeded generator of valid evaluation inputs for property tests. The same
+ * seed always produces the same inputs, so a failing case can be replayed from
+ * the seed in the failure message.
+ */
+
+import { scenarios } from '../../src'
+import type { Education, RealityCheckInput, Skill, UserProfile } from '../../src'
+
+/**
+ * Source of random numbers in [0, 1).
+ */
+export type Random = () => number
+
+/**
+ * Creates a seeded random number generator (mulberry32).
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Picks a whole number between min and max (inclusive).
+ */
+function integer(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1))
+}
+
+/**
+ * Picks one of the values.
+ */
+function pick<T>(random: Random, values: readonly T[]): T {
+  return values[integer(random, 0, values.length - 1)]
+}
+
+const EDUCATION_LEVELS: Education['level'][] = ['none', 'high_school', 'associates', 'bachelors', 'masters', 'doctorate']
+const EMPLOYMENT_STATUSES: UserProfile['employmentStatus'][] = ['employed', 'unemployed', 'self_employed', 'student']
+const FIELDS = ['Computer Science', 'Biology', 'Business Administration', 'English', 'Mathematics', 'Nursing']
+const SKILLS = ['Python', 'JavaScript', 'SQL', 'Machine Learning', 'Statistics', 'Communication', 'Excel', 'React']
+const ROLES = [
+  'Software Engineer',
+  'Senior Software Engineer',
+  'Data Analyst',
+  'Machine Learning Engineer',
+  'Product Manager',
+  'Registered Nurse',
+  'Engineering Manager',
+  'Research Scientist',
+  'Head Chef',
+]
+const INDUSTRIES = ['Technology', 'Healthcare', 'Finance', 'Academia / Research', 'Hospitality']
+const COUNTRIES = ['US', 'GB', 'DE', 'CA', 'AU', 'IN']
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'INR']
+
+/**
+ * Generates a valid evaluation input.
+ */
+export function randomInput(random: Random): RealityCheckInput {
+  const totalYears = integer(random, 0, 30)
+  const skills: Skill[] = SKILLS.filter(() => random() < 0.4).map(name => ({
+    name,
+    proficiency: integer(random, 0, 5) as Skill['proficiency'],
+    ...(random() < 0.5 ? { yearsOfExperience: integer(random, 0, 10) } : {}),
+    ...(random() < 0.2 ? { lastUsedYear: integer(random, 2005, 2025) } : {}),
+  }))
+  const minimumMonths = integer(random, 1, 24)
+  const desired = integer(random, 30, 250) * 1000
+
+  return {
+    profile: {
+      age: integer(random, 18, 65),
+      education: {
+        level: pick(random, EDUCATION_LEVELS),
+        field: pick(random, FIELDS),
+        ...(random() < 0.5 ? { graduationYear: integer(random, 1990, 2027) } : {}),
+      },
+      experience: { totalYears, relevantYears: integer(random, 0, totalYears) },
+      skills,
+      employmentStatus: pick(random, EMPLOYMENT_STATUSES),
+      ...(random() < 0.7
+        ? { location: { country: pick(random, COUNTRIES), isFlexible: random() < 0.5 } }
+        : {}),
+    },
+    goal: {
+      targetRole: pick(random, ROLES),
+      targetIndustry: pick(random, INDUSTRIES),
+      timeline: {
+        targetMonths: integer(random, 1, 60),
+        isFlexible: random() < 0.5,
+        ...(random() < 0.3 ? { minimumMonths, maximumMonths: minimumMonths + integer(random, 0, 36) } : {}),
+      },
+      ...(random() < 0.5
+        ? {
+            salaryExpectation: {
+              desired,
+              minimum: Math.round(desired * (0.6 + random() * 0.4)),
+              currency: pick(random, CURRENCIES),
+            },
+          }
+        : {}),
+      ...(random() < 0.3 ? { requirements: { remoteOnly: random() < 0.5 } } : {}),
+    },
+    ...(random() < 0.3 ? { scenarioId: pick(random, scenarios).id } : {}),
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Input validation tests
+ *
+ * Checks that untrusted input is rejected field by field: missing fields,
+ * wrong types (including NaN and Infinity), out-of-range values, unknown enum
+ * values and fields that contradict each other, each reported at its path.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { validateGoal, validateInput, validateProfile } from '../src'
+import type { CareerGoal, RealityCheckInput, UserProfile, ValidationResult } from '../src'
+
+const profile: UserProfile = {
+  age: 29,
+  education: { level: 'bachelors', field: 'Biology', graduationYear: 2018 },
+  experience: { totalYears: 6, relevantYears: 3, currentRole: 'Lab Technician' },
+  skills: [{ name: 'Python', proficiency: 3, yearsOfExperience: 2, lastUsedYear: 2024 }],
+  employmentStatus: 'employed',
+  location: { country: 'US', city: 'Boston', isFlexible: true },
+}
+
+const goal: CareerGoal = {
+  targetRole: 'Data Scientist',
+  targetIndustry: 'Healthcare',
+  timeline: { targetMonths: 18, isFlexible: true, minimumMonths: 12, maximumMonths: 24 },
+  salaryExpectation: { desired: 120000, minimum: 95000, currency: 'usd' },
+  requirements: { remoteOnly: false, targetLocation: 'Boston' },
+}
+
+/**
+ * The path and code of each error.
+ */
+function errorsOf({ errors }: ValidationResult): [string, string][] {
+  return errors.map(error => [error.path, error.code])
+}
+
+describe('validateInput', () => {
+  it('accepts a valid input', () => {
+    const input: RealityCheckInput = { profile, goal, scenarioId: 'data-scientist' }
+    assert.deepEqual(validateInput(input), { valid: true, errors: [] })
+  })
+
+  it('reports every missing part, not just the first', () => {
+    assert.deepEqual(errorsOf(validateInput({})), [
+      ['profile', 'required'],
+      ['goal', 'required'],
+    ])
+    assert.deepEqual(errorsOf(validateInput(null)), [['input', 'type']])
+  })
+
+  it('reports profile and goal errors at their paths', () => {
+    const input = {
+      profile: { ...profile, age: -1 },
+      goal: { ...goal, timeline: { ...goal.timeline, targetMonths: 0 } },
+      scenarioId: 7,
+    }
+    assert.deepEqual(errorsOf(validateInput(input)), [
+      ['profile.age', 'range'],
+      ['goal.timeline.targetMonths', 'range'],
+      ['scenarioId', 'type'],
+    ])
+  })
+})
+
+describe('validateProfile', () => {
+  const { experience, education, location } = profile
+
+  it('accepts a valid profile', () => {
+    assert.deepEqual(validateProfile(profile), { valid: true, errors: [] })
+  })
+
+  it('rejects NaN and Infinity as numbers', () => {
+    const result = validateProfile({
+      ...profile,
+      age: Number.NaN,
+      experience: { ...experience, totalYears: Number.POSITIVE_INFINITY },
+    })
+    assert.deepEqual(errorsOf(result), [
+      ['profile.age', 'type'],
+      ['profile.experience.totalYears', 'type'],
+    ])
+    assert.match(result.errors[0].message, /got NaN/)
+  })
+
+  it('checks ranges', () => {
+    const skill = profile.skills[0]
+    const cases: [unknown, string][] = [
+      [{ ...profile, age: 121 }, 'profile.age'],
+      [
+        { ...profile, experience: { ...experience, totalYears: 71 } },
+        'profile.experience.totalYears',
+      ],
+      [{ ...profile, skills: [{ ...skill, proficiency: 6 }] }, 'profile.skills[0].proficiency'],
+      [{ ...profile, skills: [{ ...skill, proficiency: 2.5 }] }, 'profile.skills[0].proficiency'],
+      [
+        { ...profile, skills: [{ ...skill, yearsOfExperience: -1 }] },
+        'profile.skills[0].yearsOfExperience',
+      ],
+      [
+        { ...profile, education: { ...education, graduationYear: 1850 } },
+        'profile.education.graduationYear',
+      ],
+    ]
+    for (const [value, path] of cases) {
+      assert.deepEqual(errorsOf(validateProfile(value)), [[path, 'range']], path)
+    }
+  })
+
+  it('checks enums', () => {
+    const result = validateProfile({
+      ...profile,
+      education: { ...education, level: 'phd' },
+      employmentStatus: 'retired',
+    })
+    assert.deepEqual(errorsOf(result), [
+      ['profile.education.level', 'enum'],
+      ['profile.employmentStatus', 'enum'],
+    ])
+    assert.match(result.errors[0].message, /must be one of none, high_school, .* \(got "phd"\)/)
+  })
+
+  it('requires relevantYears <= totalYears', () => {
+    assert.deepEqual(
+      errorsOf(validateProfile({ ...profile, experience: { ...experience, relevantYears: 7 } })),
+      [['profile.experience.relevantYears', 'invariant']]
+    )
+    assert.equal(
+      validateProfile({ ...profile, experience: { ...experience, relevantYears: 6 } }).valid,
+      true
+    )
+  })
+
+  it('reports wrong types and blank names', () => {
+    const result = validateProfile({
+      ...profile,
+      skills: [{ name: ' ', proficiency: '3' }, 'SQL'],
+      location: { ...location, isFlexible: 'yes' },
+    })
+    assert.deepEqual(errorsOf(result), [
+      ['profile.skills[0].name', 'required'],
+      ['profile.skills[0].proficiency', 'type'],
+      ['profile.skills[1]', 'type'],
+      ['profile.location.isFlexible', 'type'],
+    ])
+  })
+
+  it('reports errors under a custom path', () => {
+    assert.deepEqual(errorsOf(validateProfile({ ...profile, age: undefined }, 'input.profile')), [
+      ['input.profile.age', 'required'],
+    ])
+  })
+})
+
+describe('validateGoal', () => {
+  const { timeline, requirements } = goal
+  const salaryExpectation = goal.salaryExpectation as NonNullable<CareerGoal['salaryExpectation']>
+
+  it('accepts a valid goal', () => {
+    assert.deepEqual(validateGoal(goal), { valid: true, errors: [] })
+  })
+
+  it('checks the timeline range', () => {
+    assert.deepEqual(
+      errorsOf(validateGoal({ ...goal, timeline: { ...timeline, targetMonths: 601 } })),
+      [['goal.timeline.targetMonths', 'range']]
+    )
+    assert.deepEqual(
+      errorsOf(validateGoal({ ...goal, timeline: { ...timeline, targetMonths: Number.NaN } })),
+      [['goal.timeline.targetMonths', 'type']]
+    )
+  })
+
+  it('requires minimumMonths <= maximumMonths', () => {
+    assert.deepEqual(
+      errorsOf(validateGoal({ ...goal, timeline: { ...timeline, minimumMonths: 30 } })),
+      [['goal.timeline.minimumMonths', 'invariant']]
+    )
+  })
+
+  it('requires a minimum salary <= the desired salary', () => {
+    assert.deepEqual(
+      errorsOf(
+        validateGoal({ ...goal, salaryExpectation: { ...salaryExpectation, minimum: 130000 } })
+      ),
+      [['goal.salaryExpectation.minimum', 'invariant']]
+    )
+  })
+
+  it('checks salaries and currencies', () => {
+    const result = validateGoal({
+      ...goal,
+      salaryExpectation: { desired: Number.NEGATIVE_INFINITY, minimum: -1, currency: 'XYZ' },
+    })
+    assert.deepEqual(errorsOf(result), [
+      ['goal.salaryExpectation.desired', 'type'],
+      ['goal.salaryExpectation.minimum', 'range'],
+      ['goal.salaryExpectation.currency', 'enum'],
+    ])
+  })
+
+  it('requires a target role and checks requirement types', () => {
+    const result = validateGoal({
+      ...goal,
+      targetRole: '',
+      requirements: { ...requirements, remoteOnly: 'no', other: ['Visa', 3] },
+    })
+    assert.deepEqual(errorsOf(result), [
+      ['goal.targetRole', 'required'],
+      ['goal.requirements.remoteOnly', 'type'],
+      ['goal.requirements.other[1]', 'type'],
+    ])
+  })
+})
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Evaluator, scenarios, isConfigPresetName, compare, validateProfile, validateGoal } from '@career-reality-checker/engine'
+import type { UserProfile, ComparisonGoal } from '@career-reality-checker/engine'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { profile, goals }: { profile?: UserProfile; goals?: ComparisonGoal[] } = await request.json()
+
+    // Validate input
+    if (!Array.isArray(goals) || goals.length < 2) {
+      return NextResponse.json(
+        { error: 'Invalid input: goals must list at least two career goals or scenario IDs' },
+        { status: 400 }
+      )
+    }
+
+    // Field-level errors, e.g. goals[1].timeline.targetMonths
+    const errors = [
+      ...validateProfile(profile).errors,
+      ...goals.flatMap((goal, index) => (typeof goal === 'string' ? [] : validateGoal(goal, `goals[${index}]`).errors)),
+    ]
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors },
+        { status: 422 }
+      )
+    }
+
+    const unknownScenario = goals.find(
+      goal => typeof goal === 'string' && !scenarios.some(scenario => scenario.id === goal)
+    )
+    if (unknownScenario !== undefined) {
+      return NextResponse.json(
+        { error: `Invalid input: unknown scenarioId "${unknownScenario}"` },
+        { status: 400 }
+      )
+    }
+
+    // Optional evaluator profile, e.g. /api/compare?preset=career-changer
+    const preset = request.nextUrl.searchParams.get('preset') ?? 'default'
+    if (!isConfigPresetName(preset)) {
+      return NextResponse.json(
+        { error: `Invalid input: unknown preset "${preset}"` },
+        { status: 400 }
+      )
+    }
+
+    // Evaluate the profile against every goal and put the results side by side
+    const evaluator = new Evaluator({ config: preset })
+    const comparison = compare(profile as UserProfile, goals, { evaluator })
+
+    return NextResponse.json(comparison)
+  } catch (error) {
+    console.error('Comparison error:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare goals', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
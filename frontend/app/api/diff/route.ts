@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { diffResults } from '@career-reality-checker/engine'
+import type { SavedResult } from '@career-reality-checker/engine'
+
+/**
+ * Whether a value looks like a `RealityCheckResult` (e.g. one saved as JSON),
+ * including one saved by an earlier engine version without `role` or
+ * `metadata.input` (see `SavedResult`).
+ */
+function isResult(value: unknown): value is SavedResult {
+  const result = value as SavedResult | undefined
+  return (
+    typeof result?.overallScore === 'number' &&
+    typeof result.probabilityBands === 'object' &&
+    Array.isArray(result.warnings) &&
+    Array.isArray(result.skillGaps) &&
+    typeof result.metadata?.evaluatedAt === 'string'
+  )
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Results are compared and returned, never stored
+    const { previous, current }: { previous?: unknown; current?: unknown } = await request.json()
+
+    // Validate input
+    if (!isResult(previous) || !isResult(current)) {
+      return NextResponse.json(
+        { error: 'Invalid input: previous and current must be evaluation results' },
+        { status: 400 }
+      )
+    }
+
+    for (const result of [previous, current]) {
+      if (Number.isNaN(Date.parse(result.metadata.evaluatedAt))) {
+        return NextResponse.json(
+          {
+            error: `Invalid input: metadata.evaluatedAt "${result.metadata.evaluatedAt}" is not a valid date`,
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (Date.parse(current.metadata.evaluatedAt) <Date.parse(previous.metadata.evaluatedAt)) {
+      return NextResponse.json(
+        { error: 'Invalid input: the previous result must be evaluated before the current one' },
+        { status: 400 }
+      )
+    }
+
+    const diff = diffResults(previous, current)
+
+    return NextResponse.json(diff)
+  } catch (error) {
+    console.error('Diff error:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare results', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
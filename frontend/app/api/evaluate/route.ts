@@ -1,21 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { Evaluator } from '@career-reality-checker/engine'
+import { Evaluator, scenarios, isConfigPresetName, validateInput } from '@career-reality-checker/engine'
 import type { RealityCheckInput } from '@career-reality-checker/engine'
 
 export async function POST(request: NextRequest) {
   try {
     const input: RealityCheckInput = await request.json()
 
-    // Validate input
-    if (!input.profile || !input.goal) {
+    // Validate input (field-level errors, e.g. profile.skills[0].proficiency)
+    const validation = validateInput(input)
+    if (!validation.valid) {
       return NextResponse.json(
-        { error: 'Invalid input: profile and goal are required' },
+        { error: 'Invalid input', errors: validation.errors },
+        { status: 422 }
+      )
+    }
+
+    if (input.scenarioId !== undefined && !scenarios.some(scenario => scenario.id === input.scenarioId)) {
+      return NextResponse.json(
+        { error: `Invalid input: unknown scenarioId "${input.scenarioId}"` },
+        { status: 400 }
+      )
+    }
+
+    // Optional evaluator profile, e.g. /api/evaluate?preset=career-changer
+    const preset = request.nextUrl.searchParams.get('preset') ?? 'default'
+    if (!isConfigPresetName(preset)) {
+      return NextResponse.json(
+        { error: `Invalid input: unknown preset "${preset}"` },
         { status: 400 }
       )
     }
 
     // Run evaluation
-    const evaluator = new Evaluator()
+    const evaluator = new Evaluator({ config: preset })
     const result = evaluator.evaluate(input)
 
     return NextResponse.json(result)
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  Evaluator,
+  scenarios,
+  isConfigPresetName,
+  validateInput,
+  validateImprovementTarget,
+  suggestImprovements,
+} from '@career-reality-checker/engine'
+import type { RealityCheckInput, ImprovementTarget } from '@career-reality-checker/engine'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { input, target }: { input: RealityCheckInput; target: ImprovementTarget } = await request.json()
+
+    // Validate input and target (field-level errors, e.g. target.overallScore)
+    const errors = [...validateInput(input).errors, ...validateImprovementTarget(target).errors]
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors },
+        { status: 422 }
+      )
+    }
+
+    if (input.scenarioId !== undefined && !scenarios.some(scenario => scenario.id === input.scenarioId)) {
+      return NextResponse.json(
+        { error: `Invalid input: unknown scenarioId "${input.scenarioId}"` },
+        { status: 400 }
+      )
+    }
+
+    // Optional evaluator profile, e.g. /api/improvements?preset=career-changer
+    const preset = request.nextUrl.searchParams.get('preset') ?? 'default'
+    if (!isConfigPresetName(preset)) {
+      return NextResponse.json(
+        { error: `Invalid input: unknown preset "${preset}"` },
+        { status: 400 }
+      )
+    }
+
+    // Search for the smallest sets of changes that reach the target
+    const evaluator = new Evaluator({ config: preset })
+    const suggestions = suggestImprovements(input, target, { evaluator })
+
+    return NextResponse.json(suggestions)
+  } catch (error) {
+    console.error('Improvement search error:', error)
+    return NextResponse.json(
+      { error: 'Failed to search for improvements', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
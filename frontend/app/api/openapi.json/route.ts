@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { openApiDocument } from '@career-reality-checker/engine'
+
+export async function GET() {
+  // Generated from the engine types (see engine/scripts/generate-schemas.mjs)
+  return NextResponse.json(openApiDocument)
+}
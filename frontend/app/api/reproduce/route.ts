@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reproduce, validateInput } from '@career-reality-checker/engine'
+import type { RealityCheckResult } from '@career-reality-checker/engine'
+
+/**
+ * Whether a value looks like a `RealityCheckResult` that records its input.
+ */
+function isReproducibleResult(value: unknown): value is RealityCheckResult {
+  const result = value as RealityCheckResult | undefined
+  return (
+    typeof result?.overallScore === 'number' &&
+    typeof result.metadata?.evaluatedAt === 'string' &&
+    typeof result.metadata.input === 'object' &&
+    typeof result.metadata.config === 'object'
+  )
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // The saved result is re-evaluated and returned, never stored
+    const { result }: { result?: unknown } = await request.json()
+
+    // Validate input
+    if (!isReproducibleResult(result)) {
+      return NextResponse.json(
+        { error: 'Invalid input: result must be an evaluation result that records its input' },
+        { status: 400 }
+      )
+    }
+
+    if (Number.isNaN(Date.parse(result.metadata.evaluatedAt))) {
+      return NextResponse.json(
+        { error: `Invalid input: result.metadata.evaluatedAt "${result.metadata.evaluatedAt}" is not a valid date` },
+        { status: 400 }
+      )
+    }
+
+    // The recorded input is evaluated as is, so it gets the same field-level
+    // checks as /api/evaluate (e.g. profile.skills[0].proficiency)
+    const validation = validateInput(result.metadata.input)
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validation.errors },
+        { status: 422 }
+      )
+    }
+
+    const report = reproduce(result)
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Reproduction error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reproduce result', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
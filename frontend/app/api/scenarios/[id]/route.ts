@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { scenarios } from '@career-reality-checker/engine'
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    // Full scenario, including its failure reasons, notes and salary data
+    const scenario = scenarios.find(candidate => candidate.id === params.id)
+    if (!scenario) {
+      return NextResponse.json(
+        { error: `Unknown scenario ID: ${params.id}` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(scenario)
+  } catch (error) {
+    console.error('Scenario error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load scenario', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { searchScenarios, summarizeScenario, validateScenarioFilter } from '@career-reality-checker/engine'
+import type { ScenarioFilter } from '@career-reality-checker/engine'
+
+// Filters come from the query string, so the listing is rendered per request
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Optional filters, e.g. /api/scenarios?industry=Healthcare&education=bachelors&q=nurse
+    const params = request.nextUrl.searchParams
+    const filter = {
+      industry: params.get('industry') ?? undefined,
+      education: params.get('education') ?? undefined,
+      query: params.get('q') ?? undefined,
+    }
+
+    const validation = validateScenarioFilter(filter)
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validation.errors },
+        { status: 422 }
+      )
+    }
+
+    // Summaries only; /api/scenarios/[id] returns the full scenario
+    const scenarios = searchScenarios(filter as ScenarioFilter).map(summarizeScenario)
+
+    return NextResponse.json({ scenarios })
+  } catch (error) {
+    console.error('Scenario listing error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list scenarios', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
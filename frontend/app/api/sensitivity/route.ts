@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Evaluator, scenarios, isConfigPresetName, validateInput, sensitivity } from '@career-reality-checker/engine'
+import type { RealityCheckInput } from '@career-reality-checker/engine'
+
+export async function POST(request: NextRequest) {
+  try {
+    const input: RealityCheckInput = await request.json()
+
+    // Validate input (field-level errors, e.g. profile.skills[0].proficiency)
+    const validation = validateInput(input)
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validation.errors },
+        { status: 422 }
+      )
+    }
+
+    if (input.scenarioId !== undefined && !scenarios.some(scenario => scenario.id === input.scenarioId)) {
+      return NextResponse.json(
+        { error: `Invalid input: unknown scenarioId "${input.scenarioId}"` },
+        { status: 400 }
+      )
+    }
+
+    // Optional evaluator profile, e.g. /api/sensitivity?preset=career-changer
+    const preset = request.nextUrl.searchParams.get('preset') ?? 'default'
+    if (!isConfigPresetName(preset)) {
+      return NextResponse.json(
+        { error: `Invalid input: unknown preset "${preset}"` },
+        { status: 400 }
+      )
+    }
+
+    // Perturb each input field and rank the fields by their effect
+    const evaluator = new Evaluator({ config: preset })
+    const report = sensitivity(input, { evaluator })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Sensitivity analysis error:', error)
+    return NextResponse.json(
+      { error: 'Failed to analyze sensitivity', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,23 +1,109 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import type {
   RealityCheckInput,
   RealityCheckResult,
   UserProfile,
   CareerGoal,
   Skill,
+  LikelihoodThreshold,
+  ExplanationNode,
+  ExplanationValue,
+  ImprovementSuggestions,
+  SensitivityReport,
+  SacrificeIndicators,
+  GoalComparison,
+  LearningRoadmap,
+  ResultDiff,
+  ValidationError,
+  ScenarioSummary,
+  BandPhase,
 } from '@career-reality-checker/engine'
 
+/** Form field of each input path (skills are a single comma-separated field) */
+const FORM_FIELDS: Record<string, string> = {
+  'profile.age': 'age',
+  'profile.education.level': 'education',
+  'profile.employmentStatus': 'employmentStatus',
+  'profile.experience.totalYears': 'totalYears',
+  'profile.experience.relevantYears': 'relevantYears',
+  'profile.location.country': 'country',
+  'profile.location.city': 'city',
+  'goal.targetRole': 'targetRole',
+  'goal.targetIndustry': 'targetIndustry',
+  'goal.timeline.targetMonths': 'targetMonths',
+  'goal.timeline.isFlexible': 'timelineFlexible',
+  'goal.requirements.targetLocation': 'targetLocation',
+  scenarioId: 'scenarioId',
+  'goal.salaryExpectation.desired': 'desiredSalary',
+  'goal.salaryExpectation.minimum': 'minimumSalary',
+  'goal.salaryExpectation.currency': 'currency',
+}
+
+/**
+ * Groups validation errors by form field. Messages lose their path prefix when
+ * the field is shown next to them (e.g. "Must be between 1 and 600 (got -4)"),
+ * and name the skill they are about (e.g. "Skill 2 proficiency must be ...").
+ * Errors for paths without a form field are grouped under "".
+ */
+function groupFieldErrors(errors: ValidationError[]): Record<string, string[]> {
+  const grouped: Record<string, string[]> = {}
+  for (const error of errors) {
+    const skill = error.path.match(/^profile\.skills(?:\[(\d+)\](?:\.(\w+))?)?$/)
+    const field = skill ? 'skills' : FORM_FIELDS[error.path] ?? ''
+    let message = error.message
+    if (skill?.[1] !== undefined) {
+      message = message.replace(error.path, `Skill ${parseInt(skill[1]) + 1}${skill[2] ? ` ${skill[2]}` : ''}`)
+    } else if (field && message.startsWith(`${error.path} `)) {
+      message = message.slice(error.path.length + 1)
+    }
+    grouped[field] = [...(grouped[field] ?? []), message.charAt(0).toUpperCase() + message.slice(1)]
+  }
+  return grouped
+}
+
+/**
+ * Validation errors shown next to a form field.
+ */
+function FieldErrors({ errors }: { errors?: string[] }) {
+  if (!errors) return null
+  return (
+    <>
+      {errors.map(message => (
+        <span key={message} className="field-error">
+          {message}
+        </span>
+      ))}
+    </>
+  )
+}
+
 export default function Home() {
   const [result, setResult] = useState<RealityCheckResult | null>(null)
+  const [input, setInput] = useState<RealityCheckInput | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({})
+  const [targetRole, setTargetRole] = useState('')
+  const [targetIndustry, setTargetIndustry] = useState('')
+  const [scenario, setScenario] = useState<ScenarioSummary | null>(null)
+
+  // Picking a scenario pre-fills the goal; editing the goal afterwards drops the scenario
+  const pickScenario = (picked: ScenarioSummary | null) => {
+    setScenario(picked)
+    if (picked) {
+      // Scenario roles can list alternatives (e.g. "Teacher / K-12 Teacher"); use the first
+      setTargetRole(picked.targetRole.split('/')[0].trim())
+      setTargetIndustry(picked.targetIndustry)
+    }
+  }
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setLoading(true)
     setError(null)
+    setFieldErrors({})
     setResult(null)
 
     const formData = new FormData(e.currentTarget)
@@ -29,6 +115,15 @@ export default function Home() {
       proficiency: 2, // Default to beginner-intermediate, user can adjust later
     }))
 
+    // Location is optional; city only counts together with a country
+    const country = formData.get('country')?.toString().trim() || ''
+    const city = formData.get('city')?.toString().trim() || ''
+    const targetLocation = formData.get('targetLocation')?.toString().trim() || ''
+
+    // Salary expectation is optional; a missing minimum defaults to the desired salary
+    const desiredSalary = parseFloat(formData.get('desiredSalary')?.toString() || '')
+    const minimumSalary = parseFloat(formData.get('minimumSalary')?.toString() || '')
+
     // Build user profile
     const profile: UserProfile = {
       age: parseInt(formData.get('age')?.toString() || '25'),
@@ -41,6 +136,7 @@ export default function Home() {
       },
       skills,
       employmentStatus: (formData.get('employmentStatus')?.toString() || 'employed') as UserProfile['employmentStatus'],
+      location: country ? { country, city: city || undefined } : undefined,
     }
 
     // Build career goal
@@ -51,9 +147,18 @@ export default function Home() {
         targetMonths: parseInt(formData.get('targetMonths')?.toString() || '12'),
         isFlexible: formData.get('timelineFlexible') === 'true',
       },
+      requirements: targetLocation ? { targetLocation } : undefined,
+      salaryExpectation: Number.isFinite(desiredSalary)
+        ? {
+            desired: desiredSalary,
+            minimum: Number.isFinite(minimumSalary) ? minimumSalary : desiredSalary,
+            currency: formData.get('currency')?.toString() || 'USD',
+          }
+        : undefined,
     }
 
-    const input: RealityCheckInput = { profile, goal }
+    const input: RealityCheckInput = { profile, goal, ...(scenario ? { scenarioId: scenario.id } : {}) }
+    setInput(input)
 
     try {
       const response = await fetch('/api/evaluate', {
@@ -62,6 +167,15 @@ export default function Home() {
         body: JSON.stringify(input),
       })
 
+      if (response.status === 422) {
+        // Show each validation error next to its field
+        const { errors }: { errors: ValidationError[] } = await response.json()
+        const { '': otherErrors, ...grouped } = groupFieldErrors(errors)
+        setFieldErrors(grouped)
+        setError(otherErrors ? otherErrors.join('. ') : 'Please correct the fields marked above.')
+        return
+      }
+
       if (!response.ok) {
         const errorData = await response.json()
         throw new Error(errorData.error || 'Evaluation failed')
@@ -99,6 +213,7 @@ export default function Home() {
                 max={100}
                 required
               />
+              <FieldErrors errors={fieldErrors.age} />
             </div>
 
             <div className="form-group">
@@ -111,6 +226,7 @@ export default function Home() {
                 <option value="masters">Master&apos;s degree</option>
                 <option value="doctorate">Doctorate</option>
               </select>
+              <FieldErrors errors={fieldErrors.education} />
             </div>
 
             <div className="form-group">
@@ -121,6 +237,7 @@ export default function Home() {
                 <option value="self_employed">Self-employed</option>
                 <option value="student">Student</option>
               </select>
+              <FieldErrors errors={fieldErrors.employmentStatus} />
             </div>
 
             <div className="form-group">
@@ -134,6 +251,7 @@ export default function Home() {
                 step={0.5}
                 required
               />
+              <FieldErrors errors={fieldErrors.totalYears} />
             </div>
 
             <div className="form-group">
@@ -147,6 +265,7 @@ export default function Home() {
                 step={0.5}
                 required
               />
+              <FieldErrors errors={fieldErrors.relevantYears} />
             </div>
 
             <div className="form-group">
@@ -159,12 +278,37 @@ export default function Home() {
                 name="skills"
                 placeholder="JavaScript, Python, React"
               />
+              <FieldErrors errors={fieldErrors.skills} />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="country">Country (optional)</label>
+              <input
+                type="text"
+                id="country"
+                name="country"
+                placeholder="e.g., United States, India, UK"
+              />
+              <FieldErrors errors={fieldErrors.country} />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="city">City (optional)</label>
+              <input
+                type="text"
+                id="city"
+                name="city"
+                placeholder="e.g., Austin, Bengaluru, London"
+              />
+              <FieldErrors errors={fieldErrors.city} />
             </div>
           </section>
 
           <section className="form-section">
             <h2>Your Career Goal</h2>
 
+            <ScenarioPicker selected={scenario} onPick={pickScenario} errors={fieldErrors.scenarioId} />
+
             <div className="form-group">
               <label htmlFor="targetRole">Target Role</label>
               <input
@@ -172,8 +316,14 @@ export default function Home() {
                 id="targetRole"
                 name="targetRole"
                 placeholder="e.g., Software Engineer, Data Scientist"
+                value={targetRole}
+                onChange={e => {
+                  setTargetRole(e.target.value)
+                  setScenario(null)
+                }}
                 required
               />
+              <FieldErrors errors={fieldErrors.targetRole} />
             </div>
 
             <div className="form-group">
@@ -183,8 +333,14 @@ export default function Home() {
                 id="targetIndustry"
                 name="targetIndustry"
                 placeholder="e.g., Technology, Healthcare, Finance"
+                value={targetIndustry}
+                onChange={e => {
+                  setTargetIndustry(e.target.value)
+                  setScenario(null)
+                }}
                 required
               />
+              <FieldErrors errors={fieldErrors.targetIndustry} />
             </div>
 
             <div className="form-group">
@@ -198,6 +354,7 @@ export default function Home() {
                 max={120}
                 required
               />
+              <FieldErrors errors={fieldErrors.targetMonths} />
             </div>
 
             <div className="form-group">
@@ -209,6 +366,43 @@ export default function Home() {
                 />
                 Timeline is flexible
               </label>
+              <FieldErrors errors={fieldErrors.timelineFlexible} />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="targetLocation">Target Location (optional)</label>
+              <input
+                type="text"
+                id="targetLocation"
+                name="targetLocation"
+                placeholder="e.g., Seattle, London, Germany"
+              />
+              <FieldErrors errors={fieldErrors.targetLocation} />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="desiredSalary">Desired Annual Salary (optional)</label>
+              <input type="number" id="desiredSalary" name="desiredSalary" min={0} step={1000} />
+              <FieldErrors errors={fieldErrors.desiredSalary} />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="minimumSalary">Minimum Acceptable Salary (optional)</label>
+              <input type="number" id="minimumSalary" name="minimumSalary" min={0} step={1000} />
+              <FieldErrors errors={fieldErrors.minimumSalary} />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="currency">Salary Currency</label>
+              <select id="currency" name="currency" defaultValue="USD">
+                <option value="USD">USD</option>
+                <option value="EUR">EUR</option>
+                <option value="GBP">GBP</option>
+                <option value="INR">INR</option>
+                <option value="CAD">CAD</option>
+                <option value="AUD">AUD</option>
+              </select>
+              <FieldErrors errors={fieldErrors.currency} />
             </div>
           </section>
 
@@ -227,15 +421,779 @@ export default function Home() {
             ← Start Over
           </button>
 
-          <ResultsDisplay result={result} />
+          <ResultsDisplay result={result} input={input} />
         </div>
       )}
     </main>
   )
 }
 
-function ResultsDisplay({ result }: { result: RealityCheckResult }) {
+/** Display names of education levels */
+const EDUCATION_NAMES: Record<ScenarioSummary['preferredEducation'], string> = {
+  high_school: 'High school',
+  associates: 'Associate\'s degree',
+  bachelors: 'Bachelor\'s degree',
+  masters: 'Master\'s degree',
+  doctorate: 'Doctorate',
+}
+
+/**
+ * Lets the user start from a known career scenario: search the catalog by text
+ * and industry, and pick one to pre-fill the target role and industry. The
+ * picked scenario is evaluated explicitly (`scenarioId`) instead of matched.
+ */
+function ScenarioPicker({
+  selected,
+  onPick,
+  errors,
+}: {
+  selected: ScenarioSummary | null
+  onPick: (scenario: ScenarioSummary | null) => void
+  errors?: string[]
+}) {
+  const [query, setQuery] = useState('')
+  const [industry, setIndustry] = useState('')
+  const [industries, setIndustries] = useState<string[]>([])
+  const [options, setOptions] = useState<ScenarioSummary[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // Industries in the whole catalog, for the industry filter
+  useEffect(() => {
+    fetch('/api/scenarios')
+      .then(response => response.json())
+      .then(({ scenarios }: { scenarios: ScenarioSummary[] }) =>
+        setIndustries([...new Set(scenarios.map(scenario => scenario.targetIndustry))].sort())
+      )
+      .catch(() => setIndustries([]))
+  }, [])
+
+  useEffect(() => {
+    const params = new URLSearchParams()
+    if (industry) params.set('industry', industry)
+    if (query.trim()) params.set('q', query.trim())
+
+    fetch(`/api/scenarios?${params}`)
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Could not load scenarios')
+        setOptions(data.scenarios)
+        setError(null)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load scenarios'))
+  }, [query, industry])
+
+  // Keep the picked scenario listed even when the filters no longer match it
+  const listed = selected && !options.some(option => option.id === selected.id) ? [selected, ...options] : options
+
+  return (
+    <div className="form-group scenario-picker">
+      <label htmlFor="scenarioId">Start From a Career Scenario (optional)</label>
+      <div className="scenario-picker-filters">
+        <input
+          type="search"
+          aria-label="Search scenarios"
+          placeholder="Search, e.g., nurse, accountant, chef"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+        />
+        <select aria-label="Filter by industry" value={industry} onChange={e => setIndustry(e.target.value)}>
+          <option value="">All industries</option>
+          {industries.map(name => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <select
+        id="scenarioId"
+        value={selected?.id ?? ''}
+        onChange={e => onPick(listed.find(option => option.id === e.target.value) ?? null)}
+      >
+        <option value="">
+          {listed.length > 0 ? `None - match from the role and industry (${listed.length} found)` : 'No scenarios found'}
+        </option>
+        {listed.map(option => (
+          <option key={option.id} value={option.id}>
+            {option.name} ({option.targetIndustry})
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <p className="scenario-summary">
+          {selected.description} Typically {selected.minExperienceYears}+ years of experience;{' '}
+          {EDUCATION_NAMES[selected.preferredEducation].toLowerCase()} preferred.
+        </p>
+      )}
+      {error && <span className="field-error">{error}</span>}
+      <FieldErrors errors={errors} />
+    </div>
+  )
+}
+
+/**
+ * Formats a salary range, e.g. "USD 150,000-200,000".
+ */
+function formatSalaryRange(range: { min: number; max: number; currency: string }): string {
+  return `${range.currency} ${range.min.toLocaleString('en-US')}-${range.max.toLocaleString('en-US')}`
+}
+
+/**
+ * Describes a likelihood table, e.g. "30% if score ≥80, 20% if ≥50, 10% otherwise".
+ */
+function describeLikelihoods(table: LikelihoodThreshold[]): string {
+  return table
+    .map((row, idx) =>
+      row.minScore <= 0
+        ? `${row.likelihood}%${idx > 0 ? ' otherwise' : ''}`
+        : `${row.likelihood}% if ${idx === 0 ? 'score ' : ''}≥${row.minScore}`
+    )
+    .join(', ')
+}
+
+/**
+ * "Paths to improvement": the smallest sets of changes that reach a target score.
+ */
+function ImprovementPaths({ input, overallScore }: { input: RealityCheckInput; overallScore: number }) {
+  const [targetScore, setTargetScore] = useState(overallScore < 80 ? 80 : Math.min(100, overallScore + 10))
+  const [suggestions, setSuggestions] = useState<ImprovementSuggestions | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const findPaths = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/improvements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ input, target: { overallScore: targetScore } }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Search failed')
+      }
+
+      setSuggestions(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="improvements-section">
+      <h2>Paths to Improvement</h2>
+      <p className="explanation-intro">
+        What would you need to change to reach a higher score? We try realistic changes (raising
+        skills, gaining experience, extending your timeline, widening your search) and show the
+        smallest combinations that get there.
+      </p>
+      <div className="improvements-form">
+        <label htmlFor="targetScore">Target score</label>
+        <input
+          type="number"
+          id="targetScore"
+          min={1}
+          max={100}
+          value={targetScore}
+          onChange={e => setTargetScore(parseInt(e.target.value) || 0)}
+        />
+        <button type="button" className="back-button" onClick={findPaths} disabled={loading}>
+          {loading ? 'Searching...' : 'Find paths'}
+        </button>
+      </div>
+
+      {error && <div className="error">{error}</div>}
+
+      {suggestions &&
+        (suggestions.alreadyMet ? (
+          <p>Your current profile already reaches a score of {suggestions.target.overallScore}.</p>
+        ) : suggestions.paths.length === 0 ? (
+          <p>
+            No combination of up to three changes reaches {suggestions.target.overallScore}. Try a lower
+            target, or treat this goal as a longer-term plan with intermediate steps.
+          </p>
+        ) : (
+          <ol className="improvement-paths">
+            {suggestions.paths.map((path, idx) => (
+              <li key={idx}>
+                <ul>
+                  {path.changes.map(change => (
+                    <li key={change.description}>{change.description}</li>
+                  ))}
+                </ul>
+                <span className="path-outcome">
+                  Score {path.overallScore}/100, average timeline {path.averageTimelineMonths} months
+                  {path.totalMonths > 0 && `, about ${path.totalMonths} months of changes`}
+                </span>
+              </li>
+            ))}
+          </ol>
+        ))}
+    </div>
+  )
+}
+
+/**
+ * Tornado chart of how much each input field moves the overall score:
+ * bars to the left show the largest decrease, bars to the right the largest increase.
+ */
+function SensitivityChart({ input }: { input: RealityCheckInput }) {
+  const [report, setReport] = useState<SensitivityReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/sensitivity', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+      .then(async response => {
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || 'Sensitivity analysis failed')
+        }
+        setReport(await response.json())
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'))
+  }, [input])
+
+  // Only fields that move the score or the timeline are shown
+  const fields = report?.fields.filter(field => field.scoreSwing > 0 || field.timelineSwing > 0) ?? []
+  const scale = Math.max(1, ...fields.map(field => Math.max(-field.low.overallScoreDelta, field.high.overallScoreDelta)))
+
+  return (
+    <div className="sensitivity-section">
+      <h2>Which Inputs Matter Most</h2>
+      <p className="explanation-intro">
+        Each input was nudged down and up (one year of experience, one skill level, six months of
+        timeline, and so on). Bars show how far your overall score moves, largest effect first.
+      </p>
+
+      {error && <div className="error">{error}</div>}
+      {!report && !error && <p>Analyzing...</p>}
+      {report && fields.length === 0 && <p>None of the nudges changes your score or timeline.</p>}
+
+      {fields.length > 0 && (
+        <div className="tornado-chart">
+          {fields.map(field => {
+            const decrease = Math.min(0, field.low.overallScoreDelta)
+            const increase = Math.max(0, field.high.overallScoreDelta)
+            return (
+              <div key={field.field} className="tornado-row">
+                <span className="tornado-label">{field.label}</span>
+                <div className="tornado-bars">
+                  <div className="tornado-side tornado-low">
+                    {decrease < 0 && (
+                      <div
+                        className="tornado-bar"
+                        style={{ width: `${(-decrease / scale) * 100}%` }}
+                        title={field.low.description}
+                      >
+                        {decrease}
+                      </div>
+                    )}
+                  </div>
+                  <div className="tornado-side tornado-high">
+                    {increase > 0 && (
+                      <div
+                        className="tornado-bar"
+                        style={{ width: `${(increase / scale) * 100}%` }}
+                        title={field.high.description}
+                      >
+                        +{increase}
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <span className="tornado-timeline">
+                  {field.timelineSwing > 0 && `timeline ±${field.timelineSwing} months`}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Formats a month range of the roadmap (e.g. "months 1-6").
+ */
+function formatMonthRange(startMonth: number, endMonth: number): string {
+  const first = Math.floor(startMonth) + 1
+  const last = Math.ceil(endMonth)
+  return first === last ? `month ${first}` : `months ${first}-${last}`
+}
+
+/**
+ * Phased learning roadmap: skills in learning order, then interview preparation
+ * and the job search, with a month-by-month breakdown.
+ */
+function RoadmapView({ input }: { input: RealityCheckInput }) {
+  const [roadmap, setRoadmap] = useState<LearningRoadmap | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/roadmap', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+      .then(async response => {
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || 'Roadmap generation failed')
+        }
+        setRoadmap(await response.json())
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'))
+  }, [input])
+
+  return (
+    <div className="roadmap-section">
+      <h2>Your Learning Roadmap</h2>
+      <p className="explanation-intro">
+        Your skill gaps as a plan: one skill at a time, foundations and critical skills first, at
+        the daily hours you likely have available.
+      </p>
+
+      {error && <div className="error">{error}</div>}
+      {!roadmap && !error && <p>Planning...</p>}
+
+      {roadmap && (
+        <>
+          <ol className="roadmap-phases">
+            {roadmap.phases.map(phase => (
+              <li key={phase.kind}>
+                <strong>{phase.name}</strong> ({formatMonthRange(phase.startMonth, phase.endMonth)},{' '}
+                {phase.dailyHours} hours/day)
+                {phase.steps.length > 0 && (
+                  <ul>
+                    {phase.steps.map(step => (
+                      <li key={step.skillName}>
+                        {step.skillName}: level {step.fromProficiency} → {step.toProficiency}{' '}
+                        <span className="roadmap-months">({formatMonthRange(step.startMonth, step.endMonth)})</span>
+                        {step.prerequisites.length > 0 && (
+                          <span className="roadmap-prerequisites"> · builds on {step.prerequisites.join(', ')}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+          <p>
+            In total about <strong>{Math.ceil(roadmap.totalMonths)} months</strong> and{' '}
+            {roadmap.totalHours.toLocaleString('en-US')} hours.
+          </p>
+          {roadmap.notes.map(note => (
+            <p key={note} className="sacrifice-note">
+              {note}
+            </p>
+          ))}
+          <details className="explanation-details">
+            <summary>Month by month</summary>
+            <ul className="roadmap-months-list">
+              {roadmap.months.map(month => (
+                <li key={month.month}>
+                  <strong>Month {month.month}:</strong> {month.focus.join(', ')} ({month.dailyHours} hours/day)
+                </li>
+              ))}
+            </ul>
+          </details>
+        </>
+      )}
+    </div>
+  )
+}
+
+/** Human-readable names of the band phases */
+const BAND_PHASE_NAMES: Record<BandPhase['kind'], string> = {
+  'skill-building': 'Skill building',
+  'interview-prep': 'Interview preparation',
+  'job-search': 'Job search',
+}
+
+/** Human-readable names of the sacrifice indicators */
+const SACRIFICE_LABELS: Record<keyof SacrificeIndicators, string> = {
+  reduceLeisureTime: 'Less leisure time',
+  reduceCurrentJobCommitment: 'Reduce current job commitment',
+  financialInvestment: 'Financial investment',
+  locationFlexibility: 'Relocate or travel',
+  acceptLowerSalary: 'Accept a lower salary at first',
+  workNonStandardHours: 'Work nights or weekends',
+  delayOtherGoals: 'Delay other life goals',
+}
+
+/**
+ * Side-by-side comparison of the current goal with other target roles in the
+ * same industry and timeline.
+ */
+function GoalComparisonView({ input }: { input: RealityCheckInput }) {
+  const [otherRoles, setOtherRoles] = useState('')
+  const [comparison, setComparison] = useState<GoalComparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const compareGoals = async () => {
+    setLoading(true)
+    setError(null)
+
+    // Other goals keep everything but the target role
+    const goals: CareerGoal[] = [
+      input.goal,
+      ...otherRoles
+        .split(',')
+        .map(role => role.trim())
+        .filter(Boolean)
+        .map(targetRole => ({ ...input.goal, targetRole })),
+    ]
+
+    try {
+      const response = await fetch('/api/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile: input.profile, goals }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Comparison failed')
+      }
+
+      setComparison(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const labelOf = (index: number) => comparison?.goals[index].goal.targetRole ?? ''
+
+  return (
+    <div className="comparison-section">
+      <h2>Compare With Other Goals</h2>
+      <p className="explanation-intro">
+        How does this goal stack up against alternatives? Enter other target roles, separated by
+        commas, to see them evaluated against your profile side by side.
+      </p>
+      <div className="improvements-form">
+        <label htmlFor="otherRoles">Other roles</label>
+        <input
+          type="text"
+          id="otherRoles"
+          className="comparison-roles"
+          placeholder="e.g., Data Analyst, Product Manager"
+          value={otherRoles}
+          onChange={e => setOtherRoles(e.target.value)}
+        />
+        <button type="button" className="back-button" onClick={compareGoals} disabled={loading || !otherRoles.trim()}>
+          {loading ? 'Comparing...' : 'Compare'}
+        </button>
+      </div>
+
+      {error && <div className="error">{error}</div>}
+
+      {comparison && (
+        <>
+          <div className="comparison-table-wrapper">
+            <table className="comparison-table">
+              <thead>
+                <tr>
+                  <th />
+                  {comparison.goals.map((goal, idx) => (
+                    <th key={idx}>
+                      {goal.goal.targetRole}
+                      <span className="comparison-scenario">{goal.label}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <th>Overall score</th>
+                  {comparison.goals.map((goal, idx) => (
+                    <td key={idx} className={idx === comparison.bestOverallScore ? 'comparison-best' : undefined}>
+                      {goal.overallScore}/100
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th>Timeline (best / average / worst)</th>
+                  {comparison.goals.map((goal, idx) => (
+                    <td key={idx} className={idx === comparison.fastestAverageTimeline ? 'comparison-best' : undefined}>
+                      {goal.timelines.best} / {goal.timelines.average} / {goal.timelines.worst} months
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th>Hours invested (average case)</th>
+                  {comparison.goals.map((goal, idx) => (
+                    <td key={idx}>{goal.totalHours.average.toLocaleString('en-US')} hours</td>
+                  ))}
+                </tr>
+                <tr>
+                  <th>Skill gaps</th>
+                  {comparison.goals.map((goal, idx) => (
+                    <td key={idx}>{goal.skillGaps.length}</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {comparison.sharedSkillGaps.length > 0 && (
+            <>
+              <h3>Shared skill gaps</h3>
+              <p className="explanation-intro">Closing these helps with more than one goal.</p>
+              <ul className="comparison-list">
+                {comparison.sharedSkillGaps.map(gap => (
+                  <li key={gap.skillId ?? gap.skillName}>
+                    <strong>{gap.skillName}</strong> (to level {gap.requiredProficiency}):{' '}
+                    {gap.goalIndexes.map(labelOf).join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {comparison.differingSacrifices.length > 0 && (
+            <>
+              <h3>Where the sacrifices differ</h3>
+              <ul className="comparison-list">
+                {comparison.differingSacrifices.map(difference => (
+                  <li key={difference.sacrifice}>
+                    <strong>{SACRIFICE_LABELS[difference.sacrifice]}:</strong> needed for{' '}
+                    {difference.goalIndexes.map(labelOf).join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Formats a signed change (e.g. "+5", "-2", "±0").
+ */
+function formatDelta(delta: number): string {
+  if (delta === 0) return '±0'
+  return delta > 0 ? `+${delta}` : `${delta}`
+}
+
+/**
+ * Progress against a past result: the current result can be saved as JSON, and a
+ * saved one imported to see what changed since. Everything stays in the browser
+ * or is only compared by the server, never stored.
+ */
+function ProgressTracker({ result }: { result: RealityCheckResult }) {
+  const [diff, setDiff] = useState<ResultDiff | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const saveResult = () => {
+    const blob = new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `reality-check-${result.metadata.evaluatedAt.slice(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importResult = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setError(null)
+    setDiff(null)
+
+    try {
+      const previous = JSON.parse(await file.text())
+      const response = await fetch('/api/diff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ previous, current: result }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Comparison failed')
+      }
+
+      setDiff(await response.json())
+    } catch (err) {
+      setError(err instanceof SyntaxError ? 'That file is not valid JSON' : err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  return (
+    <div className="progress-section">
+      <h2>Track Your Progress</h2>
+      <p className="explanation-intro">
+        Save this result and re-run the same goal every few weeks. Importing a saved result shows
+        what changed since. Nothing is stored on our side: the file stays on your device.
+      </p>
+      <div className="improvements-form">
+        <button type="button" className="back-button" onClick={saveResult}>
+          Save this result
+        </button>
+        <label htmlFor="previousResult">Import a past result</label>
+        <input type="file" id="previousResult" accept="application/json,.json" onChange={importResult} />
+      </div>
+
+      {error && <div className="error">{error}</div>}
+
+      {diff && (
+        <div className="progress-diff">
+          {!diff.sameGoal && (
+            <p className="sacrifice-note">
+              The imported result is for a different goal, so these changes say little about your progress.
+            </p>
+          )}
+          <p>
+            Since {new Date(diff.previousEvaluatedAt).toLocaleDateString()} ({diff.elapsedMonths} months ago),
+            your overall score went from {diff.overallScore.previous} to {diff.overallScore.current}{' '}
+            <strong>({formatDelta(diff.overallScore.delta)})</strong>.
+          </p>
+          <p>
+            Average timeline: {diff.timelines.average.current} months, against{' '}
+            {diff.timelines.average.projected} months left on the earlier estimate
+            {diff.timelines.average.shift !== 0 &&
+              ` (${Math.abs(diff.timelines.average.shift)} months ${diff.timelines.average.shift < 0 ? 'ahead' : 'behind'})`}
+            .
+          </p>
+
+          {diff.milestones.length > 0 && (
+            <>
+              <h3>Milestones</h3>
+              <ul className="comparison-list">
+                {diff.milestones.map(milestone => (
+                  <li key={milestone.skillName} className={`milestone-${milestone.status}`}>
+                    <strong>{milestone.skillName}</strong> to level {milestone.requiredProficiency}, due{' '}
+                    {new Date(milestone.dueAt).toLocaleDateString()}:{' '}
+                    {milestone.status === 'reached'
+                      ? 'reached'
+                      : `${milestone.status === 'overdue' ? 'overdue' : 'on track'}, now at level ${milestone.currentProficiency}`}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {(diff.warningsResolved.length > 0 || diff.warningsAdded.length > 0) && (
+            <>
+              <h3>Warnings</h3>
+              <ul className="comparison-list">
+                {diff.warningsResolved.map((warning, idx) => (
+                  <li key={`resolved-${idx}`}>Resolved: {warning.message}</li>
+                ))}
+                {diff.warningsAdded.map((warning, idx) => (
+                  <li key={`added-${idx}`}>New: {warning.message}</li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {(diff.gapsClosed.length > 0 || diff.gapsNarrowed.length > 0 || diff.gapsOpened.length > 0) && (
+            <>
+              <h3>Skill gaps</h3>
+              <ul className="comparison-list">
+                {diff.gapsClosed.map(gap => (
+                  <li key={`closed-${gap.skillName}`}>Closed: {gap.skillName}</li>
+                ))}
+                {diff.gapsNarrowed.map(gap => (
+                  <li key={`narrowed-${gap.skillName}`}>
+                    Narrowed: {gap.skillName} ({gap.previousProficiency} → {gap.currentProficiency} of{' '}
+                    {gap.requiredProficiency})
+                  </li>
+                ))}
+                {diff.gapsOpened.map(gap => (
+                  <li key={`opened-${gap.skillName}`}>New: {gap.skillName}</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Formats a value recorded in an explanation.
+ */
+function formatExplanationValue(value: ExplanationValue): string {
+  if (value === null) return 'n/a'
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  return String(value)
+}
+
+/**
+ * Collapsible list of the inputs, intermediate values, branches and formula
+ * behind a value in the result.
+ */
+function ExplanationDetails({ node }: { node?: ExplanationNode }) {
+  if (!node) return null
+  const values = [...Object.entries(node.inputs), ...Object.entries(node.intermediates)]
+
+  return (
+    <details className="explanation-details">
+      <summary>How this was calculated</summary>
+      <ul>
+        {values.map(([name, value]) => (
+          <li key={name}>
+            <code>{name}</code> = {formatExplanationValue(value)}
+          </li>
+        ))}
+        {node.branches.map((branch, idx) => (
+          <li key={`branch-${idx}`}>Branch: {branch}</li>
+        ))}
+        {node.formula && (
+          <li>
+            Formula: <code>{node.formula}</code>
+          </li>
+        )}
+      </ul>
+      {node.children.map((child, idx) => (
+        <div key={idx} className="explanation-child">
+          <em>{child.label}: {formatExplanationValue(child.value)}</em>
+          <ExplanationDetails node={child} />
+        </div>
+      ))}
+    </details>
+  )
+}
+
+function ResultsDisplay({ result, input }: { result: RealityCheckResult; input: RealityCheckInput | null }) {
   const average = result.probabilityBands.average
+  const weights = result.metadata.config.weights
+
+  // Components that count towards the overall score (the market score needs market data)
+  const components = [
+    { label: 'Experience', score: result.scoreBreakdown.experienceScore, weight: weights.experienceScore },
+    { label: 'Skills', score: result.scoreBreakdown.skillScore, weight: weights.skillScore },
+    { label: 'Education', score: result.scoreBreakdown.educationScore, weight: weights.educationScore },
+    { label: 'Timeline', score: result.scoreBreakdown.timelineScore, weight: weights.timelineScore },
+    { label: 'Market', score: result.scoreBreakdown.marketScore, weight: weights.marketScore },
+  ].filter(component => component.score !== undefined && component.weight > 0)
+  const totalWeight = Math.round(components.reduce((sum, component) => sum + component.weight, 0) * 100) / 100
+
+  // How each number was calculated (see the engine's explanation module)
+  const { explanation } = result
+  const skill = explanation.scores.skillScore
+  const education = explanation.scores.educationScore
+  const timeline = explanation.scores.timelineScore
+  const hours = explanation.bands.average.requiredDailyHours
 
   return (
     <div className="results-content">
@@ -261,14 +1219,23 @@ function ResultsDisplay({ result }: { result: RealityCheckResult }) {
           <div>
             <strong>Best case:</strong> {result.probabilityBands.best.estimatedTimelineMonths} months
             <span className="likelihood"> ({result.probabilityBands.best.likelihood}% likelihood)</span>
+            {result.probabilityBands.best.expectedSalaryRange && (
+              <span className="salary-range"> · {formatSalaryRange(result.probabilityBands.best.expectedSalaryRange)}</span>
+            )}
           </div>
           <div>
             <strong>Average case:</strong> {average.estimatedTimelineMonths} months
             <span className="likelihood"> ({average.likelihood}% likelihood)</span>
+            {average.expectedSalaryRange && (
+              <span className="salary-range"> · {formatSalaryRange(average.expectedSalaryRange)}</span>
+            )}
           </div>
           <div>
             <strong>Worst case:</strong> {result.probabilityBands.worst.estimatedTimelineMonths} months
             <span className="likelihood"> ({result.probabilityBands.worst.likelihood}% likelihood)</span>
+            {result.probabilityBands.worst.expectedSalaryRange && (
+              <span className="salary-range"> · {formatSalaryRange(result.probabilityBands.worst.expectedSalaryRange)}</span>
+            )}
           </div>
         </div>
       </div>
@@ -369,10 +1336,18 @@ function ResultsDisplay({ result }: { result: RealityCheckResult }) {
       <div className="time-requirement-section">
         <h2>Time Commitment</h2>
         <p>
-          To achieve this goal, you&apos;ll need to dedicate approximately{' '}
-          <strong>{average.requiredDailyHours} hours per day</strong> to skill development,
-          networking, and job searching.
+          To achieve this goal, you&apos;ll need to dedicate up to approximately{' '}
+          <strong>{average.requiredDailyHours} hours per day</strong>. The hours change from phase
+          to phase (average case):
         </p>
+        <ol className="time-phases">
+          {average.phases.map(phase => (
+            <li key={phase.kind}>
+              <strong>{BAND_PHASE_NAMES[phase.kind]}</strong>: {phase.dailyHours} hours/day for{' '}
+              {phase.months} {phase.months === 1 ? 'month' : 'months'}
+            </li>
+          ))}
+        </ol>
         {average.sacrifices.reduceCurrentJobCommitment && (
           <p className="sacrifice-note">
             Note: This may require reducing your current job commitment.
@@ -428,6 +1403,47 @@ function ResultsDisplay({ result }: { result: RealityCheckResult }) {
         </div>
       )}
 
+      {result.riskProfile.risks.length > 0 && (
+        <div className="risk-profile-section">
+          <h2>Your Risk Profile</h2>
+          <p className="explanation-intro">
+            People on this path commonly fail for the reasons below. These are the ones your profile
+            or goal exposes you to, most common first.
+          </p>
+          {result.riskProfile.risks.map(risk => (
+            <div key={risk.category} className="risk">
+              <div className="risk-header">
+                <strong>{risk.category.replace(/_/g, ' ')}</strong>
+                <span className="risk-frequency">{risk.frequency}% of people who fail</span>
+              </div>
+              <ul>
+                {risk.reasons.map((reason, idx) => (
+                  <li key={idx}>
+                    {reason.description} ({reason.frequency}%)
+                  </li>
+                ))}
+              </ul>
+              <div className="warning-context">
+                <strong>Why you are exposed:</strong>
+                <ul>
+                  {risk.exposure.map((item, idx) => (
+                    <li key={idx}>{item}</li>
+                  ))}
+                </ul>
+              </div>
+              <div className="warning-actions">
+                <strong>How to reduce it:</strong>
+                <ul>
+                  {risk.mitigations.map((action, idx) => (
+                    <li key={idx}>{action}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {result.skillGaps.length > 0 && (
         <div className="skill-gaps-section">
           <h2>Skill Gaps to Address</h2>
@@ -445,6 +1461,25 @@ function ResultsDisplay({ result }: { result: RealityCheckResult }) {
         </div>
       )}
 
+      {result.skillMatches.length > 0 && (
+        <div className="skill-matches-section">
+          <h2>How Your Skills Were Matched</h2>
+          <p className="explanation-intro">
+            Each requirement below was satisfied by one of the skills you listed. Requirements not
+            shown here had no matching skill.
+          </p>
+          <ul>
+            {result.skillMatches.map((match, idx) => (
+              <li key={idx}>
+                <strong>{match.requirement}</strong>: {match.explanation} (level{' '}
+                {match.proficiency}/5, need {match.requiredProficiency}/5
+                {match.meetsRequirement ? ', met' : ', not yet met'})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="recommendations-section">
         <h2>Recommendations</h2>
         <ul>
@@ -454,33 +1489,34 @@ function ResultsDisplay({ result }: { result: RealityCheckResult }) {
         </ul>
       </div>
 
+      {input && <RoadmapView input={input} />}
+
+      {input && <ImprovementPaths input={input} overallScore={result.overallScore} />}
+
+      {input && <SensitivityChart input={input} />}
+
+      {input && <GoalComparisonView input={input} />}
+
+      <ProgressTracker result={result} />
+
       <div className="score-breakdown">
         <h2>Score Breakdown</h2>
         <p className="explanation-intro">
-          Your overall score is calculated from four components, each weighted differently:
+          Your overall score is calculated from {components.length} components, each weighted
+          differently (weights from the &quot;{result.metadata.config.name}&quot; profile):
         </p>
         <div className="breakdown-grid">
-          <div>
-            <strong>Experience:</strong> {result.scoreBreakdown.experienceScore}/100
-            <span className="weight"> (30% weight)</span>
-          </div>
-          <div>
-            <strong>Skills:</strong> {result.scoreBreakdown.skillScore}/100
-            <span className="weight"> (30% weight)</span>
-          </div>
-          <div>
-            <strong>Education:</strong> {result.scoreBreakdown.educationScore}/100
-            <span className="weight"> (20% weight)</span>
-          </div>
-          <div>
-            <strong>Timeline:</strong> {result.scoreBreakdown.timelineScore}/100
-            <span className="weight"> (20% weight)</span>
-          </div>
+          {components.map(component => (
+            <div key={component.label}>
+              <strong>{component.label}:</strong> {component.score}/100
+              <span className="weight"> ({Math.round((component.weight / totalWeight) * 100)}% weight)</span>
+            </div>
+          ))}
         </div>
         <p className="score-calculation">
-          Overall score: ({result.scoreBreakdown.experienceScore} × 0.3) + (
-          {result.scoreBreakdown.skillScore} × 0.3) + ({result.scoreBreakdown.educationScore} × 0.2) + (
-          {result.scoreBreakdown.timelineScore} × 0.2) = <strong>{result.overallScore}/100</strong>
+          Overall score: {totalWeight !== 1 && '['}
+          {components.map(component => `(${component.score} × ${component.weight})`).join(' + ')}
+          {totalWeight !== 1 && `] ÷ ${totalWeight}`} = <strong>{result.overallScore}/100</strong>
         </p>
       </div>
 
@@ -494,71 +1530,98 @@ function ResultsDisplay({ result }: { result: RealityCheckResult }) {
           <div className="assumption-item">
             <strong>Experience Requirements:</strong>
             <p>
-              We estimate that most roles require 2-5 years of relevant experience. Senior roles
-              need 5+ years, entry-level roles need 0-2 years. Your score reflects how your{' '}
+              {result.role.explanation} Your score reflects how your{' '}
               {result.scoreBreakdown.experienceScore < 50
                 ? 'limited'
                 : result.scoreBreakdown.experienceScore < 80
                 ? 'moderate'
                 : 'strong'}{' '}
-              experience ({result.scoreBreakdown.experienceScore}/100) compares to these benchmarks.
+              experience ({result.scoreBreakdown.experienceScore}/100) compares to this benchmark.
             </p>
+            <ExplanationDetails node={explanation.scores.experienceScore} />
           </div>
 
           <div className="assumption-item">
             <strong>Skill Proficiency:</strong>
             <p>
-              Most professional roles require skills at proficiency level 3-4 (intermediate to
-              advanced). Your skill score of {result.scoreBreakdown.skillScore}/100 reflects
-              how well your current skills match typical requirements for your target role.
+              {skill?.intermediates.avgProficiency !== undefined
+                ? `Your ${skill.inputs.skillCount} skills average proficiency ${skill.intermediates.avgProficiency}/5, worth ${skill.intermediates.proficiencyScore} points (level 3-4 is what most roles need), plus ${skill.intermediates.skillCountBonus} points for breadth.`
+                : 'You listed no skills, so the skill score is 0.'}{' '}
+              Your skill score is {result.scoreBreakdown.skillScore}/100.
             </p>
+            <ExplanationDetails node={skill} />
           </div>
 
           <div className="assumption-item">
             <strong>Education Standards:</strong>
             <p>
-              We assume a bachelor&apos;s degree is standard for most professional roles (80 points).
-              Higher degrees get full points (100), while lower education levels receive
-              proportionally fewer points. Your education score is {result.scoreBreakdown.educationScore}/100.
+              Your education level is worth {education?.intermediates.baseScore} points (a
+              bachelor&apos;s degree, standard for most professional roles, is worth 80), plus{' '}
+              {education?.intermediates.fieldBonus} points for how your field of study matches the
+              target industry. Your education score is {result.scoreBreakdown.educationScore}/100.
             </p>
+            <ExplanationDetails node={education} />
           </div>
 
           <div className="assumption-item">
             <strong>Timeline Realism:</strong>
             <p>
-              We estimate learning a new skill to proficiency level 3 takes 3-6 months. Gaining
-              one year of experience requires 12 months (can&apos;t be accelerated). Career changes
-              add 6-12 months. Your timeline score of {result.scoreBreakdown.timelineScore}/100
-              reflects how realistic your target timeline is given these constraints.
+              Your gaps add up to a minimum realistic timeline of{' '}
+              {timeline?.intermediates.minimumRealisticMonths} months: {timeline?.inputs.experienceGapYears}{' '}
+              year(s) of experience to gain, {timeline?.intermediates.totalSkillMonths} months of skill
+              learning, {timeline?.intermediates.careerChangeMonths} months for a career change and{' '}
+              {Number(timeline?.inputs.relocationMonths ?? 0) + Number(timeline?.inputs.jobDensityMonths ?? 0)}{' '}
+              months for location. Your target of {timeline?.inputs.targetMonths} months gives a timeline
+              score of {result.scoreBreakdown.timelineScore}/100.
             </p>
+            <ExplanationDetails node={timeline} />
           </div>
 
           <div className="assumption-item">
             <strong>Probability Band Likelihood:</strong>
             <p>
-              The likelihood percentages are based on your overall score. Higher scores make the
-              best case more likely (30% if score ≥80, 20% if 50-80, 10% if &lt;50). Lower scores
-              make the worst case more likely (40% if score &lt;50, 30% if 50-80, 20% if ≥80).
-              The average case is always the most likely outcome.
+              The likelihood percentages are based on your overall score of {result.overallScore}. Higher
+              scores make the best case more likely ({describeLikelihoods(result.metadata.config.likelihoodTables.best)}).
+              Lower scores make the worst case more likely (
+              {describeLikelihoods(result.metadata.config.likelihoodTables.worst)}). For your score that
+              gives {result.probabilityBands.best.likelihood}% best case, {average.likelihood}% average case
+              and {result.probabilityBands.worst.likelihood}% worst case.
             </p>
+            <ExplanationDetails node={explanation.overallScore} />
           </div>
 
           <div className="assumption-item">
             <strong>Daily Time Requirements:</strong>
             <p>
-              We assume you need 2 hours/day minimum, plus 0.5 hours per skill gap, plus 1 hour
-              if you have experience gaps. These hours are for skill building, networking, job
-              searching, and interview preparation combined.
+              In the average case you need {hours.intermediates.baseHours} hours/day: 2 hours minimum, plus
+              0.5 hours for each of your {hours.inputs.skillGapCount} skill gaps
+              {result.scoreBreakdown.experienceScore < 50 ? ', plus 1 hour because of experience gaps' : ''}.
+              The best case needs {result.probabilityBands.best.requiredDailyHours} and the worst case{' '}
+              {result.probabilityBands.worst.requiredDailyHours} hours/day. These hours are for skill
+              building, networking, job searching, and interview preparation combined.
             </p>
+            <ExplanationDetails node={hours} />
           </div>
 
           <div className="assumption-item">
             <strong>Market Conditions:</strong>
-            <p>
-              Our evaluation assumes typical market conditions. We don&apos;t account for economic
-              downturns, industry-specific booms, or exceptional personal circumstances. These
-              factors could significantly change outcomes.
-            </p>
+            {result.market ? (
+              <p>
+                Market data for this role ({result.market.source}) shows a demand index of{' '}
+                {result.market.demandIndex}/100, about {result.market.applicantsPerOpening} applicants
+                per opening, and a {result.market.hiringTrend} hiring trend ({result.market.trendPercent}%
+                year over year). Your market score is {result.scoreBreakdown.marketScore}/100. These
+                are approximate offline figures; local conditions and economic swings can differ.
+              </p>
+            ) : (
+              <p>
+                We have no market data for this role and industry, so market conditions are not part
+                of your score. We don&apos;t account for economic downturns, industry-specific booms,
+                or exceptional personal circumstances. These factors could significantly change
+                outcomes.
+              </p>
+            )}
+            <ExplanationDetails node={explanation.scores.marketScore} />
           </div>
         </div>
       </div>